@@ -0,0 +1,46 @@
+// src/app/api/bulk-jobs/[id]/cancel/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { cancelJob } from '@/lib/bulk-jobs';
+import { isValidResultId } from '@/lib/result-store';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: jobId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!jobId || !isValidResultId(jobId)) {
+      return NextResponse.json({ error: 'Missing or invalid job ID' }, { status: 400 });
+    }
+
+    const job = await cancelJob(userId, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found or access denied.' }, { status: 404 });
+    }
+
+    // Jobs that already finished keep their final state
+    if (job.state !== 'cancelled') {
+      return NextResponse.json(
+        { error: `Job has already ${job.state === 'completed' ? 'completed' : 'failed'}.`, state: job.state },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ jobId: job.jobId, state: job.state });
+  } catch (error) {
+    console.error('Error cancelling bulk job:', error);
+    return NextResponse.json({ error: 'Failed to cancel bulk job.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+// src/app/api/bulk-jobs/[id]/events/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { BulkJob, getJob, isTerminalState, subscribeToJob, toJobProgress } from '@/lib/bulk-jobs';
+import { isValidResultId } from '@/lib/result-store';
+
+export const dynamic = 'force-dynamic';
+
+// How often the stored job is re-read, for workers running on another instance
+const STORE_POLL_INTERVAL_MS = 2000;
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Stream a job's progress as Server-Sent Events.
+ * Each `progress` event carries a BulkJobProgress payload; the stream ends
+ * after the event for a completed, failed or cancelled job.
+ */
+export async function GET(
+  request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: jobId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!jobId || !isValidResultId(jobId)) {
+      return NextResponse.json({ error: 'Missing or invalid job ID' }, { status: 400 });
+    }
+
+    const initialJob = await getJob(userId, jobId);
+    if (!initialJob) {
+      return NextResponse.json({ error: 'Job not found or access denied.' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    // Set once the stream is closed by the server or cancelled by the client;
+    // the controller must not be used after either
+    let closed = false;
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let lastRowsDone = -1;
+        let lastState = '';
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a cancel that raced the abort
+          }
+        };
+
+        const enqueue = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The client went away between the check and the write
+            close();
+          }
+        };
+
+        // Send a job snapshot unless it is older than what was already sent
+        const send = (job: BulkJob) => {
+          if (closed) return;
+          if (job.state === lastState && job.rowsDone <= lastRowsDone) {
+            enqueue(': keep-alive\n\n');
+            return;
+          }
+
+          lastRowsDone = Math.max(lastRowsDone, job.rowsDone);
+          lastState = job.state;
+          enqueue(`event: progress\ndata: ${JSON.stringify(toJobProgress(job))}\n\n`);
+
+          if (isTerminalState(job.state)) close();
+        };
+
+        const unsubscribe = subscribeToJob(jobId, send);
+        const poll = setInterval(async () => {
+          try {
+            const job = await getJob(userId, jobId);
+            if (job) send(job);
+          } catch (error) {
+            console.error('Error reading bulk job for progress stream:', error);
+          }
+        }, STORE_POLL_INTERVAL_MS);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(poll);
+          request.signal.removeEventListener('abort', close);
+        };
+        request.signal.addEventListener('abort', close);
+
+        send(initialJob);
+      },
+      cancel() {
+        closed = true;
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming bulk job progress:', error);
+    return NextResponse.json({ error: 'Failed to stream bulk job progress.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+// src/app/api/bulk-jobs/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getJob } from '@/lib/bulk-jobs';
+import { isValidResultId } from '@/lib/result-store';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: jobId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!jobId || !isValidResultId(jobId)) {
+      return NextResponse.json({ error: 'Missing or invalid job ID' }, { status: 400 });
+    }
+
+    const job = await getJob(userId, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found or access denied.' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      jobId: job.jobId,
+      state: job.state,
+      fileName: job.fileName,
+      totalRows: job.totalRows,
+      readingFile: job.readingFile ?? false,
+      rowsDone: job.rowsDone,
+      rowsFound: job.rowsFound,
+      cacheHits: job.cacheHits ?? 0,
+      parseErrors: job.parseErrors ?? 0,
+      rowsPerSecond: job.rowsPerSecond ?? 0,
+      resultId: job.resultId ?? null,
+      resultLocation: job.resultLocation ?? null,
+      error: job.error ?? null,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching bulk job:', error);
+    return NextResponse.json({ error: 'Failed to retrieve bulk job.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/bulk-result/[id]/enriched/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { buildEnrichedFile, BulkSourceFile, readBulkResultRows, StoredBulkResultRows } from '@/lib/bulk-jobs';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+import { downloadHeaders } from '@/lib/result-export';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Interface for the stored bulk result fields the file is rebuilt from
+interface StoredBulkResult extends StoredBulkResultRows {
+  fileName: string;
+  // Missing for searches run before the file layout was kept, and for reverse lookups
+  sourceFile?: BulkSourceFile | null;
+  enrichmentFields?: string[];
+}
+
+// Download the uploaded file again, in its own format, with the found emails appended to each row
+export async function GET(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: bulkRequestId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!bulkRequestId || !isValidResultId(bulkRequestId)) {
+      return NextResponse.json({ error: 'Missing or invalid bulk request ID' }, { status: 400 });
+    }
+
+    const parsedData = await getResultStore().get<StoredBulkResult>(userId, 'bulk', bulkRequestId);
+
+    if (!parsedData) {
+      return NextResponse.json({ error: 'Result not found or access denied.' }, { status: 404 });
+    }
+
+    const { sourceFile } = parsedData;
+    if (!sourceFile) {
+      return NextResponse.json(
+        { error: 'The original columns of this file were not kept, so only the results can be downloaded.' },
+        { status: 400 }
+      );
+    }
+
+    const file = buildEnrichedFile({
+      fileName: parsedData.fileName,
+      sourceFile,
+      enrichmentFields: parsedData.enrichmentFields ?? [],
+      results: await readBulkResultRows(userId, bulkRequestId, parsedData),
+    });
+
+    return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+      headers: downloadHeaders(file),
+    });
+  } catch (error) {
+    console.error('Error building enriched bulk file:', error);
+    return NextResponse.json({ error: 'Failed to build the enriched file.' }, { status: 500 });
+  }
+}
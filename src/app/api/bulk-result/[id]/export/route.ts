@@ -0,0 +1,132 @@
+// src/app/api/bulk-result/[id]/export/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { readBulkResultRows, StoredBulkResultRows } from '@/lib/bulk-jobs';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+import {
+  bulkExportTable,
+  downloadHeaders,
+  EXPORT_FORMATS,
+  ExportProfile,
+  getBuiltInProfile,
+  isExportFormat,
+  PROFILE_EXPORT_FORMATS,
+  profileExportTable,
+  selectColumns,
+  writeExportFile,
+} from '@/lib/result-export';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Interface for the stored bulk result fields an export is built from
+interface StoredBulkResult extends StoredBulkResultRows {
+  fileName?: string;
+  enrichmentFields?: string[];
+}
+
+// Export a stored bulk result as ?format=csv|xlsx|json|vcf, with the columns
+// given as repeated ?columns= parameters (every column when none are given),
+// or laid out for a CRM import with ?profile=<profile id>
+export async function GET(
+  request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: bulkRequestId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!bulkRequestId || !isValidResultId(bulkRequestId)) {
+      return NextResponse.json({ error: 'Missing or invalid bulk request ID' }, { status: 400 });
+    }
+
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || 'csv';
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid export format. Use one of: ${EXPORT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    const profileId = url.searchParams.get('profile');
+    if (profileId && !isValidResultId(profileId)) {
+      return NextResponse.json({ error: 'Invalid export profile ID' }, { status: 400 });
+    }
+    if (profileId && !PROFILE_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Export profiles can be exported as: ${PROFILE_EXPORT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+    if (profileId && url.searchParams.getAll('columns').length > 0) {
+      return NextResponse.json(
+        { error: 'Columns cannot be selected when exporting with a profile.' },
+        { status: 400 }
+      );
+    }
+
+    const resultStore = getResultStore();
+    const profile = profileId
+      ? getBuiltInProfile(profileId) ?? await resultStore.get<ExportProfile>(userId, 'profile', profileId)
+      : null;
+    if (profileId && !profile) {
+      return NextResponse.json({ error: 'Export profile not found.' }, { status: 404 });
+    }
+
+    const parsedData = await resultStore.get<StoredBulkResult>(userId, 'bulk', bulkRequestId);
+
+    if (!parsedData) {
+      return NextResponse.json({ error: 'Result not found or access denied.' }, { status: 404 });
+    }
+
+    const results = await readBulkResultRows(userId, bulkRequestId, parsedData);
+    const table = bulkExportTable(results, parsedData.enrichmentFields ?? []);
+
+    // Name the export after the uploaded file
+    const baseName = (parsedData.fileName || bulkRequestId).replace(/\.[^.]+$/, '');
+
+    if (profile) {
+      const { table: profileTable, skippedRows } = profileExportTable(profile, table.rows);
+      if (profileTable.rows.length === 0 && skippedRows > 0) {
+        const required = profile.columns.filter((item) => item.required).map((item) => item.header);
+        return NextResponse.json(
+          { error: `No result has a value for every required column of ${profile.name}: ${required.join(', ')}.` },
+          { status: 400 }
+        );
+      }
+
+      const slug = profile.builtIn
+        ? profile.profileId
+        : profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+      const file = writeExportFile(format, profileTable.columns, profileTable.rows, `${baseName}-${slug}`);
+
+      return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+        headers: {
+          ...downloadHeaders(file),
+          // Rows left out for missing a required value
+          'X-Skipped-Rows': String(skippedRows),
+        },
+      });
+    }
+
+    const { columns, unknown } = selectColumns(table.columns, url.searchParams.getAll('columns'));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown columns: ${unknown.join(', ')}`, columns: table.columns }, { status: 400 });
+    }
+
+    const file = writeExportFile(format, columns, table.rows, `${baseName}-results`);
+
+    return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+      headers: downloadHeaders(file),
+    });
+  } catch (error) {
+    console.error('Error exporting bulk result:', error);
+    return NextResponse.json({ error: 'Failed to export bulk result.' }, { status: 500 });
+  }
+}
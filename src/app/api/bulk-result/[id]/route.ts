@@ -2,24 +2,27 @@
 
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { Readable } from 'stream';
-
-// Helper function to convert stream to string
-async function streamToString(stream: Readable): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk) => chunks.push(chunk));
-    stream.on('error', reject);
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-  });
-}
+import {
+  BulkResultStatus,
+  countBulkResultRows,
+  deleteBulkResultParts,
+  filterBulkResultRows,
+  readBulkResultRows,
+  StoredBulkResultRows,
+} from '@/lib/bulk-jobs';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+import { bulkExportTable } from '@/lib/result-export';
 
 // The RouteContext type is expected by Next.js type checks
 type RouteContext = { params: Promise<{ id: string }> };
 
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const RESULT_STATUSES: BulkResultStatus[] = ['verified', 'unverified', 'not-found'];
+
 export async function GET(
-  _request: Request,
+  request: Request,
   context: RouteContext
 ) {
   try {
@@ -31,62 +34,111 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!bulkRequestId) {
-      return NextResponse.json({ error: 'Missing bulk request ID' }, { status: 400 });
+    if (!bulkRequestId || !isValidResultId(bulkRequestId)) {
+      return NextResponse.json({ error: 'Missing or invalid bulk request ID' }, { status: 400 });
     }
 
-    const s3Client = new S3Client({
-      region: process.env.AWS_REGION || 'ap-south-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
+    // Results are returned a page at a time, optionally filtered by status or text;
+    // the export routes return whole result sets
+    const url = new URL(request.url);
+    const page = parseInt(url.searchParams.get('page') || '1', 10);
+    const pageSize = parseInt(url.searchParams.get('pageSize') || String(DEFAULT_PAGE_SIZE), 10);
+    const status = url.searchParams.get('status') || null;
+    const search = url.searchParams.get('q')?.trim() || '';
 
-    const s3BucketNameFull = process.env.S3_BUCKET_NAME!.replace('s3://', '');
-    const s3BucketName = s3BucketNameFull.split('/')[0];
-    
-    let prefix = '';
-    if (s3BucketNameFull.includes('/')) {
-      const basePrefix = s3BucketNameFull.substring(s3BucketName.length + 1);
-      prefix = `${basePrefix}user-data/${userId}/bulk-find-email/`;
-    } else {
-      prefix = `user-data/${userId}/bulk-find-email/`;
+    if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: 'Invalid pagination parameters' }, { status: 400 });
+    }
+    if (status !== null && !RESULT_STATUSES.includes(status as BulkResultStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Use one of: ${RESULT_STATUSES.join(', ')}.` },
+        { status: 400 }
+      );
     }
-    
-    const s3Key = `${prefix}${bulkRequestId}.json`;
 
-    const command = new GetObjectCommand({
-      Bucket: s3BucketName,
-      Key: s3Key,
-    });
-    const data = await s3Client.send(command);
+    const parsedData = await getResultStore().get<StoredBulkResultRows & Record<string, unknown>>(
+      userId,
+      'bulk',
+      bulkRequestId
+    );
 
-    if (!data.Body) {
-      throw new Error('S3 object body is empty');
+    if (!parsedData) {
+      return NextResponse.json({ error: 'Result not found or access denied.' }, { status: 404 });
     }
 
-    const bodyContents = await streamToString(data.Body as Readable);
-    const parsedData = JSON.parse(bodyContents);
-    const results = Array.isArray(parsedData.results)
-      ? parsedData.results
-      : [parsedData.results];
+    // Unfiltered pages only read the parts holding them; filtered pages read
+    // every part, one at a time, to count the rows that pass the filter
+    const range = { offset: (page - 1) * pageSize, limit: pageSize };
+    const { rows: results, total: totalResults } = status || search
+      ? await filterBulkResultRows(userId, bulkRequestId, parsedData, {
+          status: (status as BulkResultStatus | null) ?? undefined,
+          search,
+        }, range)
+      : {
+          rows: await readBulkResultRows(userId, bulkRequestId, parsedData, range),
+          total: countBulkResultRows(parsedData),
+        };
+    const enrichmentFields = (parsedData.enrichmentFields as string[] | undefined) ?? [];
 
     return NextResponse.json({
       searchId: parsedData.searchId,
       fileName: parsedData.fileName,
       recordCount: parsedData.recordCount,
       successCount: parsedData.successCount,
+      skippedCount: parsedData.skippedCount ?? 0,
+      // Rows of the file that could not be parsed; only the first ones are listed
+      parseErrorCount: parsedData.parseErrorCount ?? 0,
+      parseErrors: parsedData.parseErrors ?? [],
+      enrichmentFields,
+      // Columns /api/bulk-result/[id]/export can include; worked out by the worker
+      // for results stored in parts, and from the inline rows of older entries
+      exportColumns: Array.isArray(parsedData.exportColumns)
+        ? parsedData.exportColumns
+        : bulkExportTable(await readBulkResultRows(userId, bulkRequestId, parsedData), enrichmentFields).columns,
+      // Whether /api/bulk-result/[id]/enriched can rebuild the uploaded file
+      hasSourceFile: !!parsedData.sourceFile,
       results,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(totalResults / pageSize)),
+      // Rows that pass the filter, if any
+      totalResults,
+      queryUsage: parsedData.queryUsage ?? null,
       timestamp: parsedData.timestamp,
     });
 
   } catch (error) {
-    console.error('Error fetching bulk result from S3:', error);
+    console.error('Error fetching bulk result:', error);
+    return NextResponse.json({ error: 'Failed to retrieve bulk result.' }, { status: 500 });
+  }
+}
 
-    if (error instanceof Error && error.name === 'NoSuchKey') {
-      return NextResponse.json({ error: 'Result not found or access denied.' }, { status: 404 });
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id: bulkRequestId } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    return NextResponse.json({ error: 'Failed to retrieve bulk result.' }, { status: 500 });
+
+    if (!bulkRequestId || !isValidResultId(bulkRequestId)) {
+      return NextResponse.json({ error: 'Missing or invalid bulk request ID' }, { status: 400 });
+    }
+
+    const resultStore = getResultStore();
+    const stored = await resultStore.get<StoredBulkResultRows>(userId, 'bulk', bulkRequestId);
+    if (stored?.resultParts) {
+      await deleteBulkResultParts(userId, bulkRequestId, stored.resultParts);
+    }
+    await resultStore.delete(userId, 'bulk', bulkRequestId);
+
+    return NextResponse.json({ success: true, searchId: bulkRequestId });
+  } catch (error) {
+    console.error('Error deleting bulk result:', error);
+    return NextResponse.json({ error: 'Failed to delete bulk result.' }, { status: 500 });
   }
 }
@@ -0,0 +1,39 @@
+// src/app/api/column-presets/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid preset ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    await getResultStore().delete(userId, 'mapping', id);
+
+    return NextResponse.json({ success: true, presetId: id });
+  } catch (error) {
+    console.error('Error deleting column preset:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete the column mapping.' },
+      { status: 500 }
+    );
+  }
+}
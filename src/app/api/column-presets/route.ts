@@ -0,0 +1,108 @@
+// app/api/column-presets/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore } from '@/lib/result-store';
+import { ColumnMapping, parseColumnMapping } from '@/lib/column-mapping';
+
+// Longest preset name accepted
+const MAX_PRESET_NAME_LENGTH = 80;
+
+// Interface for a saved column mapping
+interface ColumnPreset {
+  presetId: string;
+  name: string;
+  mapping: ColumnMapping;
+  timestamp: string;
+  updatedAt: string;
+}
+
+// List the user's saved column mappings, sorted by name
+export async function GET(): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const resultStore = getResultStore();
+    const storedPresets = await resultStore.list(userId, 'mapping');
+
+    const presets = await Promise.all(storedPresets.map(async (item) => {
+      try {
+        return await resultStore.get<ColumnPreset>(userId, 'mapping', item.id);
+      } catch (error) {
+        console.error(`Error fetching column preset ${item.key}:`, error);
+        return null;
+      }
+    }));
+
+    return NextResponse.json({
+      presets: presets
+        .filter((preset): preset is ColumnPreset => preset !== null)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.error('Error listing column presets:', error);
+    return NextResponse.json({ error: 'Failed to load saved column mappings.' }, { status: 500 });
+  }
+}
+
+// Save a column mapping under a name; saving an existing name replaces that preset
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // An unparseable body is the client's mistake, not a server error
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'The request body must be a JSON object.' }, { status: 400 });
+    }
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json({ error: 'A preset name is required.' }, { status: 400 });
+    }
+    if (name.length > MAX_PRESET_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const { mapping, errors } = parseColumnMapping(body.mapping);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(' ') }, { status: 400 });
+    }
+    if (Object.keys(mapping).length === 0) {
+      return NextResponse.json({ error: 'The mapping does not map any columns.' }, { status: 400 });
+    }
+
+    const resultStore = getResultStore();
+    const storedPresets = await resultStore.list(userId, 'mapping');
+    const existing = (await Promise.all(
+      storedPresets.map((item) => resultStore.get<ColumnPreset>(userId, 'mapping', item.id))
+    )).find((preset) => preset?.name.toLowerCase() === name.toLowerCase());
+
+    const now = new Date().toISOString();
+    const preset: ColumnPreset = {
+      presetId: existing?.presetId || `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`,
+      name,
+      mapping,
+      timestamp: existing?.timestamp || now,
+      updatedAt: now,
+    };
+
+    await resultStore.put(userId, 'mapping', preset.presetId, preset);
+
+    return NextResponse.json({ preset }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('Error saving column preset:', error);
+    return NextResponse.json({ error: 'Failed to save the column mapping.' }, { status: 500 });
+  }
+}
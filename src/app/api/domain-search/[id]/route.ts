@@ -0,0 +1,93 @@
+// src/app/api/domain-search/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid search ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    const searchData = await getResultStore().get(userId, 'domain', id);
+
+    if (!searchData) {
+      return NextResponse.json(
+        { error: 'Domain search not found.' },
+        { status: 404 }
+      );
+    }
+
+    // Pages are stored as they were loaded; return their people in page order
+    const pages = (searchData.pages || {}) as Record<string, unknown[]>;
+    const pagesLoaded = Object.keys(pages).map(Number).sort((a, b) => a - b);
+
+    return NextResponse.json({
+      searchId: searchData.searchId,
+      companyDomain: searchData.companyDomain,
+      companyName: searchData.companyName,
+      pageSize: searchData.pageSize,
+      total: searchData.total ?? 0,
+      emailPattern: searchData.emailPattern ?? null,
+      pagesLoaded,
+      people: pagesLoaded.flatMap((page) => pages[page]),
+      queryUsage: searchData.queryUsage ?? null,
+      timestamp: searchData.timestamp,
+      updatedAt: searchData.updatedAt,
+    });
+  } catch (error) {
+    console.error('Error retrieving domain search:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve domain search.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid search ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    await getResultStore().delete(userId, 'domain', id);
+
+    return NextResponse.json({ success: true, searchId: id });
+  } catch (error) {
+    console.error('Error deleting domain search:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete domain search.' },
+      { status: 500 }
+    );
+  }
+}
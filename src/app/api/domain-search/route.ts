@@ -0,0 +1,181 @@
+// app/api/domain-search/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { normalizeCompanyDomain, normalizeCompanyName } from '@/lib/company-normalization';
+import {
+  CompanyPerson,
+  createLookupUsage,
+  getContactDirectory,
+  LookupUsage,
+} from '@/lib/contact-directory';
+import {
+  DomainPatternStats,
+  EmailPattern,
+  findPatternShare,
+  learnDomainPatterns,
+  selectDomainStats,
+} from '@/lib/email-patterns';
+import { getResultStore } from '@/lib/result-store';
+
+// People per page when the request does not ask for a page size
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Interface for a listed person with the address format they use
+interface DomainSearchPerson extends CompanyPerson {
+  emailPattern: EmailPattern | null;
+  // Share of the company's known addresses using the same format, from 0 to 1
+  patternShare: number | null;
+}
+
+// Interface for a domain search as stored in history; pages are added as they are loaded
+interface DomainSearchEntry {
+  searchId: string;
+  companyDomain?: string;
+  companyName?: string;
+  pageSize: number;
+  total: number;
+  emailPattern: DomainPatternStats | null;
+  pages: Record<string, DomainSearchPerson[]>;
+  queryUsage: LookupUsage;
+  timestamp: string;
+  updatedAt: string;
+}
+
+// Helper function to add one lookup's cost to a stored total
+function addUsage(total: LookupUsage, usage: LookupUsage): LookupUsage {
+  return {
+    queryCount: total.queryCount + usage.queryCount,
+    dataScannedInBytes: total.dataScannedInBytes + usage.dataScannedInBytes,
+    engineExecutionTimeMs: total.engineExecutionTimeMs + usage.engineExecutionTimeMs,
+    runTimeMs: total.runTimeMs + usage.runTimeMs,
+  };
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Query cost of this page, added to the history entry
+  const queryUsage = createLookupUsage();
+
+  try {
+    const {
+      companyDomain: rawCompanyDomain, companyName: rawCompanyName,
+      page: requestedPage, pageSize: requestedPageSize, searchId: requestedSearchId
+    } = await request.json();
+
+    const page = Number.isInteger(requestedPage) && requestedPage > 0 ? requestedPage : 1;
+    const resultStore = getResultStore();
+
+    // Later pages of a stored search reuse its company and page size
+    let entry: DomainSearchEntry | null = null;
+    if (requestedSearchId) {
+      entry = await resultStore.get<DomainSearchEntry>(userId, 'domain', String(requestedSearchId));
+      if (!entry) {
+        return NextResponse.json({ error: 'Domain search not found.' }, { status: 404 });
+      }
+    }
+
+    let companyDomain = entry ? entry.companyDomain : undefined;
+    let companyName = entry ? entry.companyName : undefined;
+    if (!entry) {
+      if (rawCompanyDomain) {
+        companyDomain = normalizeCompanyDomain(String(rawCompanyDomain)) ?? undefined;
+        if (!companyDomain) {
+          return NextResponse.json(
+            { error: 'Company domain is not a valid domain name (e.g. acme.io).' },
+            { status: 400 }
+          );
+        }
+      }
+      if (rawCompanyName && normalizeCompanyName(String(rawCompanyName))) {
+        companyName = String(rawCompanyName).trim();
+      }
+      if (!companyDomain && !companyName) {
+        return NextResponse.json(
+          { error: 'A company domain or company name is required.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const pageSize = entry
+      ? entry.pageSize
+      : Number.isInteger(requestedPageSize)
+      ? Math.min(Math.max(requestedPageSize, 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+    const company = { companyDomain, companyName };
+    const directory = getContactDirectory();
+
+    const result = await directory.findCompanyPeople(
+      company,
+      { offset: (page - 1) * pageSize, limit: pageSize },
+      queryUsage
+    );
+
+    // Learn the company's address format once, with the first page
+    let emailPattern = entry ? entry.emailPattern : null;
+    if (!entry) {
+      try {
+        const [samples] = await directory.findEmailSamples([company], queryUsage);
+        emailPattern = selectDomainStats(learnDomainPatterns(samples), companyDomain);
+      } catch (patternError) {
+        console.error('Error learning email pattern for domain search:', patternError);
+      }
+    }
+
+    const people: DomainSearchPerson[] = result.people.map((person) => {
+      const share = person.email ? findPatternShare(person.email, person.firstName, person.lastName, emailPattern) : null;
+      return { ...person, emailPattern: share?.pattern ?? null, patternShare: share ? share.share : null };
+    });
+
+    const searchId = entry?.searchId ?? `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+    const now = new Date().toISOString();
+    // A page past the end leaves the known total unchanged
+    const total = result.total ?? entry?.total ?? 0;
+
+    const updated: DomainSearchEntry = {
+      searchId,
+      ...(companyDomain ? { companyDomain } : {}),
+      ...(companyName ? { companyName } : {}),
+      pageSize,
+      total,
+      emailPattern,
+      pages: { ...entry?.pages, ...(people.length > 0 ? { [page]: people } : {}) },
+      queryUsage: entry ? addUsage(entry.queryUsage, queryUsage) : queryUsage,
+      timestamp: entry?.timestamp ?? now,
+      updatedAt: now,
+    };
+
+    try {
+      await resultStore.put(userId, 'domain', searchId, updated);
+    } catch (storeError) {
+      console.error('Error storing domain search:', storeError);
+      // Log the error but continue to return the result
+    }
+
+    return NextResponse.json({
+      searchId,
+      companyDomain,
+      companyName,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+      emailPattern,
+      people,
+      queryUsage,
+    });
+  } catch (error) {
+    console.error('Error running domain search:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while searching the company.' },
+      { status: 500 }
+    );
+  }
+}
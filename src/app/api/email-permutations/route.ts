@@ -0,0 +1,135 @@
+// app/api/email-permutations/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { normalizeCompanyDomain } from '@/lib/company-normalization';
+import { createLookupUsage, getContactDirectory } from '@/lib/contact-directory';
+import {
+  DomainPatternStats,
+  EmailPattern,
+  generatePermutations,
+  learnDomainPatterns,
+  selectDomainStats,
+} from '@/lib/email-patterns';
+import {
+  hasMxRecords,
+  isDisposableEmail,
+  isRoleBasedEmail,
+  isValidEmail,
+} from '@/lib/email-verification';
+
+// How likely an address is to receive mail, from best to worst. Nothing is
+// sent to the addresses: 'known' means the directory holds the exact address.
+type Deliverability = 'known' | 'accepts-mail' | 'undeliverable';
+
+const DELIVERABILITY_RANK: Record<Deliverability, number> = {
+  known: 0,
+  'accepts-mail': 1,
+  undeliverable: 2,
+};
+
+// Interface for one generated address and the checks it passed
+interface PermutationResult {
+  email: string;
+  pattern: EmailPattern;
+  deliverability: Deliverability;
+  roleBased: boolean;
+  // Share of the domain's known addresses using this format, from 0 to 1
+  patternShare: number;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { firstName, lastName, domain: rawDomain } = await request.json();
+
+    if (!firstName || !lastName || !rawDomain) {
+      return NextResponse.json(
+        { error: 'First name, last name and domain are required.' },
+        { status: 400 }
+      );
+    }
+
+    const domain = normalizeCompanyDomain(String(rawDomain));
+    if (!domain) {
+      return NextResponse.json(
+        { error: 'Domain is not a valid domain name (e.g. acme.io).' },
+        { status: 400 }
+      );
+    }
+
+    const permutations = generatePermutations(String(firstName), String(lastName), domain);
+    if (permutations.length === 0) {
+      return NextResponse.json(
+        { error: 'First and last name must contain letters or digits.' },
+        { status: 400 }
+      );
+    }
+
+    // Learn the domain's format from known addresses; ranking still works without it
+    let emailPattern: DomainPatternStats | null = null;
+    const knownEmails = new Set<string>();
+    try {
+      const [samples] = await getContactDirectory().findEmailSamples([{ companyDomain: domain }], createLookupUsage());
+      emailPattern = selectDomainStats(learnDomainPatterns(samples), domain);
+      samples.forEach((sample) => knownEmails.add(sample.email.toLowerCase()));
+    } catch (patternError) {
+      console.error('Error learning email pattern for permutations:', patternError);
+    }
+    const shares = new Map(emailPattern?.patterns.map((entry) => [entry.pattern, entry.share]) ?? []);
+
+    // Domain checks are the same for every permutation
+    const mxRecords = await hasMxRecords(domain);
+    const disposable = isDisposableEmail(permutations[0].email);
+
+    console.log(`Checking ${permutations.length} permutations at ${domain} for user ${userId}`);
+
+    const results: PermutationResult[] = permutations.map(({ email, pattern }) => {
+      const deliverable = mxRecords && !disposable && isValidEmail(email);
+      const deliverability: Deliverability = !deliverable
+        ? 'undeliverable'
+        : knownEmails.has(email.toLowerCase())
+        ? 'known'
+        : 'accepts-mail';
+
+      return {
+        email,
+        pattern,
+        deliverability,
+        roleBased: isRoleBasedEmail(email),
+        patternShare: shares.get(pattern) ?? 0,
+      };
+    });
+
+    // Rank by deliverability, then by the domain's known format; ties keep the common-format order
+    const ranked = results
+      .map((result, index) => ({ result, index }))
+      .sort((a, b) =>
+        DELIVERABILITY_RANK[a.result.deliverability] - DELIVERABILITY_RANK[b.result.deliverability] ||
+        b.result.patternShare - a.result.patternShare ||
+        a.index - b.index
+      )
+      .map(({ result }) => result);
+
+    return NextResponse.json({
+      domain,
+      mxRecords,
+      disposable,
+      emailPattern,
+      permutations: ranked,
+      checkedAt: new Date().toISOString(),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Error checking email permutations:', error);
+
+    return NextResponse.json(
+      { error: 'An error occurred while checking the email permutations.' },
+      { status: 500 }
+    );
+  }
+}
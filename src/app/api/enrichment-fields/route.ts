@@ -0,0 +1,32 @@
+// app/api/enrichment-fields/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getContactDirectory } from '@/lib/contact-directory';
+import { listEnrichmentFields, MAX_ENRICHMENT_FIELDS } from '@/lib/enrichment-fields';
+
+// List the person table columns lookups can return in addition to emails
+export async function GET(): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const directory = getContactDirectory();
+    const fields = listEnrichmentFields(await directory.describeFields());
+
+    return NextResponse.json({
+      backend: directory.backend,
+      fields,
+      maxFields: MAX_ENRICHMENT_FIELDS,
+    });
+  } catch (error) {
+    console.error('Error reading the person table schema:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the available enrichment fields.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/api/export-profiles/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
+import { getBuiltInProfile } from '@/lib/result-export';
+
+// The RouteContext type is expected by Next.js type checks
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid profile ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    if (getBuiltInProfile(id)) {
+      return NextResponse.json(
+        { error: 'Built-in profiles cannot be deleted.' },
+        { status: 400 }
+      );
+    }
+
+    await getResultStore().delete(userId, 'profile', id);
+
+    return NextResponse.json({ success: true, profileId: id });
+  } catch (error) {
+    console.error('Error deleting export profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete the export profile.' },
+      { status: 500 }
+    );
+  }
+}
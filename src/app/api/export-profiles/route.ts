@@ -0,0 +1,92 @@
+// app/api/export-profiles/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore } from '@/lib/result-store';
+import { BUILT_IN_PROFILES, ExportProfile, parseExportProfile } from '@/lib/result-export';
+
+// Interface for a profile saved by the user
+interface StoredExportProfile extends ExportProfile {
+  timestamp: string;
+  updatedAt: string;
+}
+
+// List the built-in profiles followed by the user's own, sorted by name
+export async function GET(): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const resultStore = getResultStore();
+    const storedProfiles = await resultStore.list(userId, 'profile');
+
+    const profiles = await Promise.all(storedProfiles.map(async (item) => {
+      try {
+        return await resultStore.get<StoredExportProfile>(userId, 'profile', item.id);
+      } catch (error) {
+        console.error(`Error fetching export profile ${item.key}:`, error);
+        return null;
+      }
+    }));
+
+    return NextResponse.json({
+      profiles: [
+        ...BUILT_IN_PROFILES,
+        ...profiles
+          .filter((profile): profile is StoredExportProfile => profile !== null)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      ],
+    });
+  } catch (error) {
+    console.error('Error listing export profiles:', error);
+    return NextResponse.json({ error: 'Failed to load export profiles.' }, { status: 500 });
+  }
+}
+
+// Save a profile under a name; saving an existing name replaces that profile
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // An unparseable body is the client's mistake, not a server error
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'The request body must be a JSON object.' }, { status: 400 });
+    }
+
+    const { profile: input, errors } = parseExportProfile(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(' ') }, { status: 400 });
+    }
+
+    const resultStore = getResultStore();
+    const storedProfiles = await resultStore.list(userId, 'profile');
+    const existing = (await Promise.all(
+      storedProfiles.map((item) => resultStore.get<StoredExportProfile>(userId, 'profile', item.id))
+    )).find((profile) => profile?.name.toLowerCase() === input.name.toLowerCase());
+
+    const now = new Date().toISOString();
+    const profile: StoredExportProfile = {
+      profileId: existing?.profileId || `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`,
+      name: input.name,
+      builtIn: false,
+      columns: input.columns,
+      timestamp: existing?.timestamp || now,
+      updatedAt: now,
+    };
+
+    await resultStore.put(userId, 'profile', profile.profileId, profile);
+
+    return NextResponse.json({ profile }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('Error saving export profile:', error);
+    return NextResponse.json({ error: 'Failed to save the export profile.' }, { status: 500 });
+  }
+}
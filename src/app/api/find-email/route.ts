@@ -2,42 +2,32 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server'; // Import Clerk's auth
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'; // Import S3 client
-import { Readable } from 'stream';
+import { extractLinkedInUsername, hasSearchCriteria, PersonSearchCriteria } from '@/lib/athena-query-builder';
+import { normalizeCompanyDomain } from '@/lib/company-normalization';
+import { DomainPatternStats, inferFromSamples, InferredEmail } from '@/lib/email-patterns';
 import {
-  AthenaClient,
-  StartQueryExecutionCommand,
-  GetQueryExecutionCommand,
-  GetQueryResultsCommand,
-} from '@aws-sdk/client-athena';
+  CompanyDomain,
+  ContactDirectory,
+  createLookupUsage,
+  EnrichmentValues,
+  explainMatch,
+  getContactDirectory,
+  LookupUsage,
+  MatchCriterion,
+  MatchTier,
+  PersonCandidate,
+  PersonMatch,
+} from '@/lib/contact-directory';
+import { MAX_ENRICHMENT_FIELDS, resolveRequestedFields } from '@/lib/enrichment-fields';
+import { getResultStore } from '@/lib/result-store';
 
-// Helper function to convert stream to string
-async function streamToString(stream: Readable): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk) => chunks.push(chunk));
-    stream.on('error', reject);
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-  });
-}
-
-// Add these helper functions at the top of the file
-function normalizeCompanyName(companyName: string): string {
-  return companyName
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, '') // Remove special characters
-    .replace(/\s+/g, '') // Remove spaces
-    .replace(/inc$|llc$|ltd$|limited$|corporation$|corp$/, ''); // Remove common company suffixes
-}
+// Number of ranked candidates returned when the request does not ask for a count
+const DEFAULT_MAX_CANDIDATES = 5;
+const MAX_CANDIDATES_LIMIT = 20;
 
-function normalizeLinkedInUrl(url: string): string {
-  // Remove protocol and www
-  url = url.replace(/^(https?:\/\/)?(www\.)?/i, '');
-  // Remove trailing slashes and query parameters
-  url = url.replace(/\/+$/, '').split('?')[0];
-  // Extract username if it's a full URL
-  const match = url.match(/linkedin\.com\/in\/([\w-]+)/i);
-  return match ? match[1] : url;
+// Helper function to check whether a candidate has any email to offer
+function hasEmail(candidate: PersonCandidate): boolean {
+  return !!candidate.email || (!!candidate.personalEmails && candidate.personalEmails.length > 0);
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
@@ -50,220 +40,111 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
   console.log('--- userId found:', userId, 'Proceeding with request ---'); // Added log
 
+  // Query cost of this search, stored with the history entry
+  const queryUsage = createLookupUsage();
+
   try {
     const { 
-      firstName, lastName, linkedin, companyName,
-      useFirstName, useLastName, useLinkedin, useCompanyName 
+      firstName, lastName, linkedin, companyName, companyDomain: rawCompanyDomain,
+      useFirstName, useLastName, useLinkedin, useCompanyName, useCompanyDomain,
+      maxCandidates: requestedCandidates, enrichmentFields: requestedFields
     } = await request.json();
+
+    // Clamp the number of candidates the user can ask for
+    const maxCandidates = Number.isInteger(requestedCandidates)
+      ? Math.min(Math.max(requestedCandidates, 1), MAX_CANDIDATES_LIMIT)
+      : DEFAULT_MAX_CANDIDATES;
     
-    // Helper function to extract LinkedIn username from URL
-    const extractLinkedInUsername = (url: string): string => {
-      // Try to extract username from various LinkedIn URL formats
-      const match = url?.match(/linkedin\.com\/in\/([\w-]+)/i);
-      return match ? match[1] : url || '';
+    // Validate and normalize the company domain ("https://www.acme.io/about" -> "acme.io")
+    let companyDomain: string | undefined;
+    if (useCompanyDomain && rawCompanyDomain) {
+      companyDomain = normalizeCompanyDomain(String(rawCompanyDomain)) ?? undefined;
+      if (!companyDomain) {
+        return NextResponse.json(
+          { error: 'Company domain is not a valid domain name (e.g. acme.io).' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Collect the selected search criteria
+    const criteria: PersonSearchCriteria = {
+      ...(useFirstName && firstName ? { firstName } : {}),
+      ...(useLastName && lastName ? { lastName } : {}),
+      ...(useLinkedin && linkedin ? { linkedin } : {}),
+      ...(useCompanyName && companyName ? { companyName } : {}),
+      ...(companyDomain ? { companyDomain } : {}),
     };
 
-    // Validate that at least one search parameter is provided
-    if ((!useFirstName || !firstName) && 
-        (!useLastName || !lastName) && 
-        (!useLinkedin || !linkedin) && 
-        (!useCompanyName || !companyName)) {
+    // Validate that at least one search parameter is provided; bulk rows follow the same rule
+    if (!hasSearchCriteria(criteria)) {
       return NextResponse.json(
         { error: 'At least one search parameter is required.' },
         { status: 400 }
       );
     }
 
-    // Build the SQL query based on selected search criteria
-    // NOTE: In production, sanitize inputs to prevent SQL injection.
-    const linkedinUsername = useLinkedin && linkedin ? extractLinkedInUsername(linkedin) : '';
-    
-    // Build WHERE clause based on selected criteria
-    const whereConditions = [];
-    
-    if (useFirstName && firstName) {
-      const normalizedFirstName = firstName.toLowerCase().trim();
-      whereConditions.push(`(
-        FIRST_NAME = '${normalizedFirstName}' 
-        OR FIRST_NAME LIKE '${normalizedFirstName}%'
-        OR LOWER(FIRST_NAME) = '${normalizedFirstName}'
-      )`);
-    }
-    
-    if (useLastName && lastName) {
-      const normalizedLastName = lastName.toLowerCase().trim();
-      whereConditions.push(`(
-        LAST_NAME = '${normalizedLastName}' 
-        OR LAST_NAME LIKE '${normalizedLastName}%'
-        OR LOWER(LAST_NAME) = '${normalizedLastName}'
-      )`);
-    }
-    
-    if (useLinkedin && linkedin) {
-      const normalizedLinkedin = normalizeLinkedInUrl(linkedin);
-      whereConditions.push(`(
-        LOWER(LINKEDIN_URL) LIKE '%${normalizedLinkedin}%'
-        OR LOWER(LINKEDIN_URL) LIKE '%linkedin.com/in/${normalizedLinkedin}%'
-      )`);
+    // Look the person up in the configured contact directory
+    const directory = getContactDirectory();
+
+    // Extra person table columns to return, checked against the table's schema
+    const { fields: enrichmentFields, unknown: unknownFields } = await resolveRequestedFields(
+      directory,
+      requestedFields,
+      queryUsage
+    );
+    if (unknownFields.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown enrichment fields: ${unknownFields.join(', ')}` },
+        { status: 400 }
+      );
     }
-    
-    if (useCompanyName && companyName) {
-      const normalizedCompany = normalizeCompanyName(companyName);
-      whereConditions.push(`(
-        LOWER(COMPANY_NAME) LIKE '%${normalizedCompany}%'
-        OR LOWER(COMPANY_NAME) LIKE '%${companyName.toLowerCase()}%'
-      )`);
+    if (enrichmentFields.length > MAX_ENRICHMENT_FIELDS) {
+      return NextResponse.json(
+        { error: `Too many enrichment fields. The limit is ${MAX_ENRICHMENT_FIELDS}.` },
+        { status: 400 }
+      );
     }
-    
-    // Combine all conditions with AND
-    const whereClause = whereConditions.join(' AND ');
-    
-    // First try with selected criteria
-    const query = `
-      SELECT BUSINESS_EMAIL, PERSONAL_EMAILS
-      FROM my_table
-      WHERE ${whereClause}
-      LIMIT 1
-    `;
+    const lookupOptions = { enrichmentFields };
     
     // Function to try fallback queries if the main one doesn't return results
-    const tryFallbackQueries = async (athenaClient: AthenaClient, mainQueryExecutionId: string): Promise<{email: string | null, personalEmails: string[] | null, errorMessage: string | null}> => {
-      // Check if main query returned results
-      const mainQueryResults = await athenaClient.send(
-        new GetQueryResultsCommand({ QueryExecutionId: mainQueryExecutionId })
-      );
-      
-      const mainRows = mainQueryResults.ResultSet?.Rows;
-      if (mainRows && mainRows.length >= 2) {
-        const dataRow = mainRows[1];
-        const email = dataRow.Data?.[0]?.VarCharValue || null;
-        let personalEmails: string[] | null = null;
-        
-        // Check if personal emails exist in the second column
-        if (dataRow.Data && dataRow.Data.length > 1 && dataRow.Data[1]?.VarCharValue) {
-          try {
-            // Personal emails might be stored as a comma-separated string or JSON array
-            const personalEmailsValue = dataRow.Data[1].VarCharValue;
-            if (personalEmailsValue.startsWith('[') && personalEmailsValue.endsWith(']')) {
-              // Try parsing as JSON array
-              personalEmails = JSON.parse(personalEmailsValue);
-            } else if (personalEmailsValue.includes(',')) {
-              // Try parsing as comma-separated string
-              personalEmails = personalEmailsValue.split(',').map(email => email.trim());
-            } else if (personalEmailsValue.trim()) {
-              // Single email
-              personalEmails = [personalEmailsValue.trim()];
-            }
-          } catch (e) {
-            console.error('Error parsing personal emails:', e);
-          }
-        }
-        
-        if (email || (personalEmails && personalEmails.length > 0)) {
-          return { email, personalEmails, errorMessage: null };
-        }
-      }
-      
-      // If no results, try with a more relaxed fallback query based on selected criteria
-      console.log('No results with full criteria, trying fallback query...');
-      
-      // Build a more relaxed fallback query based on selected criteria
-      const fallbackConditions = [];
-      
-      // Only include criteria that were selected by the user
-      if (useFirstName && firstName) {
-        const normalizedFirstName = firstName.toLowerCase().trim();
-        fallbackConditions.push(`(
-          FIRST_NAME = '${normalizedFirstName}' 
-          OR FIRST_NAME LIKE '${normalizedFirstName}%'
-          OR LOWER(FIRST_NAME) = '${normalizedFirstName}'
-        )`);
-      }
-      
-      if (useLastName && lastName) {
-        const normalizedLastName = lastName.toLowerCase().trim();
-        fallbackConditions.push(`(
-          LAST_NAME = '${normalizedLastName}' 
-          OR LAST_NAME LIKE '${normalizedLastName}%'
-          OR LOWER(LAST_NAME) = '${normalizedLastName}'
-        )`);
-      }
-      
-      // For fallback, we prioritize name and company if available
-      if (useCompanyName && companyName) {
-        const normalizedCompany = normalizeCompanyName(companyName);
-        fallbackConditions.push(`(
-          LOWER(COMPANY_NAME) LIKE '%${normalizedCompany}%'
-          OR LOWER(COMPANY_NAME) LIKE '%${companyName.toLowerCase()}%'
-        )`);
+    const tryFallbackQueries = async (directory: ContactDirectory): Promise<{candidates: PersonCandidate[], errorMessage: string | null}> => {
+      // Try the full criteria first
+      const mainCandidates = await directory.findCandidates(criteria, maxCandidates, queryUsage, lookupOptions);
+      if (mainCandidates.some(hasEmail)) {
+        return { candidates: mainCandidates, errorMessage: null };
       }
       
-      // Only include LinkedIn as a last resort in fallback
-      if (fallbackConditions.length === 0 && useLinkedin && linkedin) {
-        const normalizedLinkedin = normalizeLinkedInUrl(linkedin);
-        fallbackConditions.push(`(
-          LOWER(LINKEDIN_URL) LIKE '%${normalizedLinkedin}%'
-          OR LOWER(LINKEDIN_URL) LIKE '%linkedin.com/in/${normalizedLinkedin}%'
-        )`);
-      }
-      
-      // If we still have no conditions, return an error
-      if (fallbackConditions.length === 0) {
-        return { email: null, personalEmails: null, errorMessage: 'No valid search criteria provided.' };
-      }
-      
-      const fallbackWhereClause = fallbackConditions.join(' AND ');
-      
-      const fallbackQuery = `
-        SELECT BUSINESS_EMAIL, PERSONAL_EMAILS
-        FROM my_table
-        WHERE ${fallbackWhereClause}
-        LIMIT 1
-      `;
-      
+      // Name and company first, LinkedIn only as a last resort: without LinkedIn, or
+      // with nothing but LinkedIn, the relaxed query would repeat the main one
+      const { linkedin: fallbackLinkedin, ...fallbackCriteria } = criteria;
+      const canRelax = !!fallbackLinkedin && hasSearchCriteria(fallbackCriteria);
       
-      const fallbackQueryResponse = await athenaClient.send(
-        new StartQueryExecutionCommand({
-          QueryString: fallbackQuery,
-          ResultConfiguration: {
-            OutputLocation: process.env.ATHENA_OUTPUT_LOCATION,
-          },
-        })
-      );
-      
-      const fallbackQueryId = fallbackQueryResponse.QueryExecutionId;
-      if (!fallbackQueryId) {
-        return { email: null, personalEmails: null, errorMessage: 'Fallback query failed to start.' };
-      }
-      
-      // Poll until the fallback query completes
-      let queryState = 'RUNNING';
-      while (queryState === 'RUNNING' || queryState === 'QUEUED') {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        const queryExecutionResponse = await athenaClient.send(
-          new GetQueryExecutionCommand({ QueryExecutionId: fallbackQueryId })
-        );
-        queryState =
-          queryExecutionResponse.QueryExecution?.Status?.State || 'FAILED';
-      }
-      
-      if (queryState !== 'SUCCEEDED') {
-        return { email: null, personalEmails: null, errorMessage: 'Fallback query did not succeed.' };
+      let fallbackCandidates: PersonCandidate[] = mainCandidates;
+      if (canRelax) {
+        // If no results, try with a more relaxed fallback query based on selected criteria
+        console.log('No results with full criteria, trying fallback query without LinkedIn...');
+        try {
+          const relaxedCandidates = await directory.findCandidates(fallbackCriteria, maxCandidates, queryUsage, lookupOptions);
+          // Flag fallback hits, and report what matched of the full search
+          fallbackCandidates = relaxedCandidates.map((candidate) => ({
+            ...candidate,
+            ...explainMatch(candidate, criteria, true),
+          }));
+        } catch (fallbackError) {
+          console.error('Fallback query failed:', fallbackError);
+          return { candidates: [], errorMessage: 'Fallback query did not succeed.' };
+        }
       }
       
-      // Get fallback query results
-      const fallbackResults = await athenaClient.send(
-        new GetQueryResultsCommand({ QueryExecutionId: fallbackQueryId })
-      );
-      
-      const fallbackRows = fallbackResults.ResultSet?.Rows;
-      if (!fallbackRows || fallbackRows.length < 2) {
+      if (fallbackCandidates.length === 0) {
         // Build a message showing which criteria were used in the search
         const searchCriteriaUsed = [];
         if (useFirstName && firstName) searchCriteriaUsed.push(`- First Name: ${firstName}`);
         if (useLastName && lastName) searchCriteriaUsed.push(`- Last Name: ${lastName}`);
         if (useCompanyName && companyName) searchCriteriaUsed.push(`- Company: ${companyName}`);
         if (useLinkedin && linkedin) searchCriteriaUsed.push(`- LinkedIn: ${linkedin}`);
+        if (companyDomain) searchCriteriaUsed.push(`- Company Domain: ${companyDomain}`);
         
         const errorMessage = 'No matching email found. We searched for records matching the following criteria:\n' +
           `${searchCriteriaUsed.join('\n')}\n\n` +
@@ -273,185 +154,150 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           '3. Try variations of the company name (e.g., "Acme" instead of "Acme Inc")\n' +
           '4. Try searching with fewer criteria to broaden results';
         
-        return { 
-          email: null,
-          personalEmails: null,
-          errorMessage
-        };
+        return { candidates: [], errorMessage };
       }
       
-      // The first row contains column names; the second row contains data
-      const dataRow = fallbackRows[1];
-      const email = dataRow.Data?.[0]?.VarCharValue || null;
-      let personalEmails: string[] | null = null;
-      
-      // Check if personal emails exist in the second column
-      if (dataRow.Data && dataRow.Data.length > 1 && dataRow.Data[1]?.VarCharValue) {
-        try {
-          // Personal emails might be stored as a comma-separated string or JSON array
-          const personalEmailsValue = dataRow.Data[1].VarCharValue;
-          if (personalEmailsValue.startsWith('[') && personalEmailsValue.endsWith(']')) {
-            // Try parsing as JSON array
-            personalEmails = JSON.parse(personalEmailsValue);
-          } else if (personalEmailsValue.includes(',')) {
-            // Try parsing as comma-separated string
-            personalEmails = personalEmailsValue.split(',').map(email => email.trim());
-          } else if (personalEmailsValue.trim()) {
-            // Single email
-            personalEmails = [personalEmailsValue.trim()];
-          }
-        } catch (e) {
-          console.error('Error parsing personal emails:', e);
-        }
+      if (!fallbackCandidates.some(hasEmail)) {
+        return { candidates: fallbackCandidates, errorMessage: 'No email returned by query. The record was found but no email was available.' };
       }
       
-      if (!email && (!personalEmails || personalEmails.length === 0)) {
-        return { email: null, personalEmails: null, errorMessage: 'No email returned by query. The record was found but no email was available.' };
-      }
-      
-      return { email, personalEmails, errorMessage: null };
+      return { candidates: fallbackCandidates, errorMessage: null };
     };
     
 
-    // Initialize S3 client
-    const s3Client = new S3Client({
-      region: process.env.AWS_REGION || 'ap-south-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
-    // Extract just the bucket name from the S3_BUCKET_NAME environment variable
-    // Format could be either 's3://bucketname/path/' or just 'bucketname'
-    const s3BucketNameFull = process.env.S3_BUCKET_NAME!.replace('s3://', '');
-    // Split by '/' and take the first part as the bucket name
-    const s3BucketName = s3BucketNameFull.split('/')[0];
-    
-    // Determine the prefix - if the env var had a path, use it as part of the prefix
-    let prefix = '';
-    if (s3BucketNameFull.includes('/')) {
-      // Get everything after the bucket name as the base prefix
-      const basePrefix = s3BucketNameFull.substring(s3BucketName.length + 1);
-      prefix = `${basePrefix}user-data/${userId}/find-email/`;
-    } else {
-      prefix = `user-data/${userId}/find-email/`;
-    }
+    const resultStore = getResultStore();
     
     // Generate a search ID based on the criteria that were used
     const searchIdParts = [];
     if (useFirstName && firstName) searchIdParts.push(firstName);
     if (useLastName && lastName) searchIdParts.push(lastName);
     if (useCompanyName && companyName) searchIdParts.push(companyName);
+    if (companyDomain) searchIdParts.push(companyDomain);
     if (useLinkedin && linkedin) {
       const linkedinPart = extractLinkedInUsername(linkedin);
       if (linkedinPart) searchIdParts.push(linkedinPart);
     }
     
-    const searchId = searchIdParts.join('-') || 'search';
+    // Path separators are not allowed in result ids
+    const searchId = searchIdParts.join('-').replace(/[\\/]/g, '-') || 'search';
     // Add a timestamp to ensure uniqueness when criteria might be sparse
     const timestamp = new Date().getTime();
-    const uniqueSearchId = `${searchId}-${timestamp}`;
-    const s3Key = `${prefix}${uniqueSearchId}.json`; // Unique key per user and query
+    const uniqueSearchId = `${searchId}-${timestamp}`; // Unique id per user and query
 
-    // Optional: Check if data already exists in S3 for this user/query
+    // Optional: Check if a result already exists for this user/query
     try {
-      const getObjectParams = {
-        Bucket: s3BucketName,
-        Key: s3Key,
-      };
-      const data = await s3Client.send(new GetObjectCommand(getObjectParams));
-      if (data.Body) {
-        const existingData = JSON.parse(await streamToString(data.Body as Readable));
-        console.log('Returning cached data from S3 for user:', userId);
+      const existingData = await resultStore.get(userId, 'single', uniqueSearchId);
+      if (existingData) {
+        console.log('Returning cached result for user:', userId);
         return NextResponse.json(existingData);
       }
+      console.log('No cached result found for user:', userId, 'Querying contact directory...');
     } catch (error: unknown) {
-      if ((error as { name?: string }).name !== 'NoSuchKey') {
-        console.error('Error checking S3:', error);
-        // Decide if you want to proceed or return an error
-      }
-      // If NoSuchKey, proceed to query Athena
-      console.log('No cached data found in S3 for user:', userId, 'Querying Athena...');
+      console.error('Error checking result store:', error);
+      // Proceed to query the contact directory
     }
 
-    // Initialize the Athena client.
-    const athenaClient = new AthenaClient({
-      region: 'ap-south-1', // Update this if needed.
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
+    // Try the main query first, then fallback if needed
+    const { candidates, errorMessage } = await tryFallbackQueries(directory);
 
-    // Start the query execution.
-    const startQueryResponse = await athenaClient.send(
-      new StartQueryExecutionCommand({
-        QueryString: query,
-        ResultConfiguration: {
-          // S3 location where Athena writes query results.
-          OutputLocation: process.env.ATHENA_OUTPUT_LOCATION, // e.g., 's3://your-valid-bucket/athena-output/'
-        },
-      })
-    );
+    // Candidates are ranked best first; preselect the best one with an email
+    const bestIndex = candidates.findIndex(hasEmail);
+    const selectedCandidate = bestIndex >= 0 ? bestIndex : null;
+    const email = selectedCandidate !== null ? candidates[selectedCandidate].email : null;
+    const personalEmails = selectedCandidate !== null ? candidates[selectedCandidate].personalEmails : null;
+    const matchTier = selectedCandidate !== null ? candidates[selectedCandidate].matchTier : null;
+    const matchedCriteria = selectedCandidate !== null ? candidates[selectedCandidate].matchedCriteria : [];
+    const nameMatches = selectedCandidate !== null ? candidates[selectedCandidate].nameMatches : {};
+    const enrichment = selectedCandidate !== null ? candidates[selectedCandidate].enrichment ?? null : null;
 
-    const queryExecutionId = startQueryResponse.QueryExecutionId;
-    if (!queryExecutionId) {
-      throw new Error('Query execution failed to start.');
-    }
-
-    // Poll until the query completes.
-    let queryState = 'RUNNING';
-    while (queryState === 'RUNNING' || queryState === 'QUEUED') {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      const queryExecutionResponse = await athenaClient.send(
-        new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId })
-      );
-      queryState =
-        queryExecutionResponse.QueryExecution?.Status?.State || 'FAILED';
+    // Email domains the searched company is known to use
+    let companyDomains: CompanyDomain[] = [];
+    if (criteria.companyName) {
+      try {
+        [companyDomains] = await directory.findCompanyDomains([criteria.companyName], queryUsage);
+      } catch (domainError) {
+        console.error('Company domain lookup failed:', domainError);
+      }
     }
 
-    if (queryState !== 'SUCCEEDED') {
-      return NextResponse.json(
-        { error: 'Athena query did not succeed.' },
-        { status: 500 }
-      );
+    // Nobody found: guess the address from the format the company's known employees use
+    let inferredEmails: InferredEmail[] = [];
+    let emailPattern: DomainPatternStats | null = null;
+    if (!email && criteria.firstName && criteria.lastName && (criteria.companyName || criteria.companyDomain)) {
+      try {
+        const [samples] = await directory.findEmailSamples(
+          [{ companyName: criteria.companyName, companyDomain: criteria.companyDomain }],
+          queryUsage
+        );
+        ({ stats: emailPattern, emails: inferredEmails } = inferFromSamples(
+          criteria.firstName,
+          criteria.lastName,
+          samples,
+          { preferredDomain: criteria.companyDomain }
+        ));
+      } catch (inferenceError) {
+        console.error('Email pattern inference failed:', inferenceError);
+      }
     }
 
-    // Try the main query first, then fallback if needed
-    const { email, personalEmails, errorMessage } = await tryFallbackQueries(athenaClient, queryExecutionId);
-
-    
-
     // Prepare the result data with additional metadata
     const resultData: {
       firstName?: string;
       lastName?: string;
       linkedin?: string;
       companyName?: string;
+      companyDomain?: string;
       useFirstName: boolean;
       useLastName: boolean;
       useLinkedin: boolean;
       useCompanyName: boolean;
+      useCompanyDomain: boolean;
       timestamp: string;
       searchId: string;
       userId: string;
       email?: string;
       personalEmails?: string[];
       error?: string;
+      matchTier: MatchTier | null;
+      matchedCriteria: MatchCriterion[];
+      nameMatches: PersonMatch['nameMatches'];
+      // Requested extra columns, and their values on the selected candidate
+      enrichmentFields: string[];
+      enrichment: EnrichmentValues | null;
+      companyDomains: CompanyDomain[];
+      // Guessed addresses, only when no email was found; never verified records
+      inferredEmails: InferredEmail[];
+      emailPattern: DomainPatternStats | null;
+      candidates: PersonCandidate[];
+      selectedCandidate: number | null;
+      queryUsage: LookupUsage;
     } = { 
       // Only include fields that were used in the search
       ...(useFirstName && firstName ? { firstName } : {}),
       ...(useLastName && lastName ? { lastName } : {}),
       ...(useLinkedin && linkedin ? { linkedin } : {}),
       ...(useCompanyName && companyName ? { companyName } : {}),
+      ...(companyDomain ? { companyDomain } : {}),
       // Include search criteria flags
       useFirstName: !!useFirstName,
       useLastName: !!useLastName,
       useLinkedin: !!useLinkedin,
       useCompanyName: !!useCompanyName,
+      useCompanyDomain: !!companyDomain,
       timestamp: new Date().toISOString(),
       searchId: uniqueSearchId,
-      userId
+      userId,
+      matchTier,
+      matchedCriteria,
+      nameMatches,
+      enrichmentFields,
+      enrichment,
+      companyDomains,
+      inferredEmails,
+      emailPattern,
+      candidates,
+      selectedCandidate,
+      queryUsage
     };
     
     // Add email, personal emails, or error to the result data
@@ -465,18 +311,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       resultData.error = errorMessage;
     }
 
-    // Store the result in S3
+    // Store the result in the result store
     try {
-      const putObjectParams = {
-        Bucket: s3BucketName,
-        Key: s3Key,
-        Body: JSON.stringify(resultData),
-        ContentType: 'application/json',
-      };
-      await s3Client.send(new PutObjectCommand(putObjectParams));
-      console.log('Successfully stored result in S3 for user:', userId);
-    } catch (s3Error) {
-      console.error('Error storing result in S3:', s3Error);
+      await resultStore.put(userId, 'single', uniqueSearchId, resultData);
+      console.log('Successfully stored result for user:', userId);
+    } catch (storeError) {
+      console.error('Error storing result:', storeError);
       // Log the error but continue to return the result
     }
 
@@ -496,26 +336,30 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     
     // const { firstName = '', lastName = '', linkedin = '', companyName = '' } = requestData;
     
-    // Save the error to S3 for tracking purposes
+    // Save the error to the result store for tracking purposes
     try {
       // Extract search parameters from request data
       const { 
-        firstName = '', lastName = '', linkedin = '', companyName = '',
-        useFirstName = false, useLastName = false, useLinkedin = false, useCompanyName = false 
+        firstName = '', lastName = '', linkedin = '', companyName = '', companyDomain: rawCompanyDomain = '',
+        useFirstName = false, useLastName = false, useLinkedin = false, useCompanyName = false, useCompanyDomain = false
       } = requestData;
+      const companyDomain = useCompanyDomain && rawCompanyDomain
+        ? normalizeCompanyDomain(String(rawCompanyDomain)) ?? undefined
+        : undefined;
       
       // Generate a search ID based on the criteria that were used
       const searchIdParts = [];
       if (useFirstName && firstName) searchIdParts.push(firstName);
       if (useLastName && lastName) searchIdParts.push(lastName);
       if (useCompanyName && companyName) searchIdParts.push(companyName);
+      if (companyDomain) searchIdParts.push(companyDomain);
       if (useLinkedin && linkedin) {
         const match = linkedin.match(/linkedin\.com\/in\/([\w-]+)/i);
         const linkedinPart = match ? match[1] : linkedin;
         if (linkedinPart) searchIdParts.push(linkedinPart);
       }
       
-      const searchId = searchIdParts.join('-') || 'search';
+      const searchId = searchIdParts.join('-').replace(/[\\/]/g, '-') || 'search';
       const timestamp = new Date().getTime();
       const uniqueSearchId = `${searchId}-${timestamp}`;
       
@@ -524,62 +368,41 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         lastName?: string;
         linkedin?: string;
         companyName?: string;
+        companyDomain?: string;
         useFirstName: boolean;
         useLastName: boolean;
         useLinkedin: boolean;
         useCompanyName: boolean;
+        useCompanyDomain: boolean;
         timestamp: string;
         searchId: string;
         userId: string;
         error: string;
+        queryUsage: LookupUsage;
       } = {
         // Only include fields that were used in the search
         ...(useFirstName && firstName ? { firstName } : {}),
         ...(useLastName && lastName ? { lastName } : {}),
         ...(useLinkedin && linkedin ? { linkedin } : {}),
         ...(useCompanyName && companyName ? { companyName } : {}),
+        ...(companyDomain ? { companyDomain } : {}),
         // Include search criteria flags
         useFirstName: !!useFirstName,
         useLastName: !!useLastName,
         useLinkedin: !!useLinkedin,
         useCompanyName: !!useCompanyName,
+        useCompanyDomain: !!companyDomain,
         timestamp: new Date().toISOString(),
         searchId: uniqueSearchId,
         userId,
-        error: 'Error executing Athena query.'
+        error: 'Error executing Athena query.',
+        queryUsage
       };
       
-      // Make sure s3BucketName and s3Key are defined
-      const s3BucketNameFull = process.env.S3_BUCKET_NAME?.replace('s3://', '') || '';
-      const s3BucketName = s3BucketNameFull.split('/')[0];
-      let prefix = '';
-      if (s3BucketNameFull.includes('/')) {
-        const basePrefix = s3BucketNameFull.substring(s3BucketName.length + 1);
-        prefix = `${basePrefix}user-data/${userId}/find-email/`;
-      } else {
-        prefix = `user-data/${userId}/find-email/`;
-      }
-      const s3Key = `${prefix}${uniqueSearchId}.json`;
-      
-      // Initialize S3 client
-      const s3Client = new S3Client({
-        region: process.env.AWS_REGION || 'ap-south-1',
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-        },
-      });
-      
-      const putObjectParams = {
-        Bucket: s3BucketName,
-        Key: s3Key,
-        Body: JSON.stringify(errorData),
-        ContentType: 'application/json',
-      };
-      await s3Client.send(new PutObjectCommand(putObjectParams));
-      console.log('Stored error information in S3 for user:', userId);
-    } catch (s3Error) {
-      console.error('Error storing error information in S3:', s3Error);
+      await getResultStore().put(userId, 'single', uniqueSearchId, errorData);
+      console.log('Stored error information for user:', userId);
+    } catch (storeError) {
+      console.error('Error storing error information:', storeError);
     }
     
     return NextResponse.json(
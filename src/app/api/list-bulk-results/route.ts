@@ -2,20 +2,9 @@
 
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { ListObjectsV2Command, GetObjectCommand } from '@aws-sdk/client-s3';
-import { Readable } from 'stream';
-import { initS3Client, parseS3BucketConfig } from '@/lib/aws-service';
+import { getResultStore } from '@/lib/result-store';
 import { handleAWSError } from '@/middleware/aws-error-handler';
 
-// Helper to convert a Readable stream to string
-async function streamToString(stream: Readable): Promise<string> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-  }
-  return Buffer.concat(chunks).toString('utf-8');
-}
-
 export async function GET(): Promise<NextResponse> {
   const { userId } = await auth();
 
@@ -24,82 +13,52 @@ export async function GET(): Promise<NextResponse> {
   }
 
   try {
-    // Initialize S3 client with error handling
-    const s3Client = initS3Client();
-    
-    // Parse S3 bucket configuration
-    const { bucketName: s3BucketName, prefix } = parseS3BucketConfig(userId, 'bulk');
+    const resultStore = getResultStore();
     
     // Log configuration for debugging
-    console.log(`Listing bulk results for user ${userId} from bucket ${s3BucketName} with prefix ${prefix}`);
-
-    const listObjectsParams = {
-      Bucket: s3BucketName,
-      Prefix: prefix,
-    };
-
-    const listedObjects = await s3Client.send(new ListObjectsV2Command(listObjectsParams));
-
-    // The AWS SDK v3 types for ListObjectsV2CommandOutput
-    // Contents?: _Object[] | undefined;
-    // _Object: { Key?: string, LastModified?: Date, ... }
+    console.log(`Listing bulk results for user ${userId} from ${resultStore.backend} result store`);
 
-    if (!listedObjects.Contents || listedObjects.Contents.length === 0) {
-      return NextResponse.json({ results: [] });
-    }
+    const storedResults = await resultStore.list(userId, 'bulk');
 
     // Fetch complete data for each bulk search result
-    const resultsPromises = listedObjects.Contents.map(async (item) => {
-      if (!item.Key) return null;
+    const resultsMetadata = await Promise.all(storedResults.map(async (item) => {
       try {
-        const getObjectParams = { Bucket: s3BucketName, Key: item.Key };
-        const response = await s3Client.send(new GetObjectCommand(getObjectParams));
-        const Body = response.Body;
+        const searchData = await resultStore.get(userId, 'bulk', item.id);
 
-        if (Body && Body instanceof Readable) {
-          const bodyContents = await streamToString(Body);
-          const searchData = JSON.parse(bodyContents);
-
-          return {
-            key: item.Key,
-            searchId: searchData.searchId || 'unknown',
-            fileName: searchData.fileName || 'unknown',
-            recordCount: searchData.recordCount || 0,
-            successCount: searchData.successCount || 0,
-            lastModified: item.LastModified,
-            timestamp: searchData.timestamp
-          };
-        }
+        return {
+          key: item.key,
+          // The stored id is what bulk-result/[id] resolves, so it is the search id
+          searchId: item.id,
+          fileName: searchData?.fileName || 'unknown',
+          recordCount: searchData?.recordCount || 0,
+          successCount: searchData?.successCount || 0,
+          searchType: searchData?.searchType ?? 'person',
+          lastModified: item.lastModified,
+          timestamp: searchData?.timestamp,
+          // Athena cost figures; absent for entries stored before they were recorded
+          queryUsage: searchData?.queryUsage ?? null
+        };
       } catch (error) {
-        console.error(`Error fetching data for ${item.Key}:`, error);
+        console.error(`Error fetching data for ${item.key}:`, error);
         // Return basic metadata if full data fetch fails
-        const keyParts = item.Key?.split('/');
-        const fileName = keyParts?.[keyParts.length - 1];
-        const searchId = fileName?.replace('.json', '');
-
         return {
-          key: item.Key,
-          searchId: searchId || 'unknown',
+          key: item.key,
+          searchId: item.id,
           fileName: 'Unknown file',
           recordCount: 0,
-          lastModified: item.LastModified
+          lastModified: item.lastModified
         };
       }
-      return null;
-    });
-
-    // Resolve all promises and sort by date
-    const resultsMetadata = (await Promise.all(resultsPromises))
-      .filter((r): r is NonNullable<typeof r> => !!r)
-      .sort((a, b) => ((b?.lastModified?.getTime() || 0) - (a?.lastModified?.getTime() || 0)));
+    }));
 
+    // Results are listed newest first
     return NextResponse.json({ results: resultsMetadata });
 
   } catch (error) {
     // Use the error handler to get detailed error information
     const handledError = handleAWSError(error as Error, 'S3');
     
-    console.error('Error listing bulk results from S3:', handledError);
+    console.error('Error listing bulk results:', handledError);
     
     // Return a more informative error message
     return NextResponse.json(
@@ -112,4 +71,4 @@ export async function GET(): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
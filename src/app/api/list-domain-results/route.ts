@@ -0,0 +1,69 @@
+// app/api/list-domain-results/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore } from '@/lib/result-store';
+import { handleAWSError } from '@/middleware/aws-error-handler';
+
+export async function GET(): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const resultStore = getResultStore();
+
+    console.log(`Listing domain searches for user ${userId} from ${resultStore.backend} result store`);
+
+    const storedResults = await resultStore.list(userId, 'domain');
+
+    const resultsMetadata = await Promise.all(storedResults.map(async (item) => {
+      try {
+        const searchData = await resultStore.get(userId, 'domain', item.id);
+        const pages = (searchData?.pages || {}) as Record<string, unknown[]>;
+
+        return {
+          key: item.key,
+          lastModified: item.lastModified,
+          // The stored id is what domain-search/[id] resolves, so it is the search id
+          searchId: item.id,
+          companyDomain: searchData?.companyDomain,
+          companyName: searchData?.companyName,
+          total: searchData?.total ?? 0,
+          peopleLoaded: Object.values(pages).reduce((count, people) => count + people.length, 0),
+          timestamp: searchData?.timestamp,
+          queryUsage: searchData?.queryUsage ?? null
+        };
+      } catch (error) {
+        console.error(`Error fetching data for ${item.key}:`, error);
+        // Return basic metadata if full data fetch fails
+        return {
+          key: item.key,
+          lastModified: item.lastModified,
+          searchId: item.id,
+          total: 0,
+          peopleLoaded: 0
+        };
+      }
+    }));
+
+    // Results are listed newest first
+    return NextResponse.json({ results: resultsMetadata });
+  } catch (error) {
+    const handledError = handleAWSError(error as Error, 'S3');
+
+    console.error('Error listing domain searches:', handledError);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to retrieve domain search history.',
+        details: handledError.message,
+        errorType: handledError.type,
+        timestamp: handledError.timestamp
+      },
+      { status: 500 }
+    );
+  }
+}
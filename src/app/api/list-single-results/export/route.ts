@@ -0,0 +1,87 @@
+// app/api/list-single-results/export/route.ts
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getResultStore } from '@/lib/result-store';
+import {
+  downloadHeaders,
+  EXPORT_FORMATS,
+  isExportFormat,
+  matchesSingleHistoryFilter,
+  parseSingleHistoryFilter,
+  selectColumns,
+  singleExportTable,
+  SingleHistoryEntry,
+  writeExportFile,
+} from '@/lib/result-export';
+
+// Interface for a stored history entry, with the fields the filter reads typed
+type StoredSingleEntry = SingleHistoryEntry & Record<string, unknown>;
+
+// Export the single search history entries that pass the history view's filter
+// (?q, searchType, status, from, to) as ?format=csv|xlsx|json|vcf, with the
+// columns given as repeated ?columns= parameters (every column when none are given)
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || 'csv';
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid export format. Use one of: ${EXPORT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+    const filter = parseSingleHistoryFilter(url.searchParams);
+
+    const resultStore = getResultStore();
+    const storedResults = await resultStore.list(userId, 'single');
+
+    const entries = await Promise.all(storedResults.map(async (item) => {
+      try {
+        const searchData = await resultStore.get<StoredSingleEntry>(userId, 'single', item.id);
+        if (!searchData) return null;
+        // Entries stored without a timestamp are dated by when they were written
+        const entry: StoredSingleEntry = { ...searchData, lastModified: item.lastModified };
+        return entry;
+      } catch (error) {
+        console.error(`Error fetching data for ${item.key}:`, error);
+        return null;
+      }
+    }));
+
+    const storedEntries = entries.filter((entry): entry is StoredSingleEntry => entry !== null);
+
+    // Columns are checked against the whole history, which is what the list offers
+    // them from; columns the filtered entries do not have are exported empty
+    const requestedColumns = url.searchParams.getAll('columns');
+    const historyColumns = singleExportTable(storedEntries).columns;
+    const { unknown } = selectColumns(historyColumns, requestedColumns);
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown columns: ${unknown.join(', ')}`, columns: historyColumns }, { status: 400 });
+    }
+
+    // Entries are exported newest first, as they are listed
+    const matching = storedEntries.filter((entry) => matchesSingleHistoryFilter(entry, filter));
+    if (matching.length === 0) {
+      return NextResponse.json({ error: 'No searches match the filter.' }, { status: 404 });
+    }
+
+    const table = singleExportTable(matching);
+    const { columns } = selectColumns(requestedColumns.length > 0 ? historyColumns : table.columns, requestedColumns);
+
+    const file = writeExportFile(format, columns, table.rows, `search-history-${new Date().toISOString().slice(0, 10)}`);
+
+    return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+      headers: downloadHeaders(file),
+    });
+  } catch (error) {
+    console.error('Error exporting single search history:', error);
+    return NextResponse.json({ error: 'Failed to export search history.' }, { status: 500 });
+  }
+}
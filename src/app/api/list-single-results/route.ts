@@ -2,20 +2,9 @@
 
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { ListObjectsV2Command, GetObjectCommand } from '@aws-sdk/client-s3';
-import { Readable } from 'stream';
-import { initS3Client, parseS3BucketConfig } from '@/lib/aws-service';
+import { getResultStore } from '@/lib/result-store';
 import { handleAWSError } from '@/middleware/aws-error-handler';
-
-// Helper function to convert stream to string
-async function streamToString(stream: Readable): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk) => chunks.push(chunk));
-    stream.on('error', reject);
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-  });
-}
+import { singleExportTable } from '@/lib/result-export';
 
 export async function GET() {
   const { userId } = await auth();
@@ -25,78 +14,62 @@ export async function GET() {
   }
 
   try {
-    // Initialize S3 client with error handling
-    const s3Client = initS3Client();
-    
-    // Parse S3 bucket configuration
-    const { bucketName: s3BucketName, prefix } = parseS3BucketConfig(userId, 'single');
+    const resultStore = getResultStore();
     
     // Log configuration for debugging
-    console.log(`Listing single results for user ${userId} from bucket ${s3BucketName} with prefix ${prefix}`);
-
-    const listObjectsParams = {
-      Bucket: s3BucketName,
-      Prefix: prefix,
-    };
+    console.log(`Listing single results for user ${userId} from ${resultStore.backend} result store`);
 
-    const listedObjects = await s3Client.send(new ListObjectsV2Command(listObjectsParams));
-
-    if (!listedObjects.Contents || listedObjects.Contents.length === 0) {
-      return NextResponse.json({ results: [] }); // No results found for this user
-    }
-
-    // Process the results to extract metadata and fetch complete data
-    // const getObjectCommand = new GetObjectCommand({});
+    const storedResults = await resultStore.list(userId, 'single');
     
+    // Full entries, from which the export columns are worked out
+    const storedEntries: Record<string, unknown>[] = [];
+
     // Fetch complete data for each search result
-    const resultsPromises = listedObjects.Contents.map(async (item) => {
+    const resultsMetadata = await Promise.all(storedResults.map(async (item) => {
       try {
-        // Get the full object data
-        const getObjectParams = { Bucket: s3BucketName, Key: item.Key };
-        const data = await s3Client.send(new GetObjectCommand(getObjectParams));
+        const searchData = await resultStore.get(userId, 'single', item.id);
+        if (searchData) storedEntries.push(searchData);
         
-        if (data.Body) {
-          // Convert stream to string and parse JSON
-          const bodyContents = await streamToString(data.Body as Readable);
-          const searchData = JSON.parse(bodyContents);
-          
-          return {
-            key: item.Key,
-            lastModified: item.LastModified,
-            searchId: searchData.searchId || 'unknown',
-            firstName: searchData.firstName || 'unknown',
-            lastName: searchData.lastName || 'unknown',
-            companyName: searchData.companyName || 'unknown',
-            linkedin: searchData.linkedin,
-            email: searchData.email,
-            personalEmails: searchData.personalEmails || [],
-            timestamp: searchData.timestamp
-          };
-        }
+        return {
+          key: item.key,
+          lastModified: item.lastModified,
+          // The stored id is what single-result/[id] resolves, so it is the search id
+          searchId: item.id,
+          firstName: searchData?.firstName || 'unknown',
+          lastName: searchData?.lastName || 'unknown',
+          companyName: searchData?.companyName || 'unknown',
+          companyDomain: searchData?.companyDomain,
+          linkedin: searchData?.linkedin,
+          email: searchData?.email,
+          personalEmails: searchData?.personalEmails || [],
+          matchTier: searchData?.matchTier ?? null,
+          // 'reverse' for email-to-person lookups; absent for person searches
+          searchType: searchData?.searchType ?? 'person',
+          lookupEmail: searchData?.lookupEmail,
+          timestamp: searchData?.timestamp,
+          // Athena cost figures; absent for entries stored before they were recorded
+          queryUsage: searchData?.queryUsage ?? null
+        };
       } catch (error) {
-        console.error(`Error fetching data for ${item.Key}:`, error);
+        console.error(`Error fetching data for ${item.key}:`, error);
         // Return basic metadata if full data fetch fails
-        const keyParts = item.Key?.split('/');
-        const fileName = keyParts?.[keyParts.length - 1];
-        const searchId = fileName?.replace('.json', '');
-        
         return {
-          key: item.Key,
-          lastModified: item.LastModified,
-          searchId: searchId || 'unknown',
+          key: item.key,
+          lastModified: item.lastModified,
+          searchId: item.id,
           firstName: 'unknown',
           lastName: 'unknown',
           companyName: 'unknown'
         };
       }
-    });
+    }));
     
-    // Resolve all promises and sort by date
-    const resultsMetadata = (await Promise.all(resultsPromises))
-      .filter(Boolean)
-      .sort((a, b) => ((b?.lastModified?.getTime() || 0) - (a?.lastModified?.getTime() || 0))); // Sort by date descending
-
-    return NextResponse.json({ results: resultsMetadata });
+    // Results are listed newest first
+    return NextResponse.json({
+      results: resultsMetadata,
+      // Columns /api/list-single-results/export can include
+      exportColumns: singleExportTable(storedEntries).columns,
+    });
   } catch (error) {
     // Use the error handler to get detailed error information
     const handledError = handleAWSError(error as Error, 'S3');
@@ -114,4 +87,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
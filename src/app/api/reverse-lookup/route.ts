@@ -0,0 +1,200 @@
+// app/api/reverse-lookup/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import crypto from 'crypto';
+import Papa from 'papaparse';
+import { createLookupUsage, EmailOwner, getContactDirectory } from '@/lib/contact-directory';
+import { isValidEmail } from '@/lib/email-verification';
+import { getResultStore } from '@/lib/result-store';
+
+// Addresses accepted in one bulk reverse lookup file. The file is looked up
+// while the request waits, so it is capped at one set query's worth of
+// addresses (the default Athena set batch size).
+const MAX_BULK_EMAILS = 1000;
+
+// Header names recognised as the email column of a bulk file, compared lowercased
+const EMAIL_COLUMN_NAMES = ['email', 'emailaddress', 'email_address', 'email address', 'e-mail'];
+
+// Helper function to describe an owner the way single and bulk results describe people
+function toResultFields(owner: EmailOwner | null) {
+  return {
+    firstName: owner?.firstName ?? undefined,
+    lastName: owner?.lastName ?? undefined,
+    companyName: owner?.companyName ?? undefined,
+    companyWebsite: owner?.companyWebsite ?? undefined,
+    linkedin: owner?.linkedinUrl ?? undefined,
+    // The owner's business email, which can differ from a looked-up personal address
+    email: owner?.email ?? undefined,
+    personalEmails: owner?.personalEmails ?? [],
+    matchedOn: owner?.matchedOn ?? null,
+  };
+}
+
+// Helper function to read the addresses of a bulk file: the email column when
+// the file has a header, otherwise the first column holding an address
+function readEmailColumn(csvData: string): string[] {
+  const parsed = Papa.parse(csvData, { skipEmptyLines: true });
+  const rows = parsed.data as string[][];
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => String(cell).trim().toLowerCase());
+  const headerIndex = header.findIndex((cell) => EMAIL_COLUMN_NAMES.includes(cell));
+  if (headerIndex >= 0) {
+    return rows.slice(1).map((row) => String(row[headerIndex] ?? '').trim());
+  }
+
+  const columnIndex = rows[0].findIndex((cell) => String(cell).includes('@'));
+  return columnIndex >= 0 ? rows.map((row) => String(row[columnIndex] ?? '').trim()) : [];
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // A file upload is a bulk lookup; a JSON body looks up one address
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    return bulkReverseLookup(request, userId);
+  }
+
+  const queryUsage = createLookupUsage();
+
+  try {
+    const { email: rawEmail } = await request.json();
+    const email = String(rawEmail ?? '').trim().toLowerCase();
+
+    if (!email || !isValidEmail(email)) {
+      return NextResponse.json({ error: 'A valid email address is required.' }, { status: 400 });
+    }
+
+    const [owner] = await getContactDirectory().findByEmail([email], queryUsage);
+
+    const searchId = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+    const resultData = {
+      searchId,
+      searchType: 'reverse',
+      lookupEmail: email,
+      ...toResultFields(owner),
+      found: !!owner,
+      ...(owner ? {} : { error: 'No person found with this email address.' }),
+      timestamp: new Date().toISOString(),
+      queryUsage,
+    };
+
+    // Reverse lookups are kept in the single search history
+    try {
+      await getResultStore().put(userId, 'single', searchId, resultData);
+    } catch (storeError) {
+      console.error('Error storing reverse lookup:', storeError);
+      // Log the error but continue to return the result
+    }
+
+    return NextResponse.json(resultData);
+  } catch (error) {
+    console.error('Error running reverse lookup:', error);
+    return NextResponse.json(
+      { error: 'An error occurred during the reverse lookup.' },
+      { status: 500 }
+    );
+  }
+}
+
+// Look up every address of an uploaded CSV file and store the result as a bulk search
+async function bulkReverseLookup(request: NextRequest, userId: string): Promise<NextResponse> {
+  const queryUsage = createLookupUsage();
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file uploaded.' }, { status: 400 });
+    }
+
+    if (!file.name.endsWith('.csv')) {
+      return NextResponse.json({ error: 'Invalid file type. Please upload a CSV file.' }, { status: 400 });
+    }
+
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const lookupEmails = readEmailColumn(fileBuffer.toString('utf-8')).filter(Boolean);
+
+    if (lookupEmails.length === 0) {
+      return NextResponse.json(
+        { error: 'No email addresses found. Add an "email" column or one address per line.' },
+        { status: 400 }
+      );
+    }
+    if (lookupEmails.length > MAX_BULK_EMAILS) {
+      return NextResponse.json(
+        { error: `Too many email addresses. The limit is ${MAX_BULK_EMAILS} per file.` },
+        { status: 400 }
+      );
+    }
+
+    // Each distinct valid address is looked up once
+    const normalized = lookupEmails.map((email) => email.toLowerCase());
+    const uniqueEmails = Array.from(new Set(normalized.filter(isValidEmail)));
+    let owners: (EmailOwner | null)[];
+    try {
+      owners = await getContactDirectory().findByEmail(uniqueEmails, queryUsage);
+    } catch (lookupError) {
+      // A failed lookup says nothing about whether the addresses have owners,
+      // so no row is reported as not found
+      console.error('Error looking up the addresses of a bulk reverse lookup:', lookupError);
+      return NextResponse.json(
+        { error: 'The lookup did not complete, so no address was checked. Please try again.', queryUsage },
+        { status: 502 }
+      );
+    }
+    const ownerByEmail = new Map(uniqueEmails.map((email, index) => [email, owners[index]]));
+
+    const results = lookupEmails.map((lookupEmail, index) => {
+      const valid = isValidEmail(normalized[index]);
+      const owner = valid ? ownerByEmail.get(normalized[index]) ?? null : null;
+      const fields = toResultFields(owner);
+      return {
+        lookupEmail,
+        ...fields,
+        // Bulk results name the owner's business email foundEmail, like person lookups
+        foundEmail: fields.email ?? null,
+        error: valid ? (owner ? null : 'Not found') : 'Invalid email address',
+        processedAt: new Date().toISOString(),
+      };
+    });
+
+    const fileHash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+    const searchId = `${Date.now()}-${fileHash.substring(0, 8)}`;
+    const successCount = results.filter((row) => row.matchedOn).length;
+
+    const resultData = {
+      searchId,
+      searchType: 'reverse',
+      fileName: file.name,
+      recordCount: results.length,
+      successCount,
+      verifiedCount: 0,
+      totalRecordsInFile: results.length,
+      timestamp: new Date().toISOString(),
+      queryUsage,
+      results,
+    };
+
+    try {
+      await getResultStore().put(userId, 'bulk', searchId, resultData);
+    } catch (storeError) {
+      console.error('Error storing bulk reverse lookup:', storeError);
+      // Log the error but continue to return the result
+    }
+
+    return NextResponse.json(resultData);
+  } catch (error) {
+    console.error('Error running bulk reverse lookup:', error);
+    return NextResponse.json(
+      { error: 'An error occurred during the bulk reverse lookup.' },
+      { status: 500 }
+    );
+  }
+}
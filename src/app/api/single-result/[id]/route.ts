@@ -2,18 +2,8 @@
 
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { Readable } from 'stream';
-
-// Helper function to convert stream to string
-async function streamToString(stream: Readable): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk) => chunks.push(chunk));
-    stream.on('error', reject);
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-  });
-}
+import { PersonCandidate } from '@/lib/contact-directory';
+import { getResultStore, isValidResultId } from '@/lib/result-store';
 
 // The RouteContext type is expected by Next.js type checks
 type RouteContext = { params: Promise<{ id: string }> };
@@ -31,63 +21,44 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!id) {
+    if (!id || !isValidResultId(id)) {
       return NextResponse.json(
-        { error: 'Missing search ID parameter.' },
+        { error: 'Missing or invalid search ID parameter.' },
         { status: 400 }
       );
     }
 
-    const s3Client = new S3Client({
-      region: process.env.AWS_REGION || 'ap-south-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
-
-    // Extract just the bucket name from the S3_BUCKET_NAME environment variable
-    // Format could be either 's3://bucketname/path/' or just 'bucketname'
-    const s3BucketNameFull = process.env.S3_BUCKET_NAME!.replace('s3://', '');
-    // Split by '/' and take the first part as the bucket name
-    const s3BucketName = s3BucketNameFull.split('/')[0];
-    
-    // Determine the prefix - if the env var had a path, use it as part of the prefix
-    let prefix = '';
-    if (s3BucketNameFull.includes('/')) {
-      // Get everything after the bucket name as the base prefix
-      const basePrefix = s3BucketNameFull.substring(s3BucketName.length + 1);
-      prefix = `${basePrefix}user-data/${userId}/find-email/`;
-    } else {
-      prefix = `user-data/${userId}/find-email/`;
-    }
-
-    // Construct the key for the specific search result
-    const key = `${prefix}${id}.json`;
+    // Get the stored search result
+    const searchData = await getResultStore().get(userId, 'single', id);
 
-    // Get the object from S3
-    const getObjectParams = { Bucket: s3BucketName, Key: key };
-    const data = await s3Client.send(new GetObjectCommand(getObjectParams));
-
-    if (!data.Body) {
+    if (!searchData) {
       return NextResponse.json(
         { error: 'Search result not found.' },
         { status: 404 }
       );
     }
 
-    // Convert the stream to a string and parse the JSON
-    const bodyContents = await streamToString(data.Body as Readable);
-    const searchData = JSON.parse(bodyContents);
-
     return NextResponse.json({
       searchId: searchData.searchId,
+      searchType: searchData.searchType ?? 'person',
+      lookupEmail: searchData.lookupEmail,
       firstName: searchData.firstName,
       lastName: searchData.lastName,
       companyName: searchData.companyName,
+      companyDomain: searchData.companyDomain,
       linkedin: searchData.linkedin,
       email: searchData.email,
       personalEmails: searchData.personalEmails || [],
+      matchTier: searchData.matchTier ?? null,
+      matchedCriteria: searchData.matchedCriteria || [],
+      nameMatches: searchData.nameMatches || {},
+      enrichmentFields: searchData.enrichmentFields || [],
+      enrichment: searchData.enrichment ?? null,
+      companyDomains: searchData.companyDomains || [],
+      inferredEmails: searchData.inferredEmails || [],
+      emailPattern: searchData.emailPattern ?? null,
+      candidates: searchData.candidates || [],
+      selectedCandidate: searchData.selectedCandidate ?? null,
       timestamp: searchData.timestamp
     });
   } catch (error) {
@@ -98,3 +69,105 @@ export async function GET(
     );
   }
 }
+
+// Record which of the ranked candidates the user picked as the right person
+export async function PATCH(
+  request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid search ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    // An unparseable body is the client's mistake, not a server error
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'The request body must be a JSON object.' }, { status: 400 });
+    }
+    const { selectedCandidate } = body;
+
+    const resultStore = getResultStore();
+    const searchData = await resultStore.get(userId, 'single', id);
+
+    if (!searchData) {
+      return NextResponse.json(
+        { error: 'Search result not found.' },
+        { status: 404 }
+      );
+    }
+
+    const candidates = (searchData.candidates || []) as PersonCandidate[];
+    if (!Number.isInteger(selectedCandidate) || selectedCandidate < 0 || selectedCandidate >= candidates.length) {
+      return NextResponse.json(
+        { error: 'Invalid candidate selection.' },
+        { status: 400 }
+      );
+    }
+
+    // The picked candidate's emails become the result of the search
+    const candidate = candidates[selectedCandidate];
+    const updatedData: Record<string, unknown> = {
+      ...searchData,
+      selectedCandidate,
+      selectedAt: new Date().toISOString(),
+      email: candidate.email || undefined,
+      personalEmails: candidate.personalEmails?.length ? candidate.personalEmails : undefined,
+      matchTier: candidate.matchTier ?? null,
+      matchedCriteria: candidate.matchedCriteria || [],
+      nameMatches: candidate.nameMatches || {},
+      enrichment: candidate.enrichment ?? null,
+    };
+
+    await resultStore.put(userId, 'single', id, updatedData);
+
+    return NextResponse.json(updatedData);
+  } catch (error) {
+    console.error('Error updating single search result:', error);
+    return NextResponse.json(
+      { error: 'Failed to update search result.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!id || !isValidResultId(id)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid search ID parameter.' },
+        { status: 400 }
+      );
+    }
+
+    await getResultStore().delete(userId, 'single', id);
+
+    return NextResponse.json({ success: true, searchId: id });
+  } catch (error) {
+    console.error('Error deleting single search result:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete search result.' },
+      { status: 500 }
+    );
+  }
+}
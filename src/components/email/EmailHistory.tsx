@@ -5,9 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Toaster, toast } from 'sonner';
-import { Clock, Mail, FileSpreadsheet, RefreshCw } from 'lucide-react';
+import { Clock, Mail, FileSpreadsheet, RefreshCw, Building2 } from 'lucide-react';
 import SingleEmailHistory from './history/SingleEmailHistory';
 import BulkEmailHistory from './history/BulkEmailHistory';
+import DomainSearchHistory from './history/DomainSearchHistory';
 
 
 export default function EmailHistory() {
@@ -72,7 +73,7 @@ export default function EmailHistory() {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="single" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsList className="grid w-full grid-cols-3 mb-4">
               <TabsTrigger value="single" className="flex items-center gap-2">
                 <Mail className="h-4 w-4" />
                 <span>Single Searches</span>
@@ -81,6 +82,10 @@ export default function EmailHistory() {
                 <FileSpreadsheet className="h-4 w-4" />
                 <span>Bulk Searches</span>
               </TabsTrigger>
+              <TabsTrigger value="domain" className="flex items-center gap-2">
+                <Building2 className="h-4 w-4" />
+                <span>Domain Searches</span>
+              </TabsTrigger>
             </TabsList>
             <TabsContent value="single" className="mt-0">
               <SingleEmailHistory onError={setError} />
@@ -88,6 +93,9 @@ export default function EmailHistory() {
             <TabsContent value="bulk" className="mt-0">
               <BulkEmailHistory onError={setError} />
             </TabsContent>
+            <TabsContent value="domain" className="mt-0">
+              <DomainSearchHistory onError={setError} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
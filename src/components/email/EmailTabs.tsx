@@ -2,12 +2,15 @@
 
 import React from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Mail, FileSpreadsheet, Clock } from 'lucide-react';
+import { Mail, FileSpreadsheet, Clock, Shuffle, Building2, UserSearch } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 // Import email components
 import FindEmailPage from './find-email';
 import BulkFindEmailPage from './Bulk-find-email';
+import EmailPermutationsPage from './email-permutations';
+import DomainSearchPage from './domain-search';
+import ReverseLookupPage from './reverse-lookup';
 import EmailHistory from './EmailHistory';
 
 interface EmailTabsProps {
@@ -33,7 +36,7 @@ export const EmailTabs: React.FC<EmailTabsProps> = ({ defaultTab = 'single' }) =
 
         <Tabs defaultValue={defaultTab} className="w-full">
           <div className="flex justify-center mb-8">
-            <TabsList className="w-full max-w-md bg-gray-100 dark:bg-gray-800 p-1 rounded-full">
+            <TabsList className="w-full max-w-3xl bg-gray-100 dark:bg-gray-800 p-1 rounded-full">
               <TabsTrigger 
                 value="single" 
                 className={cn(
@@ -54,6 +57,36 @@ export const EmailTabs: React.FC<EmailTabsProps> = ({ defaultTab = 'single' }) =
                 <FileSpreadsheet className="mr-2 h-4 w-4" />
                 <span>Bulk Finder</span>
               </TabsTrigger>
+              <TabsTrigger 
+                value="domain" 
+                className={cn(
+                  "flex-1 rounded-full py-3 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-900 data-[state=active]:shadow-md transition-all duration-200",
+                  "data-[state=active]:text-primary"
+                )}
+              >
+                <Building2 className="mr-2 h-4 w-4" />
+                <span>Domain</span>
+              </TabsTrigger>
+              <TabsTrigger 
+                value="reverse" 
+                className={cn(
+                  "flex-1 rounded-full py-3 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-900 data-[state=active]:shadow-md transition-all duration-200",
+                  "data-[state=active]:text-primary"
+                )}
+              >
+                <UserSearch className="mr-2 h-4 w-4" />
+                <span>Reverse</span>
+              </TabsTrigger>
+              <TabsTrigger 
+                value="permutations" 
+                className={cn(
+                  "flex-1 rounded-full py-3 data-[state=active]:bg-white dark:data-[state=active]:bg-gray-900 data-[state=active]:shadow-md transition-all duration-200",
+                  "data-[state=active]:text-primary"
+                )}
+              >
+                <Shuffle className="mr-2 h-4 w-4" />
+                <span>Permutations</span>
+              </TabsTrigger>
               <TabsTrigger 
                 value="history" 
                 className={cn(
@@ -75,6 +108,18 @@ export const EmailTabs: React.FC<EmailTabsProps> = ({ defaultTab = 'single' }) =
             <BulkFindEmailPage />
           </TabsContent>
           
+          <TabsContent value="domain" className="mt-2">
+            <DomainSearchPage />
+          </TabsContent>
+          
+          <TabsContent value="reverse" className="mt-2">
+            <ReverseLookupPage />
+          </TabsContent>
+          
+          <TabsContent value="permutations" className="mt-2">
+            <EmailPermutationsPage />
+          </TabsContent>
+          
           <TabsContent value="history" className="mt-2">
             <EmailHistory />
           </TabsContent>
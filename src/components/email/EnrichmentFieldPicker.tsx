@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+// Interface for a person table column offered by /api/enrichment-fields
+interface EnrichmentField {
+  column: string;
+  label: string;
+  type: string;
+  suggested: boolean;
+}
+
+interface EnrichmentFieldPickerProps {
+  selected: string[];
+  onChange: (fields: string[]) => void;
+  disabled?: boolean;
+}
+
+// Lets the user pick extra person table columns to return with each lookup
+export default function EnrichmentFieldPicker({ selected, onChange, disabled }: EnrichmentFieldPickerProps) {
+  const [fields, setFields] = useState<EnrichmentField[]>([]);
+  const [maxFields, setMaxFields] = useState(20);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFields = async () => {
+      try {
+        const response = await fetch('/api/enrichment-fields');
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (response.ok) {
+          setFields(data.fields || []);
+          setMaxFields(data.maxFields ?? 20);
+        } else {
+          setError(data.error || 'Failed to load the available fields.');
+        }
+      } catch (err) {
+        console.error('Failed to load enrichment fields:', err);
+        if (!cancelled) setError('Failed to load the available fields.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadFields();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const toggleField = (column: string, checked: boolean) => {
+    onChange(checked ? [...selected, column] : selected.filter((field) => field !== column));
+  };
+
+  // Suggested fields are shown first; the rest on request, keeping selected ones visible
+  const hasSuggestions = fields.some((field) => field.suggested);
+  const visibleFields = showAll || !hasSuggestions
+    ? fields
+    : fields.filter((field) => field.suggested || selected.includes(field.column));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Enrichment fields</Label>
+        {selected.length > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {selected.length} of {maxFields} selected
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading available fields...
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : fields.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No extra fields are available.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {visibleFields.map((field) => {
+              const checked = selected.includes(field.column);
+              return (
+                <div key={field.column} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`enrichment-${field.column}`}
+                    checked={checked}
+                    disabled={disabled || (!checked && selected.length >= maxFields)}
+                    onCheckedChange={(value) => toggleField(field.column, value === true)}
+                  />
+                  <Label htmlFor={`enrichment-${field.column}`} className="text-sm font-normal" title={field.type}>
+                    {field.label}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+          {hasSuggestions && fields.length > visibleFields.length && (
+            <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowAll(true)}>
+              Show all {fields.length} fields
+            </Button>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Selected fields are returned with each person found.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Copy, Download, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportProfile,
+  PROFILE_EXPORT_FORMATS,
+  VCARD_COLUMNS,
+} from '@/lib/result-export';
+import { downloadFromApi } from './download';
+import ExportProfileEditor from './ExportProfileEditor';
+
+// Select value for exporting picked columns instead of a profile
+const PICK_COLUMNS = 'columns';
+
+interface ExportDialogProps {
+  // Export route, possibly with query parameters of its own such as a filter
+  exportUrl: string;
+  // Columns the export can hold, in their default order
+  columns: string[];
+  // File name used if the route does not name the file
+  fallbackName: string;
+  disabled?: boolean;
+  // Offer CRM export profiles; the export route must accept ?profile=
+  allowProfiles?: boolean;
+}
+
+// Lets the user pick an export format and the columns to include, or an
+// export profile, then downloads the export
+export default function ExportDialog({ exportUrl, columns, fallbackName, disabled, allowProfiles }: ExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  // Columns are included unless unticked, so columns that appear later are exported too
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [profiles, setProfiles] = useState<ExportProfile[] | null>(null);
+  const [profileId, setProfileId] = useState(PICK_COLUMNS);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editorProfile, setEditorProfile] = useState<ExportProfile | null>(null);
+
+  const profile = profiles?.find((item) => item.profileId === profileId) ?? null;
+  const formats = profile ? PROFILE_EXPORT_FORMATS : EXPORT_FORMATS;
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/export-profiles');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load export profiles.');
+      }
+      setProfiles(data.profiles || []);
+    } catch (error) {
+      console.error('Error loading export profiles:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load export profiles.');
+    }
+  }, []);
+
+  // Profiles are loaded the first time the dialog is opened
+  useEffect(() => {
+    if (open && allowProfiles && profiles === null) fetchProfiles();
+  }, [open, allowProfiles, profiles, fetchProfiles]);
+
+  const selectProfile = (value: string) => {
+    setProfileId(value);
+    if (value !== PICK_COLUMNS && !PROFILE_EXPORT_FORMATS.includes(format)) setFormat('csv');
+  };
+
+  const openEditor = (startFrom: ExportProfile | null) => {
+    setEditorProfile(startFrom);
+    setEditorOpen(true);
+  };
+
+  const deleteProfile = async (item: ExportProfile) => {
+    try {
+      const response = await fetch(`/api/export-profiles/${item.profileId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete the export profile.');
+      }
+      setProfiles((current) => (current ?? []).filter((existing) => existing.profileId !== item.profileId));
+      setProfileId(PICK_COLUMNS);
+      toast.success(`Deleted export profile "${item.name}"`);
+    } catch (error) {
+      console.error('Error deleting export profile:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the export profile.');
+    }
+  };
+
+  // Saving under an existing name replaces that profile
+  const handleProfileSaved = (saved: ExportProfile) => {
+    setProfiles((current) => [...(current ?? []).filter((item) => item.profileId !== saved.profileId), saved]);
+    setProfileId(saved.profileId);
+  };
+
+  // vCards only have room for contact fields
+  const offeredColumns = format === 'vcf' ? columns.filter((column) => VCARD_COLUMNS.includes(column)) : columns;
+  const selectedColumns = offeredColumns.filter((column) => !excluded.includes(column));
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    setExcluded((current) => (checked ? current.filter((item) => item !== column) : [...current, column]));
+  };
+
+  const runExport = async () => {
+    const params = new URLSearchParams({ format });
+    if (profile) {
+      params.set('profile', profile.profileId);
+    } else if (selectedColumns.length < offeredColumns.length) {
+      // Without a column list the route exports every column
+      selectedColumns.forEach((column) => params.append('columns', column));
+    }
+
+    setIsExporting(true);
+    try {
+      const headers = await downloadFromApi(
+        `${exportUrl}${exportUrl.includes('?') ? '&' : '?'}${params}`,
+        `${fallbackName}.${format}`
+      );
+      const skippedRows = Number(headers.get('X-Skipped-Rows') || 0);
+      toast.success('Export downloaded', {
+        description: skippedRows > 0
+          ? `${skippedRows} ${skippedRows === 1 ? 'row was' : 'rows were'} left out for missing a required column`
+          : undefined,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('Error exporting results:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} className="flex items-center gap-1">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>Choose a format and the columns to include.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {allowProfiles && (
+            <div className="space-y-1">
+              <Label htmlFor="export-profile" className="text-sm font-medium">Layout</Label>
+              <div className="flex items-center gap-2">
+                <Select value={profileId} onValueChange={selectProfile}>
+                  <SelectTrigger id="export-profile" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PICK_COLUMNS}>Pick columns</SelectItem>
+                    {(profiles ?? []).map((item) => (
+                      <SelectItem key={item.profileId} value={item.profileId}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="button" variant="outline" size="sm" onClick={() => openEditor(null)} title="New profile">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="export-format" className="text-sm font-medium">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id="export-format" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {formats.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {EXPORT_FORMAT_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {format === 'vcf' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                One contact per person with a name or email, ready to import into an address book.
+              </p>
+            )}
+          </div>
+
+          {profile ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Columns</Label>
+                <div className="flex gap-2">
+                  {profile.builtIn ? (
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => openEditor(profile)}>
+                      <Copy className="mr-1 h-3 w-3" />
+                      Customize
+                    </Button>
+                  ) : (
+                    <>
+                      <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => openEditor(profile)}>
+                        <Pencil className="mr-1 h-3 w-3" />
+                        Edit
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs text-red-600"
+                        onClick={() => deleteProfile(profile)}
+                      >
+                        <Trash2 className="mr-1 h-3 w-3" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+                {profile.columns.map((item) => (
+                  <div key={item.header} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <span className="font-medium break-all">
+                      {item.header}
+                      {item.required && <span className="ml-1 text-red-600">*</span>}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 break-all text-right">
+                      {item.fields.join(item.combine === 'all' ? ' + ' : ' or ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                * Required: rows without a value are left out.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Columns</Label>
+                <div className="flex gap-2">
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setExcluded([])}>
+                    All
+                  </Button>
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setExcluded(offeredColumns)}>
+                    None
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto">
+                {offeredColumns.map((column) => (
+                  <div key={column} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-column-${column}`}
+                      checked={!excluded.includes(column)}
+                      onCheckedChange={(value) => toggleColumn(column, value === true)}
+                    />
+                    <Label htmlFor={`export-column-${column}`} className="text-sm font-normal break-all">
+                      {column}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={runExport} disabled={isExporting || (!profile && selectedColumns.length === 0)}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {profile
+              ? `Export for ${profile.name}`
+              : `Export ${selectedColumns.length} ${selectedColumns.length === 1 ? 'column' : 'columns'}`}
+          </Button>
+        </DialogFooter>
+
+        {/* Rendered inside the export dialog so it stacks on top of it */}
+        {allowProfiles && (
+          <ExportProfileEditor
+            open={editorOpen}
+            onOpenChange={setEditorOpen}
+            initialProfile={editorProfile}
+            columns={columns}
+            onSaved={handleProfileSaved}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
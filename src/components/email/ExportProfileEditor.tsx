@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ExportProfile,
+  ExportProfileColumn,
+  MAX_PROFILE_NAME_LENGTH,
+  PROFILE_VALUE_FORMAT_LABELS,
+  PROFILE_VALUE_FORMATS,
+  ProfileValueFormat,
+} from '@/lib/result-export';
+
+interface ExportProfileEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Profile to start from: a user profile to edit, or a built-in one to copy
+  initialProfile: ExportProfile | null;
+  // Result columns a profile column can read from
+  columns: string[];
+  onSaved: (profile: ExportProfile) => void;
+}
+
+// A new column reading the first result column
+function emptyColumn(columns: string[]): ExportProfileColumn {
+  return { header: '', fields: columns.slice(0, 1), combine: 'first', format: 'text', required: false };
+}
+
+// Creates or edits a user-defined export profile
+export default function ExportProfileEditor({
+  open,
+  onOpenChange,
+  initialProfile,
+  columns,
+  onSaved,
+}: ExportProfileEditorProps) {
+  const [name, setName] = useState('');
+  const [profileColumns, setProfileColumns] = useState<ExportProfileColumn[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over whenever the editor is opened
+  useEffect(() => {
+    if (!open) return;
+    if (initialProfile) {
+      setName(initialProfile.builtIn ? `${initialProfile.name} (custom)` : initialProfile.name);
+      setProfileColumns(initialProfile.columns.map((item) => ({ ...item, fields: [...item.fields] })));
+    } else {
+      setName('');
+      setProfileColumns([emptyColumn(columns)]);
+    }
+  }, [open, initialProfile, columns]);
+
+  const updateColumn = (index: number, changes: Partial<ExportProfileColumn>) => {
+    setProfileColumns((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const saveProfile = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/export-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, columns: profileColumns }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the export profile.');
+      }
+      toast.success(`Saved export profile "${data.profile.name}"`);
+      onSaved(data.profile);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving export profile:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the export profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{initialProfile && !initialProfile.builtIn ? 'Edit export profile' : 'New export profile'}</DialogTitle>
+          <DialogDescription>
+            Name each column the way your CRM&apos;s import expects and pick the result column it is filled from.
+            Rows without a value for a required column are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="export-profile-name" className="text-sm font-medium">Profile name</Label>
+            <Input
+              id="export-profile-name"
+              value={name}
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Zoho leads"
+            />
+          </div>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto_auto] gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+              <span>Header</span>
+              <span>Result column</span>
+              <span>Format</span>
+              <span>Required</span>
+              <span className="sr-only">Remove</span>
+            </div>
+            {profileColumns.map((item, index) => {
+              // Columns copied from another profile may read a column this result does not have
+              const fieldOptions = Array.from(new Set([...item.fields.slice(0, 1), ...columns]));
+              return (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto_auto] items-center gap-2">
+                  <Input
+                    value={item.header}
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    placeholder="CRM header"
+                    aria-label={`Header of column ${index + 1}`}
+                  />
+                  <div>
+                    <Select
+                      value={item.fields[0] ?? ''}
+                      onValueChange={(value) => updateColumn(index, { fields: [value], combine: 'first' })}
+                    >
+                      <SelectTrigger className="w-full" aria-label={`Result column of column ${index + 1}`}>
+                        <SelectValue placeholder="Select a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fieldOptions.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {item.fields.length > 1 && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {item.combine === 'all' ? 'joined with' : 'or else'} {item.fields.slice(1).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <Select
+                    value={item.format}
+                    onValueChange={(value) => updateColumn(index, { format: value as ProfileValueFormat })}
+                  >
+                    <SelectTrigger className="w-full" aria-label={`Format of column ${index + 1}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROFILE_VALUE_FORMATS.map((format) => (
+                        <SelectItem key={format} value={format}>
+                          {PROFILE_VALUE_FORMAT_LABELS[format]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex justify-center">
+                    <Checkbox
+                      checked={item.required}
+                      onCheckedChange={(value) => updateColumn(index, { required: value === true })}
+                      aria-label={`Column ${index + 1} is required`}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setProfileColumns((current) => current.filter((_, i) => i !== index))}
+                    disabled={profileColumns.length === 1}
+                    aria-label={`Remove column ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setProfileColumns((current) => [...current, emptyColumn(columns)])}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add column
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={saveProfile} disabled={isSaving || !name.trim()}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
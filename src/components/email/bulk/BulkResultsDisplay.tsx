@@ -1,33 +1,98 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Download, Loader2, ArrowLeft, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { Loader2, ArrowLeft, CheckCircle, XCircle, RefreshCw, ChevronLeft, ChevronRight, FileSpreadsheet } from 'lucide-react';
 import { toast } from 'sonner';
 import Link from 'next/link';
+import { formatFieldLabel } from '../single/types';
+import { downloadFromApi } from '../download';
+import ExportDialog from '../ExportDialog';
+import { nameVariantSummary } from '@/lib/result-export';
 
 // Types
+type MatchTier = 'exact-linkedin' | 'exact-name-company' | 'prefix' | 'fallback';
+
+interface NameVariantMatch {
+  searched: string;
+  matched: string;
+  kind: 'exact' | 'folded' | 'transliteration' | 'nickname' | 'prefix';
+}
+
 interface BulkResultRecord {
-  firstName: string;
-  lastName: string;
-  linkedin: string;
-  companyName: string;
+  firstName?: string;
+  lastName?: string;
+  linkedin?: string;
+  companyName?: string;
+  companyDomain?: string;
   foundEmail: string | null;
   personalEmails?: string[];
   isVerified?: boolean | null;
   emailQuality?: string | null;
+  matchTier?: MatchTier | null;
+  matchedCriteria?: string[] | null;
+  nameMatches?: Partial<Record<'firstName' | 'lastName', NameVariantMatch>> | null;
+  companyDomains?: string[];
+  inferredEmail?: string | null;
+  inferredEmailPattern?: string | null;
+  inferredEmailConfidence?: number | null;
+  // Requested enrichment columns of the matched record, keyed by column name
+  enrichment?: Record<string, string | null> | null;
+  // Why the row was not looked up, e.g. it had no search criteria
+  skipReason?: string | null;
   retryCount?: number;
   lastRetry?: Date;
 }
 
+// Short labels for the match tier column
+const MATCH_TIER_LABELS: Record<MatchTier, string> = {
+  'exact-linkedin': 'Exact LinkedIn',
+  'exact-name-company': 'Exact name & company',
+  prefix: 'Partial',
+  fallback: 'Fallback',
+};
+
+const MATCH_CRITERION_LABELS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  linkedin: 'LinkedIn',
+  companyName: 'Company',
+  companyDomain: 'Company domain',
+};
+
+// Number of rows shown per table page
+const PAGE_SIZE = 100;
+// Pause after typing before the search is sent
+const SEARCH_DELAY_MS = 300;
+
+type StatusFilter = 'all' | 'verified' | 'unverified' | 'not-found';
+
+// Interface for a page of a stored bulk result, as returned by /api/bulk-result/[id]
+interface BulkResultPage {
+  searchId: string;
+  recordCount: number;
+  successCount: number;
+  skippedCount: number;
+  enrichmentFields: string[];
+  // Columns the export route can include
+  exportColumns: string[];
+  // Whether the uploaded file can be downloaded with the results added
+  hasSourceFile: boolean;
+  results: BulkResultRecord[];
+  page: number;
+  totalPages: number;
+  // Rows that pass the current filters
+  totalResults: number;
+}
+
 interface BulkResultsDisplayProps {
-  results: BulkResultRecord[] | null;
-  setResults: (results: BulkResultRecord[]) => void;
+  // Stored bulk result to show, read from the server a page at a time
+  searchId: string | null;
 }
 
 // Animation variants
@@ -55,12 +120,73 @@ const itemVariants = {
   },
 };
 
-export default function BulkResultsDisplay({ results, setResults }: BulkResultsDisplayProps) {
+export default function BulkResultsDisplay({ searchId }: BulkResultsDisplayProps) {
+  const [resultPage, setResultPage] = useState<BulkResultPage | null>(null);
+  // Rows of the current page, updated in place by verification and retries
+  const [results, setResults] = useState<BulkResultRecord[] | null>(null);
+  const [loadingPage, setLoadingPage] = useState(false);
   const [verifyingEmail, setVerifyingEmail] = useState<number | null>(null);
   const [verifyingBatch, setVerifyingBatch] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'verified' | 'unverified' | 'not-found'>('all');
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
   const [retryingEmail, setRetryingEmail] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [downloadingFile, setDownloadingFile] = useState(false);
+
+  // Start from the first page, unfiltered, whenever another result is shown
+  useEffect(() => {
+    setPage(1);
+    setFilterStatus('all');
+    setSearchTerm('');
+    setAppliedSearch('');
+    setResultPage(null);
+    setResults(null);
+  }, [searchId]);
+
+  // Send the search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedSearch(searchTerm.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Load the current page of the result from the server
+  useEffect(() => {
+    if (!searchId) return;
+    let ignore = false;
+
+    const loadPage = async () => {
+      setLoadingPage(true);
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        if (filterStatus !== 'all') params.set('status', filterStatus);
+        if (appliedSearch) params.set('q', appliedSearch);
+
+        const response = await fetch(`/api/bulk-result/${searchId}?${params}`);
+        const data = await response.json();
+        if (ignore) return;
+
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to load bulk results.');
+          return;
+        }
+        setResultPage(data);
+        setResults(data.results || []);
+      } catch (_error) {
+        if (!ignore) toast.error('Failed to load bulk results.');
+      } finally {
+        if (!ignore) setLoadingPage(false);
+      }
+    };
+
+    loadPage();
+    return () => {
+      ignore = true;
+    };
+  }, [searchId, page, filterStatus, appliedSearch]);
 
   // Verify email manually
   const verifyEmail = useCallback(
@@ -100,7 +226,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
     [results, setResults]
   );
 
-  // Verify all emails in batch
+  // Verify the emails of the current page in batch
   const verifyAllEmails = useCallback(async () => {
     if (!results?.length) return;
 
@@ -182,6 +308,13 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
             lastName: record.lastName,
             linkedin: record.linkedin,
             companyName: record.companyName,
+            companyDomain: record.companyDomain,
+            useFirstName: true,
+            useLastName: true,
+            useLinkedin: true,
+            useCompanyName: true,
+            useCompanyDomain: !!record.companyDomain,
+            enrichmentFields: Object.keys(record.enrichment || {}),
           }),
         });
 
@@ -195,6 +328,14 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
             personalEmails: data.personalEmails || [],
             isVerified: undefined,
             emailQuality: undefined,
+            matchTier: data.matchTier ?? null,
+            matchedCriteria: data.matchedCriteria || [],
+            nameMatches: data.nameMatches || {},
+            inferredEmail: data.inferredEmails?.[0]?.email ?? null,
+            inferredEmailPattern: data.inferredEmails?.[0]?.pattern ?? null,
+            inferredEmailConfidence: data.inferredEmails?.[0]?.confidence ?? null,
+            enrichment: data.enrichment ?? record.enrichment ?? null,
+            skipReason: null,
             retryCount: (record.retryCount || 0) + 1,
             lastRetry: new Date(),
           };
@@ -217,70 +358,34 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
     [results, setResults]
   );
 
-  // Download CSV
-  const downloadResults = useCallback(() => {
-    if (!results?.length) return;
-
-    const headers = [
-      'firstName', 'lastName', 'companyName', 'foundEmail', 
-      'personalEmails', 'isVerified', 'emailQuality', 'retryCount'
-    ];
-
-    const csvContent = results.map(record => {
-      const row = {
-        ...record,
-        personalEmails: record.personalEmails?.join('; ') || '',
-      };
-      
-      return headers.map(key => {
-        const value = row[key as keyof typeof row];
-        if (value === null || value === undefined) return '';
-        return String(value).includes(',') ? `"${value}"` : value;
-      }).join(',');
-    }).join('\n');
-
-    const blob = new Blob([`${headers.join(',')}\n${csvContent}`], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `email-results-${Date.now()}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    toast.success('Downloaded results');
-  }, [results]);
-
-  // Filter results
-  const filteredResults = useCallback(() => {
-    if (!results) return [];
-
-    return results.filter((record) => {
-      // Apply status filter
-      if (filterStatus === 'verified' && record.isVerified !== true) return false;
-      if (filterStatus === 'unverified' && record.isVerified !== false) return false;
-      if (filterStatus === 'not-found' && record.foundEmail) return false;
-
-      // Apply search filter
-      if (searchTerm) {
-        const search = searchTerm.toLowerCase();
-        return (
-          record.firstName?.toLowerCase().includes(search) ||
-          record.lastName?.toLowerCase().includes(search) ||
-          record.companyName?.toLowerCase().includes(search) ||
-          record.foundEmail?.toLowerCase().includes(search) ||
-          record.personalEmails?.some((email) => email.toLowerCase().includes(search))
-        );
-      }
-
-      return true;
-    });
-  }, [results, filterStatus, searchTerm]);
-
-  if (!results) return null;
-
-  const foundCount = results.filter(r => r.foundEmail).length;
-  const successRate = Math.round((foundCount / results.length) * 100);
+  // Download the uploaded file with the stored lookup results appended to each row
+  const downloadEnrichedFile = useCallback(async () => {
+    if (!searchId) return;
+    setDownloadingFile(true);
+    try {
+      await downloadFromApi(`/api/bulk-result/${searchId}/enriched`, `enriched-${searchId}`);
+      toast.success('Downloaded enriched file');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download the enriched file');
+    } finally {
+      setDownloadingFile(false);
+    }
+  }, [searchId]);
+
+  if (!searchId || !resultPage || !results) {
+    return searchId && loadingPage ? (
+      <div className="flex justify-center py-16 text-gray-500">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    ) : null;
+  }
+
+  const { totalPages, totalResults } = resultPage;
+  const currentPage = resultPage.page;
+  const extraColumns = resultPage.enrichmentFields;
+  const foundCount = resultPage.successCount;
+  const skippedCount = resultPage.skippedCount;
+  const successRate = resultPage.recordCount > 0 ? Math.round((foundCount / resultPage.recordCount) * 100) : 0;
 
   return (
     <motion.div
@@ -293,7 +398,8 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
           <div>
             <CardTitle className="text-xl font-bold">Email Results</CardTitle>
             <p className="text-sm text-gray-500 mt-1">
-              {foundCount} of {results.length} found ({successRate}%)
+              {foundCount} of {resultPage.recordCount} found ({successRate}%)
+              {skippedCount > 0 && ` · ${skippedCount} skipped`}
             </p>
           </div>
           <div className="flex gap-2">
@@ -301,6 +407,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
               onClick={verifyAllEmails}
               variant="outline"
               disabled={verifyingBatch}
+              title="Verify the unverified emails on this page"
               className="bg-white/80 hover:bg-white transition-all duration-300 border-blue-200/50 hover:border-blue-300 shadow-sm"
             >
               {verifyingBatch ? (
@@ -309,17 +416,31 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                   Verifying...
                 </>
               ) : (
-                <>Verify All</>
+                <>Verify Page</>
               )}
             </Button>
-            <Button
-              onClick={downloadResults}
-              variant="default"
-              className="bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-600 transition-all duration-300 shadow-sm"
-            >
-              <Download className="mr-2 h-4 w-4" />
-              Download
-            </Button>
+            {resultPage.hasSourceFile && (
+              <Button
+                onClick={downloadEnrichedFile}
+                variant="outline"
+                disabled={downloadingFile}
+                title="Your file with every original column, plus the found emails"
+                className="bg-white/80 hover:bg-white transition-all duration-300 border-blue-200/50 hover:border-blue-300 shadow-sm"
+              >
+                {downloadingFile ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                )}
+                Enriched File
+              </Button>
+            )}
+            <ExportDialog
+              exportUrl={`/api/bulk-result/${searchId}/export`}
+              columns={resultPage.exportColumns}
+              fallbackName={`email-results-${searchId}`}
+              allowProfiles
+            />
           </div>
         </CardHeader>
         
@@ -332,7 +453,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                 <Button
                   size="sm"
                   variant={filterStatus === 'all' ? 'default' : 'outline'}
-                  onClick={() => setFilterStatus('all')}
+                  onClick={() => { setFilterStatus('all'); setPage(1); }}
                   className="h-8 text-xs transition-all duration-200 hover:shadow-md"
                 >
                   All
@@ -340,7 +461,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                 <Button
                   size="sm"
                   variant={filterStatus === 'verified' ? 'default' : 'outline'}
-                  onClick={() => setFilterStatus('verified')}
+                  onClick={() => { setFilterStatus('verified'); setPage(1); }}
                   className="h-8 text-xs transition-all duration-200 hover:shadow-md"
                 >
                   Verified
@@ -348,7 +469,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                 <Button
                   size="sm"
                   variant={filterStatus === 'unverified' ? 'default' : 'outline'}
-                  onClick={() => setFilterStatus('unverified')}
+                  onClick={() => { setFilterStatus('unverified'); setPage(1); }}
                   className="h-8 text-xs transition-all duration-200 hover:shadow-md"
                 >
                   Unverified
@@ -356,7 +477,7 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                 <Button
                   size="sm"
                   variant={filterStatus === 'not-found' ? 'default' : 'outline'}
-                  onClick={() => setFilterStatus('not-found')}
+                  onClick={() => { setFilterStatus('not-found'); setPage(1); }}
                   className="h-8 text-xs transition-all duration-200 hover:shadow-md"
                 >
                   Not Found
@@ -380,21 +501,37 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                   <TableHead className="font-bold">Name</TableHead>
                   <TableHead className="font-bold">Company</TableHead>
                   <TableHead className="font-bold">Email</TableHead>
+                  <TableHead className="font-bold w-40">Match</TableHead>
+                  {extraColumns.map((column) => (
+                    <TableHead key={column} className="font-bold">{formatFieldLabel(column)}</TableHead>
+                  ))}
                   <TableHead className="font-bold w-32">Status</TableHead>
                   <TableHead className="font-bold w-48">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredResults().length > 0 ? (
-                  filteredResults().map((record, index) => (
+                {results.length > 0 ? (
+                  results.map((record, index) => (
                     <TableRow
-                      key={index}
+                      key={`${currentPage}-${index}`}
                       className={index % 2 === 0 ? "bg-white/90 hover:bg-blue-50/50 transition-colors duration-200" : "bg-gray-50/90 hover:bg-blue-50/50 transition-colors duration-200"}
                     >
                       <TableCell className="font-medium">
-                        {record.firstName} {record.lastName}
+                        {record.firstName || record.lastName
+                          ? `${record.firstName || ''} ${record.lastName || ''}`
+                          : record.linkedin}
+                        {nameVariantSummary(record.nameMatches) && (
+                          <div className="text-xs font-normal text-gray-500">
+                            Matched {nameVariantSummary(record.nameMatches)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {record.companyName}
+                        {record.companyDomains?.length ? (
+                          <div className="text-xs text-gray-500">{record.companyDomains.join(', ')}</div>
+                        ) : null}
                       </TableCell>
-                      <TableCell>{record.companyName}</TableCell>
                       <TableCell>
                         {record.foundEmail ? (
                           <div className="font-mono text-sm bg-gradient-to-r from-black to-gray-800 text-white px-2 py-1 rounded-md shadow-sm">
@@ -414,12 +551,61 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                               </div>
                             )}
                           </div>
+                        ) : record.inferredEmail ? (
+                          <div
+                            className="font-mono text-sm border border-dashed border-amber-300 text-amber-800 px-2 py-1 rounded-md"
+                            title={`Guessed from the company's ${record.inferredEmailPattern} email format; not a verified record`}
+                          >
+                            {record.inferredEmail}
+                            <div className="font-sans text-xs text-amber-700 mt-1">
+                              Inferred · {record.inferredEmailConfidence}% confidence
+                            </div>
+                          </div>
+                        ) : record.skipReason ? (
+                          <div className="text-xs">
+                            <span className="text-amber-700 bg-amber-50/50 px-2 py-1 rounded-md shadow-sm">
+                              Skipped
+                            </span>
+                            <div className="text-gray-500 mt-1">{record.skipReason}</div>
+                          </div>
                         ) : (
                           <span className="text-gray-400 text-xs bg-gray-100 px-2 py-1 rounded-md shadow-sm">
                             Not Found
                           </span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {record.matchTier ? (
+                          <div
+                            className="space-y-1"
+                            title={record.matchedCriteria?.length
+                              ? `Matched on ${record.matchedCriteria.map((criterion) => MATCH_CRITERION_LABELS[criterion] ?? criterion).join(', ')}`
+                              : undefined}
+                          >
+                            <span
+                              className={`text-xs px-2 py-1 rounded-md shadow-sm ${
+                                record.matchTier === 'exact-linkedin' || record.matchTier === 'exact-name-company'
+                                  ? 'text-green-700 bg-green-50/50'
+                                  : 'text-amber-700 bg-amber-50/50'
+                              }`}
+                            >
+                              {MATCH_TIER_LABELS[record.matchTier]}
+                            </span>
+                            {record.matchedCriteria?.length ? (
+                              <div className="text-xs text-gray-500">
+                                {record.matchedCriteria.map((criterion) => MATCH_CRITERION_LABELS[criterion] ?? criterion).join(', ')}
+                              </div>
+                            ) : null}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400 text-xs">—</span>
+                        )}
+                      </TableCell>
+                      {extraColumns.map((column) => (
+                        <TableCell key={column} className="text-sm">
+                          {record.enrichment?.[column] || <span className="text-gray-400 text-xs">—</span>}
+                        </TableCell>
+                      ))}
                       <TableCell>
                         {record.foundEmail ? (
                           <div className="flex items-center">
@@ -488,14 +674,46 @@ export default function BulkResultsDisplay({ results, setResults }: BulkResultsD
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-16 text-gray-500">
-                      {results.length > 0 ? 'No results match your filters' : 'No results found'}
+                    <TableCell colSpan={6 + extraColumns.length} className="text-center py-16 text-gray-500">
+                      {resultPage.recordCount > 0 ? 'No results match your filters' : 'No results found'}
                     </TableCell>
                   </TableRow>
                 )}
               </TableBody>
             </Table>
           </motion.div>
+
+          {totalResults > PAGE_SIZE && (
+            <div className="flex items-center justify-between px-4 py-3 border-t text-sm text-gray-500">
+              <span className="flex items-center gap-2">
+                Showing {(currentPage - 1) * PAGE_SIZE + 1}–{Math.min(currentPage * PAGE_SIZE, totalResults)} of {totalResults}
+                {loadingPage && <Loader2 className="h-3 w-3 animate-spin" />}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8 px-2"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage <= 1 || loadingPage}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8 px-2"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages || loadingPage}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
         
         <CardFooter className="py-3 flex justify-center border-t bg-gradient-to-r from-gray-50 to-blue-50/30 dark:from-gray-900/80 dark:to-blue-900/20">
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { FileUp, Loader2, CheckCircle, X, Upload, Download, Settings, Info, FileType2 } from 'lucide-react';
@@ -37,34 +39,42 @@ import {
   SheetTrigger,
   SheetFooter,
 } from "@/components/ui/sheet";
-import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import EnrichmentFieldPicker from '../EnrichmentFieldPicker';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import { ColumnMapping, detectColumnMapping, hasMappedSearchField } from '@/lib/column-mapping';
+import {
+  BULK_FILE_ACCEPT,
+  BULK_FILE_FORMAT_NAMES,
+  BULK_FILE_FORMATS,
+  detectBulkFileFormat,
+  detectTextEncoding,
+  MAX_BULK_FILE_SIZE,
+  MAX_BULK_FILE_SIZE_MB,
+} from '@/lib/bulk-file-formats';
 
 // Types
-interface BulkResultRecord {
-  firstName: string;
-  lastName: string;
-  linkedin: string;
-  companyName: string;
-  foundEmail: string | null;
-  personalEmails?: string[];
-  personalEmailsString?: string;
-  isVerified?: boolean | null;
-  emailQuality?: string | null;
-  retryCount?: number;
-  lastRetry?: Date;
-}
-
-interface BulkResultPayload {
-  fileName: string;
-  recordCount: number;
-  successCount: number;
-  results: BulkResultRecord[];
+interface BulkJobProgress {
+  jobId: string;
+  state: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  totalRows: number;
+  // The total grows until the whole file has been read
+  readingFile: boolean;
+  rowsDone: number;
+  rowsFound: number;
+  cacheHits: number;
+  // Rows of the file that could not be parsed
+  parseErrors: number;
+  rowsPerSecond: number;
+  etaSeconds: number | null;
+  resultLocation: string | null;
+  error: string | null;
 }
 
 interface BulkUploadFormProps {
-  onResults: (results: BulkResultRecord[]) => void;
+  // Called with the id of the stored result once a job completes
+  onComplete: (searchId: string) => void;
 }
 
 // Animation variants
@@ -113,47 +123,161 @@ const fileDropVariants = {
 };
 
 // Sample template data
-const templateData = `firstName,lastName,linkedin,companyName
-John,Doe,linkedin.com/in/johndoe,Acme Inc
-Jane,Smith,linkedin.com/in/janesmith,Globex Corp`;
+// Every column is optional; each row is searched with the fields it has
+const templateData = `firstName,lastName,linkedin,companyName,companyDomain
+John,Doe,linkedin.com/in/johndoe,Acme Inc,acme.io
+Jane,Smith,linkedin.com/in/janesmith,Globex Corp,`;
+
+// Follow a bulk job's progress stream until the job finishes
+function followJobProgress(
+  jobId: string,
+  onProgress: (progress: BulkJobProgress) => void
+): Promise<BulkJobProgress> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/bulk-jobs/${jobId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      const progress: BulkJobProgress = JSON.parse((event as MessageEvent).data);
+      onProgress(progress);
+      if (progress.state !== 'queued' && progress.state !== 'running') {
+        source.close();
+        resolve(progress);
+      }
+    });
+
+    // EventSource reconnects on its own; only give up once it has stopped trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the bulk job progress stream'));
+      }
+    };
+  });
+}
+
+// Bytes of a text file read for its preview
+const PREVIEW_SAMPLE_SIZE = 64 * 1024;
+// Data rows shown in the preview
+const PREVIEW_ROWS = 4;
+
+// Interface for the start of a file, as shown before it is uploaded
+interface FilePreview {
+  // Header row followed by the first data rows
+  rows: string[][];
+  // Every sheet of a workbook, empty for other formats
+  sheetNames: string[];
+}
+
+// Turn JSON row objects into a header row and data rows
+function jsonPreviewRows(values: unknown[]): string[][] {
+  const objects = values.filter(
+    (value): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+  );
+  const headers = [...new Set(objects.flatMap((row) => Object.keys(row)))];
+  return [
+    headers,
+    ...objects.map((row) => headers.map((header) => (row[header] === undefined || row[header] === null ? '' : String(row[header])))),
+  ];
+}
+
+// Read the header row and first data rows of an uploaded file, from the given
+// sheet of a workbook or its first sheet
+async function readFilePreview(file: File, sheetName?: string): Promise<FilePreview> {
+  const format = detectBulkFileFormat(file.name);
 
-export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
+  if (format && BULK_FILE_FORMATS[format].workbook) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheetRows: PREVIEW_ROWS + 1 });
+    const worksheet = workbook.Sheets[sheetName ?? workbook.SheetNames[0]];
+    if (!worksheet) return { rows: [], sheetNames: workbook.SheetNames };
+    const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][];
+    return { rows: rows.map((row) => row.map((cell) => String(cell ?? ''))), sheetNames: workbook.SheetNames };
+  }
+
+  // A whole JSON array has to be parsed to read any of it
+  if (format === 'json') {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const values: unknown = JSON.parse(new TextDecoder(detectTextEncoding(bytes.subarray(0, PREVIEW_SAMPLE_SIZE))).decode(bytes));
+    if (!Array.isArray(values)) throw new Error('The file must hold an array of rows');
+    return { rows: jsonPreviewRows(values.slice(0, PREVIEW_ROWS)), sheetNames: [] };
+  }
+
+  // Text formats are previewed from their first bytes, decoded the way the server will
+  const sample = new Uint8Array(await file.slice(0, PREVIEW_SAMPLE_SIZE).arrayBuffer());
+  const text = new TextDecoder(detectTextEncoding(sample)).decode(sample);
+
+  if (format === 'ndjson') {
+    const values = text.split('\n').filter((line) => line.trim()).slice(0, PREVIEW_ROWS).map((line) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        // A line cut off at the end of the sample, or one the server will report as unreadable
+        return null;
+      }
+    });
+    return { rows: jsonPreviewRows(values), sheetNames: [] };
+  }
+
+  // CSV delimiters are detected by Papa, as on the server
+  const parsed = Papa.parse(text, {
+    preview: PREVIEW_ROWS + 1,
+    skipEmptyLines: true,
+    delimiter: format === 'tsv' ? '\t' : undefined,
+  });
+  return { rows: parsed.data as string[][], sheetNames: [] };
+}
+
+// Format an estimated number of seconds for display
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds} seconds`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minutes`;
+  return `${(seconds / 3600).toFixed(1)} hours`;
+}
+
+export default function BulkUploadForm({ onComplete }: BulkUploadFormProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadSpeed, setUploadSpeed] = useState<string>('');
-  const [timeRemaining, setTimeRemaining] = useState<string>('');
-  const [uploadMethod, setUploadMethod] = useState<string>('standard');
+  const [jobProgress, setJobProgress] = useState<BulkJobProgress | null>(null);
   const [autoProcess, setAutoProcess] = useState<boolean>(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [filePreview, setFilePreview] = useState<string[][]>([]);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [enrichmentFields, setEnrichmentFields] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const startTimeRef = useRef<number>(0);
-  const bytesLoadedRef = useRef<number>(0);
+  const jobIdRef = useRef<string | null>(null);
+
+  // Preview the file (or one sheet of a workbook) and propose a column mapping from its headers
+  const loadPreview = useCallback(async (selectedFile: File, selectedSheet?: string) => {
+    try {
+      const preview = await readFilePreview(selectedFile, selectedSheet);
+      setFilePreview(preview.rows);
+      setSheetNames(preview.sheetNames);
+      setSheetName(selectedSheet ?? preview.sheetNames[0] ?? null);
+      setColumnMapping(detectColumnMapping(preview.rows[0] || []));
+    } catch (error) {
+      console.error('Error reading file preview:', error);
+      setFilePreview([]);
+      setColumnMapping({});
+      toast.error('Could not read the columns of this file');
+    }
+  }, []);
 
   // Handle file selection
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
+      if (selectedFile.size > MAX_BULK_FILE_SIZE) {
+        toast.error(`Files can be at most ${MAX_BULK_FILE_SIZE_MB} MB`);
+        return;
+      }
       setFile(selectedFile);
       setUploadSuccess(false);
       
-      // Generate preview if it's a CSV
-      if (selectedFile.name.endsWith('.csv')) {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          if (event.target?.result) {
-            const text = event.target.result as string;
-            const rows = text.split('\n').slice(0, 5); // Get first 5 rows
-            const preview = rows.map(row => row.split(','));
-            setFilePreview(preview);
-          }
-        };
-        reader.readAsText(selectedFile);
-      }
+      loadPreview(selectedFile);
       
       // Auto process if setting is enabled
       if (autoProcess) {
@@ -162,7 +286,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
         }, 500);
       }
     }
-  }, [autoProcess]);
+  }, [autoProcess, loadPreview]);
 
   // Handle drag events
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -184,25 +308,14 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const droppedFile = e.dataTransfer.files[0];
-      const fileType = droppedFile.name.split('.').pop()?.toLowerCase();
       
-      if (['csv', 'xlsx', 'xls'].includes(fileType || '')) {
+      if (droppedFile.size > MAX_BULK_FILE_SIZE) {
+        toast.error(`Files can be at most ${MAX_BULK_FILE_SIZE_MB} MB`);
+      } else if (detectBulkFileFormat(droppedFile.name)) {
         setFile(droppedFile);
         setUploadSuccess(false);
         
-        // Generate preview if it's a CSV
-        if (fileType === 'csv') {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            if (event.target?.result) {
-              const text = event.target.result as string;
-              const rows = text.split('\n').slice(0, 5); // Get first 5 rows
-              const preview = rows.map(row => row.split(','));
-              setFilePreview(preview);
-            }
-          };
-          reader.readAsText(droppedFile);
-        }
+        loadPreview(droppedFile);
         
         // Auto process if setting is enabled
         if (autoProcess) {
@@ -211,10 +324,10 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
           }, 500);
         }
       } else {
-        toast.error('Please upload a CSV or Excel file');
+        toast.error(`Please upload a ${BULK_FILE_FORMAT_NAMES} file`);
       }
     }
-  }, [autoProcess]);
+  }, [autoProcess, loadPreview]);
 
   // Handle button click to trigger file input
   const onButtonClick = () => {
@@ -229,9 +342,11 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
     if (fileInputRef.current) fileInputRef.current.value = '';
     setUploadProgress(0);
     setUploadSuccess(false);
-    setUploadSpeed('');
-    setTimeRemaining('');
+    setJobProgress(null);
     setFilePreview([]);
+    setColumnMapping({});
+    setSheetNames([]);
+    setSheetName(null);
   }, []);
 
   // Download template function
@@ -246,40 +361,8 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
     toast.success('Template downloaded');
   };
 
-  // Update upload statistics during file upload
-  useEffect(() => {
-    if (isLoading && uploadProgress > 0 && uploadProgress < 100) {
-      const currentTime = Date.now();
-      const elapsedTime = (currentTime - startTimeRef.current) / 1000; // in seconds
-      
-      if (elapsedTime > 0) {
-        // Calculate upload speed (simulated as this is just for UI)
-        const loadedSize = file ? (file.size * (uploadProgress / 100)) : 0;
-        const bytesPerSecond = loadedSize / elapsedTime;
-        bytesLoadedRef.current = loadedSize;
-        
-        if (bytesPerSecond < 1024) {
-          setUploadSpeed(`${bytesPerSecond.toFixed(1)} B/s`);
-        } else if (bytesPerSecond < 1048576) {
-          setUploadSpeed(`${(bytesPerSecond / 1024).toFixed(1)} KB/s`);
-        } else {
-          setUploadSpeed(`${(bytesPerSecond / 1048576).toFixed(1)} MB/s`);
-        }
-        
-        // Calculate estimated time remaining
-        if (file) {
-          const remainingBytes = file.size - loadedSize;
-          const estimatedSeconds = remainingBytes / bytesPerSecond;
-          
-          if (estimatedSeconds < 60) {
-            setTimeRemaining(`${Math.ceil(estimatedSeconds)} seconds`);
-          } else {
-            setTimeRemaining(`${Math.ceil(estimatedSeconds / 60)} minutes`);
-          }
-        }
-      }
-    }
-  }, [uploadProgress, isLoading, file]);
+  const fileHeaders = useMemo(() => filePreview[0] || [], [filePreview]);
+  const mappingIncomplete = fileHeaders.length > 0 && !hasMappedSearchField(columnMapping);
 
   // Submit handler
   const handleSubmit = useCallback(
@@ -292,82 +375,105 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
 
       setIsLoading(true);
       setUploadProgress(0);
-      startTimeRef.current = Date.now();
-      bytesLoadedRef.current = 0;
-      
+      setJobProgress(null);
+
       const formData = new FormData();
       formData.append('file', file);
-      formData.append('method', uploadMethod);
+      // Column names are plain identifiers, so a comma-separated list is unambiguous
+      formData.append('enrichmentFields', enrichmentFields.join(','));
+      // Without a preview the server detects the columns from the headers itself
+      if (fileHeaders.length > 0) {
+        formData.append('columnMapping', JSON.stringify(columnMapping));
+      }
+      if (sheetName) {
+        formData.append('sheetName', sheetName);
+      }
 
       try {
-        // Simulate progress for better UX
-        const progressInterval = setInterval(() => {
-          setUploadProgress(prev => {
-            // Different progress speeds based on method
-            const increment = uploadMethod === 'quick' ? Math.random() * 25 : 
-                              uploadMethod === 'thorough' ? Math.random() * 8 : 
-                              Math.random() * 15;
-                              
-            const newProgress = prev + increment;
-            return newProgress >= 90 ? 90 : newProgress;
-          });
-        }, 300);
-
         const response = await fetch('/api/bulk-find-email', {
           method: 'POST',
           body: formData,
         });
 
-        clearInterval(progressInterval);
-        setUploadProgress(100);
-        
         const data = await response.json();
 
         if (!response.ok) {
           const errorMessage = data.error || `Error: ${response.statusText}`;
           toast.error(errorMessage);
-        } else {
-          setUploadSuccess(true);
-          onResults(data.results || []);
-          toast.success(`Processed ${data.results?.length || 0} records successfully`, {
-            description: `Found ${data.results?.filter((r: BulkResultRecord) => r.foundEmail).length || 0} valid emails`,
-            icon: <CheckCircle className="h-5 w-5 text-green-500" />,
-            duration: 5000,
+          return;
+        }
+
+        // The file is processed in the background; follow its progress until it finishes
+        jobIdRef.current = data.jobId;
+        let job: BulkJobProgress;
+        try {
+          job = await followJobProgress(data.jobId, (progress) => {
+            setJobProgress(progress);
+            if (progress.totalRows > 0) {
+              setUploadProgress((progress.rowsDone / progress.totalRows) * 100);
+            }
           });
+        } finally {
+          jobIdRef.current = null;
+        }
 
-          // Save the bulk search result to history
-          try {
-            await fetch('/api/bulk-result', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                fileName: file.name,
-                recordCount: data.results?.length || 0,
-                successCount: data.results?.filter((r: BulkResultRecord) => r.foundEmail).length || 0,
-                results: data.results as BulkResultRecord[],
-              } as BulkResultPayload),
-            });
-          } catch (saveErr) {
-            console.error('Error saving bulk search history:', saveErr);
-          }
-          
-          // Reset after 2 seconds of showing success
-          setTimeout(() => {
-            removeFile();
-          }, 2000);
+        if (job.state === 'cancelled') {
+          setUploadProgress(0);
+          toast.info('Bulk search cancelled');
+          return;
         }
+
+        if (job.state === 'failed' || !job.resultLocation) {
+          setUploadProgress(0);
+          toast.error(job.error || 'Failed to process file. Please try again.');
+          return;
+        }
+
+        setUploadProgress(100);
+
+        // Completed jobs are already saved to history under the job's id; the
+        // results view reads the stored result a page at a time
+        setUploadSuccess(true);
+        onComplete(job.jobId);
+        toast.success(`Processed ${job.rowsDone} records successfully`, {
+          description: job.parseErrors > 0
+            ? `Found ${job.rowsFound} valid emails. ${job.parseErrors} rows could not be read and were left out`
+            : `Found ${job.rowsFound} valid emails`,
+          icon: <CheckCircle className="h-5 w-5 text-green-500" />,
+          duration: 5000,
+        });
+
+        // Reset after 2 seconds of showing success
+        setTimeout(() => {
+          removeFile();
+        }, 2000);
       } catch (error) {
         console.error('Error processing file:', error);
-        toast.error('Failed to process file. Please try again.');
+        toast.error(error instanceof Error ? error.message : 'Failed to process file. Please try again.');
       } finally {
         setIsLoading(false);
-        setUploadSpeed('');
-        setTimeRemaining('');
       }
     },
-    [file, onResults, removeFile, uploadMethod]
+    [file, onComplete, removeFile, enrichmentFields, fileHeaders, columnMapping, sheetName]
   );
 
+  // Ask the server to stop the running job; the polling loop reports the outcome
+  const handleCancel = useCallback(async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+
+    try {
+      const response = await fetch(`/api/bulk-jobs/${jobId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to cancel bulk search.');
+      }
+    } catch (error) {
+      console.error('Error cancelling bulk job:', error);
+      toast.error('Failed to cancel bulk search.');
+    }
+  }, []);
+
   return (
     <>
       <Toaster position="top-center" richColors closeButton />
@@ -425,40 +531,6 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                       </SheetDescription>
                     </SheetHeader>
                     <div className="py-6 space-y-6">
-                      <div className="space-y-2">
-                        <h4 className="text-sm font-medium leading-none">Processing Method</h4>
-                        <Select value={uploadMethod} onValueChange={setUploadMethod}>
-                          <SelectTrigger className="w-full">
-                            <SelectValue placeholder="Select processing method" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="quick">
-                              <div className="flex items-center gap-2">
-                                <span>Quick</span>
-                                <Badge variant="outline" className="ml-2 bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600">Fast</Badge>
-                              </div>
-                            </SelectItem>
-                            <SelectItem value="standard">
-                              <div className="flex items-center gap-2">
-                                <span>Standard</span>
-                                <Badge variant="outline" className="ml-2 bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600">Balanced</Badge>
-                              </div>
-                            </SelectItem>
-                            <SelectItem value="thorough">
-                              <div className="flex items-center gap-2">
-                                <span>Thorough</span>
-                                <Badge variant="outline" className="ml-2 bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600">Accurate</Badge>
-                              </div>
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          {uploadMethod === 'quick' && "Faster processing but may miss some emails"}
-                          {uploadMethod === 'standard' && "Balanced approach for speed and accuracy"}
-                          {uploadMethod === 'thorough' && "Most thorough search but takes longer to process"}
-                        </p>
-                      </div>
-                      
                       <div className="flex items-center justify-between">
                         <div className="space-y-0.5">
                           <Label htmlFor="auto-process">Auto Process</Label>
@@ -498,7 +570,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                     ref={fileInputRef}
                     id="file-upload"
                     type="file"
-                    accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+                    accept={BULK_FILE_ACCEPT}
                     onChange={handleFileChange}
                     className="hidden"
                   />
@@ -525,7 +597,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                             Drag & drop your file here
                           </h3>
                           <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm mx-auto">
-                            Upload CSV or Excel file with firstName, lastName, linkedin, and companyName columns
+                            Upload a {BULK_FILE_FORMAT_NAMES} file with any of first name, last name, LinkedIn URL, company and company domain columns. Each row is searched with the fields it has; columns are matched by name and can be adjusted after upload
                           </p>
                           
                           <div className="flex flex-wrap gap-2 justify-center mt-4">
@@ -648,7 +720,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                           </motion.div>
                         )}
                         
-                        {uploadProgress > 0 && !uploadSuccess && (
+                        {isLoading && jobProgress && !uploadSuccess && (
                           <div className="w-full max-w-md">
                             <div className="h-2 w-full bg-gray-300 dark:bg-gray-700 rounded-full overflow-hidden">
                               <motion.div
@@ -659,12 +731,21 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                               />
                             </div>
                             <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
-                              <p>{Math.round(uploadProgress)}% complete</p>
+                              <p>
+                                {jobProgress.state === 'queued'
+                                  ? 'Queued...'
+                                  : `${jobProgress.rowsDone} of ${jobProgress.totalRows}${jobProgress.readingFile ? '+' : ''} rows`}
+                              </p>
                               <div className="flex gap-4">
-                                {uploadSpeed && <p>{uploadSpeed}</p>}
-                                {timeRemaining && <p>Est. {timeRemaining} left</p>}
+                                {jobProgress.rowsPerSecond > 0 && <p>{jobProgress.rowsPerSecond} rows/s</p>}
+                                {jobProgress.etaSeconds !== null && <p>Est. {formatDuration(jobProgress.etaSeconds)} left</p>}
                               </div>
                             </div>
+                            <div className="flex gap-4 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              <p>{jobProgress.rowsFound} found</p>
+                              <p>{jobProgress.cacheHits} from cache</p>
+                              {jobProgress.parseErrors > 0 && <p>{jobProgress.parseErrors} unreadable</p>}
+                            </div>
                           </div>
                         )}
                       </motion.div>
@@ -672,6 +753,42 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                   </AnimatePresence>
                 </motion.div>
 
+                {file && sheetNames.length > 1 && !uploadSuccess && (
+                  <div className="space-y-1">
+                    <Label htmlFor="sheet-name" className="text-sm font-medium">Sheet</Label>
+                    <Select
+                      value={sheetName ?? undefined}
+                      onValueChange={(value) => loadPreview(file, value)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger id="sheet-name" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sheetNames.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      This workbook has {sheetNames.length} sheets. Only the chosen sheet is searched
+                    </p>
+                  </div>
+                )}
+
+                {file && fileHeaders.length > 0 && !uploadSuccess && (
+                  <ColumnMappingWizard
+                    headers={fileHeaders}
+                    mapping={columnMapping}
+                    onChange={setColumnMapping}
+                    disabled={isLoading}
+                  />
+                )}
+
+                <EnrichmentFieldPicker selected={enrichmentFields} onChange={setEnrichmentFields} disabled={isLoading} />
+
                 <motion.div
                   variants={itemVariants}
                   initial="hidden"
@@ -681,7 +798,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                     <Button
                       id="submit-button"
                       type="submit"
-                      disabled={isLoading || !file}
+                      disabled={isLoading || !file || mappingIncomplete}
                       className="w-full py-6 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:opacity-90 transition-all duration-300 font-semibold text-lg rounded-xl shadow-lg disabled:opacity-50"
                     >
                       <AnimatePresence mode="wait">
@@ -694,11 +811,7 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                             className="flex items-center justify-center gap-3 w-full"
                           >
                             <Loader2 className="h-5 w-5 animate-spin" />
-                            <span>
-                              {uploadMethod === 'quick' ? 'Quickly Processing...' : 
-                              uploadMethod === 'thorough' ? 'Thoroughly Processing...' : 
-                              'Processing...'}
-                            </span>
+                            <span>Processing...</span>
                           </motion.div>
                         ) : (
                           <motion.div
@@ -713,11 +826,17 @@ export default function BulkUploadForm({ onResults }: BulkUploadFormProps) {
                         )}
                       </AnimatePresence>
                     </Button>
-                    
-                    {file && (
-                      <p className="text-center text-xs text-gray-500 dark:text-gray-400">
-                        Using {uploadMethod === 'quick' ? 'quick' : uploadMethod === 'thorough' ? 'thorough' : 'standard'} processing method
-                      </p>
+
+                    {isLoading && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleCancel}
+                        className="w-full rounded-xl"
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
                     )}
                   </div>
                 </motion.div>
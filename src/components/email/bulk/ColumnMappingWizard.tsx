@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Save, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ColumnMapping,
+  detectColumnMapping,
+  hasMappedSearchField,
+  MAPPABLE_FIELD_LABELS,
+  MAPPABLE_FIELDS,
+  MappableField,
+} from '@/lib/column-mapping';
+
+// Interface for a saved mapping returned by /api/column-presets
+interface ColumnPreset {
+  presetId: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+interface ColumnMappingWizardProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+// Select items cannot have an empty value, so unmapped fields use a placeholder value
+const NOT_MAPPED = '__not_mapped__';
+
+// Lets the user check and adjust which file column feeds each lookup field
+export default function ColumnMappingWizard({ headers, mapping, onChange, disabled }: ColumnMappingWizardProps) {
+  const [presets, setPresets] = useState<ColumnPreset[]>([]);
+  const [loadingPresets, setLoadingPresets] = useState(true);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/column-presets');
+      const data = await response.json();
+      if (response.ok) {
+        setPresets(data.presets || []);
+      } else {
+        console.error('Failed to load column presets:', data.error);
+      }
+    } catch (error) {
+      console.error('Failed to load column presets:', error);
+    } finally {
+      setLoadingPresets(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const setField = (field: MappableField, header: string) => {
+    const next: ColumnMapping = { ...mapping };
+    if (header === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      // A column feeds one field at most
+      for (const other of MAPPABLE_FIELDS) {
+        if (next[other] === header) delete next[other];
+      }
+      next[field] = header;
+    }
+    setSelectedPresetId('');
+    onChange(next);
+  };
+
+  // Apply a preset, keeping only the columns this file has
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find((item) => item.presetId === presetId);
+    if (!preset) return;
+
+    const next: ColumnMapping = {};
+    const skipped: string[] = [];
+    for (const field of MAPPABLE_FIELDS) {
+      const header = preset.mapping[field];
+      if (!header) continue;
+      if (headers.includes(header)) {
+        next[field] = header;
+      } else {
+        skipped.push(header);
+      }
+    }
+
+    setSelectedPresetId(presetId);
+    setPresetName(preset.name);
+    onChange(next);
+    if (skipped.length > 0) {
+      toast.warning(`This file has no ${skipped.join(', ')} column${skipped.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error('Enter a name for the preset.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/column-presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mapping }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save the preset.');
+        return;
+      }
+
+      await loadPresets();
+      setSelectedPresetId(data.preset.presetId);
+      toast.success(`Saved preset "${data.preset.name}"`);
+    } catch (error) {
+      console.error('Error saving column preset:', error);
+      toast.error('Failed to save the preset.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePreset = async () => {
+    const preset = presets.find((item) => item.presetId === selectedPresetId);
+    if (!preset) return;
+
+    try {
+      const response = await fetch(`/api/column-presets/${preset.presetId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete the preset.');
+        return;
+      }
+
+      setPresets((current) => current.filter((item) => item.presetId !== preset.presetId));
+      setSelectedPresetId('');
+      toast.success(`Deleted preset "${preset.name}"`);
+    } catch (error) {
+      console.error('Error deleting column preset:', error);
+      toast.error('Failed to delete the preset.');
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-gray-300 dark:border-gray-700 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Label className="text-sm font-medium">Column mapping</Label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Choose which column of your file holds each field. Rows are searched with the fields they have
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          onClick={() => {
+            setSelectedPresetId('');
+            onChange(detectColumnMapping(headers));
+          }}
+        >
+          <Wand2 className="mr-2 h-4 w-4" />
+          Auto-detect
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {MAPPABLE_FIELDS.map((field) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`mapping-${field}`} className="text-xs font-normal text-gray-600 dark:text-gray-400">
+              {MAPPABLE_FIELD_LABELS[field]}
+            </Label>
+            <Select
+              value={mapping[field] ?? NOT_MAPPED}
+              onValueChange={(value) => setField(field, value)}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`mapping-${field}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                {headers.filter(Boolean).map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {!hasMappedSearchField(mapping) && (
+        <p className="text-xs text-red-600">
+          Map at least one column to continue.
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-gray-300 dark:border-gray-700">
+        <div className="flex gap-2 sm:w-1/2">
+          <Select
+            value={selectedPresetId}
+            onValueChange={applyPreset}
+            disabled={disabled || loadingPresets || presets.length === 0}
+          >
+            <SelectTrigger className="w-full">
+              {loadingPresets ? (
+                <span className="flex items-center gap-2 text-gray-500">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading presets...
+                </span>
+              ) : (
+                <SelectValue placeholder={presets.length === 0 ? 'No saved presets' : 'Apply a saved preset'} />
+              )}
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.presetId} value={preset.presetId}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedPresetId && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={deletePreset}
+              disabled={disabled}
+              className="text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2 sm:w-1/2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            maxLength={80}
+            disabled={disabled || isSaving}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={savePreset}
+            disabled={disabled || isSaving || Object.keys(mapping).length === 0}
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span className="ml-2">Save</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
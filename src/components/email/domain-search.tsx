@@ -0,0 +1,329 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Briefcase, ChevronLeft, ChevronRight, Download, Globe, Loader2, Search } from 'lucide-react';
+import {
+  DomainEmailPattern,
+  DomainSearchPerson,
+  domainSearchToCsv,
+  formatPatternShare,
+} from './domain/types';
+import { downloadCsv } from './download';
+
+// Interface for the search currently shown
+interface DomainSearchState {
+  searchId: string;
+  label: string;
+  page: number;
+  totalPages: number;
+  total: number;
+  emailPattern: DomainEmailPattern | null;
+  // Every page loaded so far, so exports cover more than the visible page
+  pages: Record<number, DomainSearchPerson[]>;
+}
+
+type EmailFilter = 'all' | 'with-email' | 'without-email' | 'main-pattern';
+
+const PAGE_SIZE = 50;
+
+export default function DomainSearchPage() {
+  const [companyDomain, setCompanyDomain] = useState('');
+  const [companyName, setCompanyName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState<DomainSearchState | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [emailFilter, setEmailFilter] = useState<EmailFilter>('all');
+
+  // Load a page of the current search, or start a new search when no search id is given
+  const loadPage = async (page: number, searchId?: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/domain-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          searchId ? { searchId, page } : { companyDomain, companyName, page, pageSize: PAGE_SIZE }
+        ),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Domain search failed.');
+        return;
+      }
+
+      setSearch((prev) => ({
+        searchId: data.searchId,
+        label: data.companyDomain || data.companyName,
+        page: data.page,
+        totalPages: data.totalPages,
+        total: data.total,
+        emailPattern: data.emailPattern,
+        pages: { ...(searchId ? prev?.pages : {}), [data.page]: data.people },
+      }));
+    } catch (err) {
+      console.error('Domain search error:', err);
+      setError('An error occurred during the domain search.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyDomain.trim() && !companyName.trim()) {
+      setError('Please provide a company domain or company name.');
+      return;
+    }
+    setSearch(null);
+    loadPage(1);
+  };
+
+  const goToPage = (page: number) => {
+    if (!search) return;
+    // Pages already loaded are shown without another lookup
+    if (search.pages[page]) {
+      setSearch({ ...search, page });
+    } else {
+      loadPage(page, search.searchId);
+    }
+  };
+
+  const mainPattern = search?.emailPattern?.patterns[0]?.pattern ?? null;
+
+  const matchesFilters = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return (person: DomainSearchPerson) => {
+      if (emailFilter === 'with-email' && !person.email) return false;
+      if (emailFilter === 'without-email' && person.email) return false;
+      if (emailFilter === 'main-pattern' && (!mainPattern || person.emailPattern !== mainPattern)) return false;
+      if (!term) return true;
+      return [person.firstName, person.lastName, person.email, person.linkedinUrl]
+        .some((value) => value?.toLowerCase().includes(term));
+    };
+  }, [searchTerm, emailFilter, mainPattern]);
+
+  const visiblePeople = search ? (search.pages[search.page] || []).filter(matchesFilters) : [];
+
+  const exportLoaded = () => {
+    if (!search) return;
+    const people = Object.keys(search.pages)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .flatMap((page) => search.pages[page])
+      .filter(matchesFilters);
+    if (people.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    downloadCsv(domainSearchToCsv(people), `domain-search-${search.label}-${Date.now()}.csv`);
+    toast.success(`Exported ${people.length} people`);
+  };
+
+  const filterButton = (value: EmailFilter, label: string) => (
+    <Button
+      size="sm"
+      variant={emailFilter === value ? 'default' : 'outline'}
+      onClick={() => setEmailFilter(value)}
+      className="h-8 text-xs"
+      disabled={value === 'main-pattern' && !mainPattern}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+      <Card className="w-full shadow-xl border-gray-200 bg-white dark:bg-gray-900">
+        <CardHeader className="border-b border-gray-200 dark:border-gray-800">
+          <CardTitle className="text-xl font-bold">Domain Search</CardTitle>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            List everyone we know at a company, by email domain or company name.
+          </p>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="domain-search-domain">Company Domain</Label>
+                <div className="relative">
+                  <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="domain-search-domain"
+                    value={companyDomain}
+                    onChange={(e) => setCompanyDomain(e.target.value)}
+                    placeholder="acme.com"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="domain-search-company">Company Name</Label>
+                <div className="relative">
+                  <Briefcase className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="domain-search-company"
+                    value={companyName}
+                    onChange={(e) => setCompanyName(e.target.value)}
+                    placeholder="Acme Inc."
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              When both are given, the domain is used to identify the company.
+            </p>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading && !search ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Searching...
+                </>
+              ) : (
+                <>
+                  <Search className="mr-2 h-4 w-4" />
+                  Search Company
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {search && (
+        <Card className="shadow-lg border-gray-200 dark:border-gray-800">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-800 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">
+                  {search.total} {search.total === 1 ? 'person' : 'people'} at {search.label}
+                </CardTitle>
+                {search.emailPattern ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Email format at {search.emailPattern.domain}:{' '}
+                    {search.emailPattern.patterns
+                      .slice(0, 3)
+                      .map((entry) => `${entry.pattern} (${formatPatternShare(entry.share)})`)
+                      .join(', ')}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No email format could be learned.</p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={exportLoaded} disabled={search.total === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="flex gap-2 flex-wrap">
+                {filterButton('all', 'All')}
+                {filterButton('with-email', 'With email')}
+                {filterButton('without-email', 'Without email')}
+                {filterButton('main-pattern', 'Main format')}
+              </div>
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Filter by name, email or LinkedIn"
+                className="h-8 sm:ml-auto sm:max-w-xs"
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Filters and export apply to the {Object.keys(search.pages).length} page(s) loaded so far.
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>LinkedIn</TableHead>
+                  <TableHead>Business Email</TableHead>
+                  <TableHead className="text-right">Format share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visiblePeople.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-sm text-gray-500 py-8">
+                      {search.total === 0 ? 'Nobody is known at this company.' : 'No people match the filters on this page.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visiblePeople.map((person, index) => (
+                    <TableRow key={`${person.email ?? ''}-${person.linkedinUrl ?? ''}-${index}`}>
+                      <TableCell>
+                        {[person.firstName, person.lastName].filter(Boolean).join(' ') || '—'}
+                        {person.companyName && <div className="text-xs text-gray-500">{person.companyName}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {person.linkedinUrl ? (
+                          <a href={person.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            Profile
+                          </a>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{person.email || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {person.emailPattern ? (
+                          <Badge variant="outline" title={`Uses the ${person.emailPattern} format`}>
+                            {person.emailPattern} · {formatPatternShare(person.patternShare)}
+                          </Badge>
+                        ) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            {search.totalPages > 1 && (
+              <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-800 text-sm">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(search.page - 1)}
+                  disabled={loading || search.page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  {loading ? <Loader2 className="h-4 w-4 animate-spin inline" /> : `Page ${search.page} of ${search.totalPages}`}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(search.page + 1)}
+                  disabled={loading || search.page >= search.totalPages}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,38 @@
+import Papa from 'papaparse';
+
+// Interface for a person returned by the domain search endpoint
+export interface DomainSearchPerson {
+  firstName: string | null;
+  lastName: string | null;
+  linkedinUrl: string | null;
+  companyName: string | null;
+  email: string | null;
+  emailPattern: string | null;
+  // Share of the company's known addresses using the same format, from 0 to 1
+  patternShare: number | null;
+}
+
+// Interface for the email format learned for the searched company
+export interface DomainEmailPattern {
+  domain: string;
+  sampleSize: number;
+  patterns: { pattern: string; count: number; share: number }[];
+}
+
+// Format a pattern share for display, e.g. 0.756 -> "76%"
+export function formatPatternShare(share: number | null): string {
+  return share === null ? '' : `${Math.round(share * 100)}%`;
+}
+
+// Build the CSV export of a domain search
+export function domainSearchToCsv(people: DomainSearchPerson[]): string {
+  return Papa.unparse(people.map((person) => ({
+    firstName: person.firstName ?? '',
+    lastName: person.lastName ?? '',
+    companyName: person.companyName ?? '',
+    linkedin: person.linkedinUrl ?? '',
+    businessEmail: person.email ?? '',
+    emailPattern: person.emailPattern ?? '',
+    patternShare: formatPatternShare(person.patternShare),
+  })));
+}
@@ -0,0 +1,35 @@
+// Save a file in the browser
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Save a CSV file in the browser
+export function downloadCsv(csv: string, fileName: string): void {
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), fileName);
+}
+
+// Fetch a file from an API route and save it under the name the route gives it.
+// Throws with the route's error message when it fails; returns the response
+// headers for routes that report more about the file.
+export async function downloadFromApi(url: string, fallbackName: string): Promise<Headers> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  const fileName = encodedName
+    ? decodeURIComponent(encodedName)
+    : disposition.match(/filename="([^"]+)"/i)?.[1] || fallbackName;
+  downloadBlob(await response.blob(), fileName);
+  return response.headers;
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Copy, Globe, Loader2, ShieldCheck, User } from 'lucide-react';
+
+type Deliverability = 'known' | 'accepts-mail' | 'undeliverable';
+
+// Interface for one generated address returned by the permutations endpoint
+interface PermutationResult {
+  email: string;
+  pattern: string;
+  deliverability: Deliverability;
+  roleBased: boolean;
+  patternShare: number;
+}
+
+// Interface for the permutations endpoint response
+interface PermutationResponse {
+  domain: string;
+  mxRecords: boolean;
+  disposable: boolean;
+  emailPattern: { domain: string; sampleSize: number } | null;
+  permutations: PermutationResult[];
+}
+
+const DELIVERABILITY_LABELS: Record<Deliverability, string> = {
+  known: 'Known address',
+  'accepts-mail': 'Domain accepts mail',
+  undeliverable: 'Undeliverable',
+};
+
+const DELIVERABILITY_CLASSES: Record<Deliverability, string> = {
+  known: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300',
+  'accepts-mail': 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/50 dark:border-amber-700 dark:text-amber-300',
+  undeliverable: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-900/50 dark:border-red-700 dark:text-red-300',
+};
+
+export default function EmailPermutationsPage() {
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [domain, setDomain] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<PermutationResponse | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!firstName.trim() || !lastName.trim() || !domain.trim()) {
+      setError('Please provide a first name, last name and domain.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/email-permutations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ firstName, lastName, domain }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult(data);
+      } else {
+        setError(data.error || 'Failed to check permutations.');
+      }
+    } catch (err) {
+      console.error('Permutation check error:', err);
+      setError('An error occurred while checking permutations.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success(`Copied ${text}`);
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+      <Card className="w-full shadow-xl border-gray-200 bg-white dark:bg-gray-900">
+        <CardHeader className="border-b border-gray-200 dark:border-gray-800">
+          <CardTitle className="text-xl font-bold">Email Permutations</CardTitle>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Generate every common address format for a person and check which ones can receive mail, without emailing anyone.
+          </p>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="permutation-first-name">First Name</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="permutation-first-name"
+                    value={firstName}
+                    onChange={(e) => setFirstName(e.target.value)}
+                    placeholder="Jane"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="permutation-last-name">Last Name</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="permutation-last-name"
+                    value={lastName}
+                    onChange={(e) => setLastName(e.target.value)}
+                    placeholder="Doe"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="permutation-domain">Domain</Label>
+              <div className="relative">
+                <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="permutation-domain"
+                  value={domain}
+                  onChange={(e) => setDomain(e.target.value)}
+                  placeholder="acme.io"
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Checking permutations...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Generate & Check
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-lg border-gray-200 dark:border-gray-800">
+          <CardContent className="pt-6 space-y-4">
+            <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+              <p>
+                {result.permutations.length} addresses at {result.domain}, ranked by deliverability
+                {result.emailPattern
+                  ? ` and by the format of ${result.emailPattern.sampleSize} known address${result.emailPattern.sampleSize === 1 ? '' : 'es'}.`
+                  : '. No known addresses at this domain, so formats keep their usual order.'}
+              </p>
+              {!result.mxRecords && (
+                <p className="text-red-600 dark:text-red-400">This domain does not have valid mail servers.</p>
+              )}
+              {result.disposable && (
+                <p className="text-red-600 dark:text-red-400">This is a disposable email domain.</p>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Deliverability</TableHead>
+                  <TableHead className="text-right">Known use</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.permutations.map((permutation) => (
+                  <TableRow key={permutation.email}>
+                    <TableCell className="font-mono text-sm">
+                      {permutation.email}
+                      {permutation.roleBased && (
+                        <div className="font-sans text-xs text-amber-700 dark:text-amber-400">Looks like a role address</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{permutation.pattern}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={DELIVERABILITY_CLASSES[permutation.deliverability]}>
+                        {DELIVERABILITY_LABELS[permutation.deliverability]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {permutation.patternShare > 0 ? `${Math.round(permutation.patternShare * 100)}%` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => copyToClipboard(permutation.email)}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">Copy</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </motion.div>
+  );
+}
@@ -3,14 +3,47 @@
 import { useState } from 'react';
 import EmailSearchForm from './single/EmailSearchForm';
 import EmailResults from './single/EmailResults';
+import { EMPTY_SEARCH_RESULT, SingleSearchResult } from './single/types';
 
 export default function HomePage() {
-  const [searchResult, setSearchResult] = useState({
-    email: '',
-    personalEmails: [] as string[],
-    error: '',
-    success: false,
-  });
+  const [searchResult, setSearchResult] = useState<SingleSearchResult>(EMPTY_SEARCH_RESULT);
+  const [selectingCandidate, setSelectingCandidate] = useState<number | null>(null);
+
+  // Save the picked candidate to the search history entry, then show its emails
+  const selectCandidate = async (index: number) => {
+    if (!searchResult.searchId) return;
+    setSelectingCandidate(index);
+
+    try {
+      const response = await fetch(`/api/single-result/${encodeURIComponent(searchResult.searchId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selectedCandidate: index }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        console.error('Error saving candidate selection:', data.error);
+        return;
+      }
+
+      const candidate = searchResult.candidates[index];
+      setSearchResult((prev) => ({
+        ...prev,
+        email: candidate.email || '',
+        personalEmails: candidate.personalEmails || [],
+        matchTier: candidate.matchTier,
+        matchedCriteria: candidate.matchedCriteria,
+        nameMatches: candidate.nameMatches || {},
+        enrichment: candidate.enrichment ?? null,
+        selectedCandidate: index,
+      }));
+    } catch (error) {
+      console.error('Error saving candidate selection:', error);
+    } finally {
+      setSelectingCandidate(null);
+    }
+  };
 
   return (
     <div className="space-y-4">
@@ -20,7 +53,18 @@ export default function HomePage() {
         personalEmails={searchResult.personalEmails}
         error={searchResult.error}
         success={searchResult.success}
+        matchTier={searchResult.matchTier}
+        matchedCriteria={searchResult.matchedCriteria}
+        nameMatches={searchResult.nameMatches}
+        enrichment={searchResult.enrichment}
+        companyDomains={searchResult.companyDomains}
+        inferredEmails={searchResult.inferredEmails}
+        emailPattern={searchResult.emailPattern}
+        candidates={searchResult.candidates}
+        selectedCandidate={searchResult.selectedCandidate}
+        selectingCandidate={selectingCandidate}
+        onSelectCandidate={selectCandidate}
       />
     </div>
   );
-}
\ No newline at end of file
+}
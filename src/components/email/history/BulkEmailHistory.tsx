@@ -4,12 +4,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { FileSpreadsheet, ArrowLeft, RefreshCw, Loader2 } from 'lucide-react';
+import { FileSpreadsheet, ArrowLeft, RefreshCw, Loader2, Download, ChevronLeft, ChevronRight } from 'lucide-react';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { downloadFromApi } from '../download';
+import ExportDialog from '../ExportDialog';
 
 // Define interfaces
 interface BulkEmailItem {
@@ -18,20 +20,28 @@ interface BulkEmailItem {
   fileName: string;
   recordCount: number;
   successCount?: number;
+  searchType?: 'person' | 'reverse';
   lastModified?: Date;
   timestamp?: string;
   results?: BulkResultRecord[];
 }
 
 interface BulkResultRecord {
-  firstName: string;
-  lastName: string;
-  linkedin: string;
-  companyName: string;
+  firstName?: string;
+  lastName?: string;
+  linkedin?: string;
+  companyName?: string;
   foundEmail: string | null;
   personalEmails?: string[];
+  // Why the row was not looked up
+  skipReason?: string | null;
+  // Address looked up by a reverse lookup
+  lookupEmail?: string;
 }
 
+// Number of result rows shown per page of a search's details
+const DETAILS_PAGE_SIZE = 100;
+
 // Animation variants
 const containerVariants = {
   hidden: { opacity: 0, scale: 0.98 },
@@ -73,6 +83,13 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
   const [selectedBulkSearch, setSelectedBulkSearch] = useState<string | null>(null);
   const [bulkSearchDetails, setBulkSearchDetails] = useState<BulkResultRecord[] | null>(null);
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  // Page of the selected search's results shown, read from the server a page at a time
+  const [detailsPage, setDetailsPage] = useState(1);
+  const [detailsTotalPages, setDetailsTotalPages] = useState(1);
+  const [isDownloading, setIsDownloading] = useState(false);
+  // Columns the selected search can be exported with
+  const [exportColumns, setExportColumns] = useState<string[]>([]);
+  const [hasSourceFile, setHasSourceFile] = useState(false);
 
   const fetchBulkSearchHistory = useCallback(
     async (showRefreshIndicator = false) => {
@@ -110,15 +127,19 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
     [user, onError]
   );
 
-  const fetchBulkSearchDetails = async (searchId: string) => {
+  const fetchBulkSearchDetails = async (searchId: string, page = 1) => {
     setIsLoadingDetails(true);
     try {
-      const response = await fetch(`/api/bulk-result/${searchId}`);
+      const response = await fetch(`/api/bulk-result/${searchId}?page=${page}&pageSize=${DETAILS_PAGE_SIZE}`);
       if (!response.ok) {
         throw new Error(`Error: ${response.status} ${response.statusText}`);
       }
       const data = await response.json();
       setBulkSearchDetails(data.results || []);
+      setDetailsPage(data.page ?? page);
+      setDetailsTotalPages(data.totalPages ?? 1);
+      setExportColumns(data.exportColumns || []);
+      setHasSourceFile(!!data.hasSourceFile);
       setSelectedBulkSearch(searchId);
     } catch (err) {
       console.error('Failed to fetch bulk search details:', err);
@@ -128,6 +149,19 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
     }
   };
 
+  // Download the uploaded file with the lookup results appended to each row
+  const downloadEnrichedFile = async (searchId: string) => {
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(`/api/bulk-result/${searchId}/enriched`, `enriched-${searchId}`);
+    } catch (err) {
+      console.error('Failed to download enriched file:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to download the enriched file.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   useEffect(() => {
     fetchBulkSearchHistory();
   }, [fetchBulkSearchHistory]);
@@ -250,9 +284,31 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
               <ArrowLeft className="h-4 w-4" />
               Back to List
             </Button>
-            <div className="text-sm text-muted-foreground">
-              {selectedSearch?.fileName} • Searched on:{' '}
-              {formatDate(selectedSearch?.timestamp ? new Date(selectedSearch.timestamp) : selectedSearch?.lastModified)}
+            <div className="flex items-center gap-3">
+              <div className="text-sm text-muted-foreground">
+                {selectedSearch?.fileName} • Searched on:{' '}
+                {formatDate(selectedSearch?.timestamp ? new Date(selectedSearch.timestamp) : selectedSearch?.lastModified)}
+              </div>
+              {selectedSearch && (
+                <ExportDialog
+                  exportUrl={`/api/bulk-result/${selectedSearch.searchId}/export`}
+                  columns={exportColumns}
+                  fallbackName={`email-results-${selectedSearch.searchId}`}
+                  allowProfiles
+                />
+              )}
+              {selectedSearch && hasSourceFile && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadEnrichedFile(selectedSearch.searchId)}
+                  disabled={isDownloading}
+                  className="flex items-center gap-1"
+                >
+                  {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Enriched File
+                </Button>
+              )}
             </div>
           </div>
 
@@ -305,7 +361,12 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
                   bulkSearchDetails.map((record, index) => (
                     <TableRow key={index}>
                       <TableCell className="font-medium">
-                        {record.firstName} {record.lastName}
+                        {record.firstName || record.lastName
+                          ? `${record.firstName || ''} ${record.lastName || ''}`
+                          : record.linkedin}
+                        {record.lookupEmail && (
+                          <div className="text-xs font-normal text-muted-foreground">{record.lookupEmail}</div>
+                        )}
                       </TableCell>
                       <TableCell>{record.companyName}</TableCell>
                       <TableCell>
@@ -337,6 +398,8 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
                               </div>
                             )}
                           </div>
+                        ) : record.skipReason ? (
+                          <span className="text-muted-foreground text-xs" title={record.skipReason}>Skipped</span>
                         ) : (
                           <span className="text-muted-foreground text-xs">Not found</span>
                         )}
@@ -353,6 +416,30 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
               </TableBody>
             </Table>
           </div>
+
+          {detailsTotalPages > 1 && (
+            <div className="mt-3 flex items-center justify-end gap-2 text-sm text-muted-foreground">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchBulkSearchDetails(selectedBulkSearch, detailsPage - 1)}
+                disabled={detailsPage <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                Page {detailsPage} of {detailsTotalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchBulkSearchDetails(selectedBulkSearch, detailsPage + 1)}
+                disabled={detailsPage >= detailsTotalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       );
     }
@@ -374,7 +461,12 @@ export default function BulkEmailHistory({ onError }: BulkEmailHistoryProps) {
             <TableBody>
               {bulkSearchHistory.map((item) => (
                 <TableRow key={item.searchId}>
-                  <TableCell className="font-medium">{item.fileName}</TableCell>
+                  <TableCell className="font-medium">
+                    {item.fileName}
+                    {item.searchType === 'reverse' && (
+                      <div className="text-xs font-normal text-muted-foreground">Reverse lookup</div>
+                    )}
+                  </TableCell>
                   <TableCell>{item.recordCount} records</TableCell>
                   <TableCell>
                     {item.successCount !== undefined ? (
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '@clerk/nextjs';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { domainSearchToCsv } from '../domain/types';
+import { downloadCsv } from '../download';
+
+// Define interfaces
+interface DomainSearchItem {
+  key: string;
+  searchId: string;
+  companyDomain?: string;
+  companyName?: string;
+  total: number;
+  peopleLoaded: number;
+  lastModified?: Date;
+  timestamp?: Date;
+}
+
+interface DomainSearchHistoryProps {
+  onError: (error: string | null) => void;
+}
+
+export default function DomainSearchHistory({ onError }: DomainSearchHistoryProps) {
+  const { user } = useUser();
+  const [history, setHistory] = useState<DomainSearchItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [busySearch, setBusySearch] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(
+    async (showRefreshIndicator = false) => {
+      if (!user) return;
+
+      if (showRefreshIndicator) {
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+      }
+      onError(null);
+
+      try {
+        const response = await fetch('/api/list-domain-results');
+        if (!response.ok) {
+          throw new Error(`Error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        setHistory(data.results || []);
+        if (showRefreshIndicator) {
+          toast.success('Domain search history refreshed');
+        }
+      } catch (err) {
+        console.error('Failed to fetch domain search history:', err);
+        onError('Failed to load your domain search history. Please try again later.');
+        if (showRefreshIndicator) {
+          toast.error('Failed to refresh data. Please try again.');
+        }
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [user, onError]
+  );
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Export the people loaded for a stored search
+  const exportSearch = async (item: DomainSearchItem) => {
+    setBusySearch(item.searchId);
+    try {
+      const response = await fetch(`/api/domain-search/${item.searchId}`);
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status} ${response.statusText}`);
+      }
+      const data = await response.json();
+      downloadCsv(
+        domainSearchToCsv(data.people || []),
+        `domain-search-${item.companyDomain || item.companyName || item.searchId}.csv`
+      );
+    } catch (err) {
+      console.error('Failed to export domain search:', err);
+      toast.error('Failed to export domain search.');
+    } finally {
+      setBusySearch(null);
+    }
+  };
+
+  const deleteSearch = async (item: DomainSearchItem) => {
+    setBusySearch(item.searchId);
+    try {
+      const response = await fetch(`/api/domain-search/${item.searchId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status} ${response.statusText}`);
+      }
+      setHistory((prev) => prev.filter((entry) => entry.searchId !== item.searchId));
+      toast.success('Domain search deleted');
+    } catch (err) {
+      console.error('Failed to delete domain search:', err);
+      toast.error('Failed to delete domain search.');
+    } finally {
+      setBusySearch(null);
+    }
+  };
+
+  const formatDate = (dateString?: Date | string) => {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">Domain Search History</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchHistory(true)}
+          disabled={isRefreshing}
+          className={cn('flex items-center gap-1 transition-all', isRefreshing && 'opacity-70 cursor-not-allowed')}
+        >
+          {isRefreshing ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Refreshing...</span>
+            </>
+          ) : (
+            <>
+              <RefreshCw className="h-4 w-4" />
+              <span>Refresh</span>
+            </>
+          )}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No domain searches yet.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>People</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((item) => (
+                <TableRow key={item.key}>
+                  <TableCell>
+                    {item.companyDomain || item.companyName || 'unknown'}
+                    {item.companyDomain && item.companyName && (
+                      <div className="text-xs text-gray-500">{item.companyName}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {item.peopleLoaded} of {item.total} loaded
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(item.timestamp || item.lastModified)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => exportSearch(item)}
+                      disabled={busySearch === item.searchId || item.peopleLoaded === 0}
+                    >
+                      <Download className="h-4 w-4" />
+                      <span className="sr-only">Export</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteSearch(item)}
+                      disabled={busySearch === item.searchId}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,11 @@ import { toast } from 'sonner';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { filterToSearchParams, matchesSingleHistoryFilter, SingleHistoryFilter } from '@/lib/result-export';
+import ExportDialog from '../ExportDialog';
 
 // Define interfaces
 interface SingleEmailItem {
@@ -18,9 +22,12 @@ interface SingleEmailItem {
   firstName: string;
   lastName: string;
   companyName: string;
+  companyDomain?: string;
   linkedin?: string;
   email?: string;
   personalEmails?: string[];
+  searchType?: 'person' | 'reverse';
+  lookupEmail?: string;
   lastModified?: Date;
   timestamp?: Date;
 }
@@ -95,6 +102,33 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
   const [selectedSingleSearch, setSelectedSingleSearch] = useState<string | null>(null);
   const [singleSearchDetails, setSingleSearchDetails] = useState<SingleEmailItem | null>(null);
   const [isLoadingSingleDetails, setIsLoadingSingleDetails] = useState(false);
+  // Columns the history can be exported with
+  const [exportColumns, setExportColumns] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [searchType, setSearchType] = useState<SingleHistoryFilter['searchType']>('all');
+  const [status, setStatus] = useState<SingleHistoryFilter['status']>('all');
+  // Days picked in the date inputs, as YYYY-MM-DD
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  // Days cover the whole day in the user's time zone
+  const filter: SingleHistoryFilter = {
+    query,
+    searchType,
+    status,
+    from: fromDay ? new Date(`${fromDay}T00:00:00`).toISOString() : '',
+    to: toDay ? new Date(`${toDay}T23:59:59.999`).toISOString() : '',
+  };
+  const filteredHistory = singleSearchHistory.filter((item) => matchesSingleHistoryFilter(item, filter));
+  const isFiltered = !!(query.trim() || searchType !== 'all' || status !== 'all' || fromDay || toDay);
+
+  const clearFilter = () => {
+    setQuery('');
+    setSearchType('all');
+    setStatus('all');
+    setFromDay('');
+    setToDay('');
+  };
 
   const fetchSingleSearchHistory = useCallback(
     async (showRefreshIndicator = false) => {
@@ -115,6 +149,7 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
 
         const data = await response.json();
         setSingleSearchHistory(data.results || []);
+        setExportColumns(data.exportColumns || []);
         if (showRefreshIndicator) {
           toast.success('Single email history refreshed');
         }
@@ -206,25 +241,33 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
     const headerSection = (
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-medium">Email Search History</h3>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => fetchSingleSearchHistory(true)}
-          disabled={isRefreshing}
-          className={cn('flex items-center gap-1 transition-all', isRefreshing && 'opacity-70 cursor-not-allowed')}
-        >
-          {isRefreshing ? (
-            <>
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Refreshing...</span>
-            </>
-          ) : (
-            <>
-              <RefreshCw className="h-4 w-4" />
-              <span>Refresh</span>
-            </>
-          )}
-        </Button>
+        <div className="flex items-center gap-2">
+          <ExportDialog
+            exportUrl={`/api/list-single-results/export?${filterToSearchParams(filter)}`}
+            columns={exportColumns}
+            fallbackName="search-history"
+            disabled={filteredHistory.length === 0}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchSingleSearchHistory(true)}
+            disabled={isRefreshing}
+            className={cn('flex items-center gap-1 transition-all', isRefreshing && 'opacity-70 cursor-not-allowed')}
+          >
+            {isRefreshing ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>Refreshing...</span>
+              </>
+            ) : (
+              <>
+                <RefreshCw className="h-4 w-4" />
+                <span>Refresh</span>
+              </>
+            )}
+          </Button>
+        </div>
       </div>
     );
 
@@ -383,9 +426,67 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
       );
     }
 
+    const filterSection = (
+      <motion.div variants={itemVariants} className="flex flex-wrap items-end gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search name, company or email"
+          className="w-full sm:w-64"
+        />
+        <Select value={searchType} onValueChange={(value) => setSearchType(value as SingleHistoryFilter['searchType'])}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All searches</SelectItem>
+            <SelectItem value="person">Person searches</SelectItem>
+            <SelectItem value="reverse">Reverse lookups</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={(value) => setStatus(value as SingleHistoryFilter['status'])}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any result</SelectItem>
+            <SelectItem value="found">Email found</SelectItem>
+            <SelectItem value="not-found">Not found</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={fromDay}
+          max={toDay || undefined}
+          onChange={(e) => setFromDay(e.target.value)}
+          aria-label="Searched from"
+          className="w-[150px]"
+        />
+        <Input
+          type="date"
+          value={toDay}
+          min={fromDay || undefined}
+          onChange={(e) => setToDay(e.target.value)}
+          aria-label="Searched until"
+          className="w-[150px]"
+        />
+        {isFiltered && (
+          <Button variant="ghost" size="sm" onClick={clearFilter}>
+            Clear
+          </Button>
+        )}
+      </motion.div>
+    );
+
     return (
       <motion.div initial="hidden" animate="visible" variants={containerVariants} className="space-y-4">
         {headerSection}
+        {filterSection}
+        {isFiltered && (
+          <p className="text-xs text-muted-foreground">
+            Showing {filteredHistory.length} of {singleSearchHistory.length} searches
+          </p>
+        )}
         <motion.div variants={itemVariants} className="overflow-x-auto border rounded-md">
           <Table>
             <TableHeader>
@@ -399,7 +500,14 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
             </TableHeader>
             <TableBody>
               <AnimatePresence>
-                {singleSearchHistory.map((item, i) => (
+                {filteredHistory.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                      No searches match the filter.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {filteredHistory.map((item, i) => (
                   <motion.tr
                     key={item.searchId}
                     custom={i}
@@ -411,6 +519,9 @@ export default function SingleEmailHistory({ onError }: SingleEmailHistoryProps)
                   >
                     <TableCell className="font-medium">
                       {item.firstName} {item.lastName}
+                      {item.searchType === 'reverse' && (
+                        <div className="text-xs font-normal text-muted-foreground">Reverse lookup of {item.lookupEmail}</div>
+                      )}
                     </TableCell>
                     <TableCell className="hidden md:table-cell">{item.companyName}</TableCell>
                     <TableCell>
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Download, FileSpreadsheet, Loader2, Mail, UserSearch } from 'lucide-react';
+import { downloadCsv } from './download';
+
+// Interface for the person found for a looked-up address
+interface ReverseLookupResult {
+  lookupEmail: string;
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  companyWebsite?: string;
+  linkedin?: string;
+  email?: string;
+  personalEmails: string[];
+  matchedOn: 'business' | 'personal' | null;
+  error?: string | null;
+}
+
+// Interface for a bulk reverse lookup response
+interface BulkReverseLookupResponse {
+  searchId: string;
+  fileName: string;
+  recordCount: number;
+  successCount: number;
+  results: ReverseLookupResult[];
+}
+
+const MATCHED_ON_LABELS = {
+  business: 'Business email',
+  personal: 'Personal email',
+};
+
+export default function ReverseLookupPage() {
+  const [email, setEmail] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<ReverseLookupResult | null>(null);
+  const [bulkResult, setBulkResult] = useState<BulkReverseLookupResponse | null>(null);
+
+  const lookUpEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      setError('Please enter an email address.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/reverse-lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult(data);
+      } else {
+        setError(data.error || 'Reverse lookup failed.');
+      }
+    } catch (err) {
+      console.error('Reverse lookup error:', err);
+      setError('An error occurred during the reverse lookup.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const lookUpFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setError('Please choose a CSV file of email addresses.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setBulkResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/reverse-lookup', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (response.ok) {
+        setBulkResult(data);
+        toast.success(`Found ${data.successCount} of ${data.recordCount} people`);
+      } else {
+        setError(data.error || 'Bulk reverse lookup failed.');
+      }
+    } catch (err) {
+      console.error('Bulk reverse lookup error:', err);
+      setError('An error occurred during the bulk reverse lookup.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadResults = () => {
+    if (!bulkResult) return;
+    const csv = Papa.unparse(bulkResult.results.map((row) => ({
+      email: row.lookupEmail,
+      firstName: row.firstName ?? '',
+      lastName: row.lastName ?? '',
+      companyName: row.companyName ?? '',
+      companyWebsite: row.companyWebsite ?? '',
+      linkedin: row.linkedin ?? '',
+      businessEmail: row.email ?? '',
+      personalEmails: row.personalEmails.join('; '),
+      matchedOn: row.matchedOn ?? '',
+      error: row.error ?? '',
+    })));
+    downloadCsv(csv, `reverse-lookup-${Date.now()}.csv`);
+  };
+
+  const personName = (row: ReverseLookupResult) => [row.firstName, row.lastName].filter(Boolean).join(' ');
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+      <Card className="w-full shadow-xl border-gray-200 bg-white dark:bg-gray-900">
+        <CardHeader className="border-b border-gray-200 dark:border-gray-800">
+          <CardTitle className="text-xl font-bold">Reverse Lookup</CardTitle>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Find who an email address belongs to, from business and personal emails.
+          </p>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <form onSubmit={lookUpEmail} className="space-y-2">
+            <Label htmlFor="reverse-lookup-email">Email Address</Label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="reverse-lookup-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="jane.doe@acme.io"
+                  className="pl-9"
+                />
+              </div>
+              <Button type="submit" disabled={loading}>
+                {loading && !file ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserSearch className="h-4 w-4" />}
+                <span className="ml-2">Look Up</span>
+              </Button>
+            </div>
+          </form>
+
+          <form onSubmit={lookUpFile} className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+            <Label htmlFor="reverse-lookup-file">Bulk: CSV of email addresses</Label>
+            <div className="flex gap-2">
+              <Input
+                id="reverse-lookup-file"
+                type="file"
+                accept=".csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="flex-1"
+              />
+              <Button type="submit" variant="outline" disabled={loading || !file}>
+                {loading && file ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+                <span className="ml-2">Look Up File</span>
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Use an &quot;email&quot; column, or one address per line. Up to 1,000 addresses per file.
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-lg border-gray-200 dark:border-gray-800">
+          <CardContent className="pt-6">
+            {result.matchedOn ? (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-bold">{personName(result) || 'Unnamed person'}</h3>
+                  <Badge variant="outline">Matched on {MATCHED_ON_LABELS[result.matchedOn]}</Badge>
+                </div>
+                {result.companyName && <p className="text-sm">{result.companyName}</p>}
+                {result.linkedin && (
+                  <a href={result.linkedin} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline">
+                    {result.linkedin}
+                  </a>
+                )}
+                {result.email && result.email.toLowerCase() !== result.lookupEmail && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Business email: <span className="font-mono">{result.email}</span>
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No person found with {result.lookupEmail}.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {bulkResult && (
+        <Card className="shadow-lg border-gray-200 dark:border-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between border-b border-gray-200 dark:border-gray-800">
+            <CardTitle className="text-lg">
+              {bulkResult.successCount} of {bulkResult.recordCount} addresses matched
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={downloadResults}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>LinkedIn</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bulkResult.results.map((row, index) => (
+                  <TableRow key={`${row.lookupEmail}-${index}`}>
+                    <TableCell className="font-mono text-sm">
+                      {row.lookupEmail}
+                      {row.matchedOn && (
+                        <div className="font-sans text-xs text-gray-500">{MATCHED_ON_LABELS[row.matchedOn]}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.matchedOn ? personName(row) || '—' : <span className="text-xs text-gray-400">{row.error}</span>}
+                    </TableCell>
+                    <TableCell>{row.companyName || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.linkedin ? (
+                        <a href={row.linkedin} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          Profile
+                        </a>
+                      ) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </motion.div>
+  );
+}
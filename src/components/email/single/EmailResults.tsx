@@ -5,18 +5,58 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardFooter, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Loader2, Copy, Mail, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { Loader2, Copy, Mail, CheckCircle, AlertCircle, ExternalLink, Users, Linkedin, Sparkles, IdCard } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  CompanyDomain,
+  describeNameMatch,
+  EmailCandidate,
+  EmailPatternStats,
+  EnrichmentValues,
+  formatFieldLabel,
+  InferredEmail,
+  MATCH_CRITERION_LABELS,
+  MATCH_TIER_LABELS,
+  MatchTier,
+  NameMatches,
+} from './types';
 
 interface EmailResultsProps {
   email: string;
   personalEmails: string[];
   error: string;
   success: boolean;
+  matchTier: MatchTier | null;
+  matchedCriteria: string[];
+  nameMatches: NameMatches;
+  enrichment: EnrichmentValues | null;
+  companyDomains: CompanyDomain[];
+  inferredEmails: InferredEmail[];
+  emailPattern: EmailPatternStats | null;
+  candidates: EmailCandidate[];
+  selectedCandidate: number | null;
+  selectingCandidate: number | null;
+  onSelectCandidate: (index: number) => void;
 }
 
-export default function EmailResults({ email, personalEmails, error, success }: EmailResultsProps) {
+export default function EmailResults({
+  email,
+  personalEmails,
+  error,
+  success,
+  matchTier,
+  matchedCriteria,
+  nameMatches,
+  enrichment,
+  companyDomains,
+  inferredEmails,
+  emailPattern,
+  candidates,
+  selectedCandidate,
+  selectingCandidate,
+  onSelectCandidate,
+}: EmailResultsProps) {
   const [verifying, setVerifying] = useState(false);
   const [verified, setVerified] = useState(false);
   const [verificationMessage, setVerificationMessage] = useState('');
@@ -112,6 +152,21 @@ export default function EmailResults({ email, personalEmails, error, success }:
     setTimeout(() => setCopiedEmail(null), 2000);
   };
 
+  // Name variants that matched instead of the name as typed
+  const nameVariantNotes = (['firstName', 'lastName'] as const)
+    .map((field) => {
+      const match = nameMatches[field];
+      const description = match ? describeNameMatch(match) : null;
+      return description ? `${MATCH_CRITERION_LABELS[field]} matched ${description}` : null;
+    })
+    .filter((note): note is string => note !== null);
+
+  // Exact matches are shown in green, partial and fallback matches as a warning
+  const matchTierClassName = (tier: MatchTier) =>
+    tier === 'exact-linkedin' || tier === 'exact-name-company'
+      ? 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300'
+      : 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/50 dark:border-amber-700 dark:text-amber-300';
+
   // Enhanced animation variants
   const containerVariants = {
     hidden: { opacity: 0, scale: 0.95 },
@@ -193,6 +248,185 @@ export default function EmailResults({ email, personalEmails, error, success }:
         )}
       </AnimatePresence>
 
+      {success && candidates.length > 1 && (
+        <motion.div variants={resultVariants}>
+          <Card className="border-gray-200 dark:border-gray-800 shadow-lg rounded-2xl overflow-hidden">
+            <CardContent className="pt-6 px-6">
+              <div className="flex items-center gap-3 mb-4">
+                <Users className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">
+                  {candidates.length} people match this search
+                </h3>
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Pick the right person; your choice is saved to your search history.
+              </p>
+
+              <div className="space-y-3">
+                {candidates.map((candidate, index) => {
+                  const isSelected = selectedCandidate === index;
+                  const hasEmail = !!candidate.email || !!candidate.personalEmails?.length;
+
+                  return (
+                    <motion.div
+                      key={index}
+                      variants={itemVariants}
+                      className={`flex items-center justify-between gap-4 p-4 rounded-xl border transition-colors ${
+                        isSelected
+                          ? 'border-green-300 bg-green-50/80 dark:border-green-700 dark:bg-green-900/30'
+                          : 'border-gray-200 bg-white/80 dark:border-gray-800 dark:bg-gray-950/80'
+                      }`}
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900 dark:text-gray-100">
+                            {[candidate.firstName, candidate.lastName].filter(Boolean).join(' ') || 'Unknown name'}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {candidate.score}% match
+                          </Badge>
+                          {candidate.matchTier && (
+                            <Badge variant="outline" className={`text-xs ${matchTierClassName(candidate.matchTier)}`}>
+                              {MATCH_TIER_LABELS[candidate.matchTier]}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                          {candidate.companyName || 'Unknown company'}
+                        </div>
+                        {candidate.linkedinUrl && (
+                          <a
+                            href={candidate.linkedinUrl.startsWith('http') ? candidate.linkedinUrl : `https://${candidate.linkedinUrl}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline dark:text-blue-400"
+                          >
+                            <Linkedin className="h-3 w-3" />
+                            {candidate.linkedinUrl}
+                          </a>
+                        )}
+                        {!hasEmail && (
+                          <div className="text-xs text-gray-400">No email on record</div>
+                        )}
+                      </div>
+
+                      {isSelected ? (
+                        <Badge
+                          variant="outline"
+                          className="shrink-0 bg-green-100 text-green-800 border-green-300 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300"
+                        >
+                          <CheckCircle className="h-3 w-3 mr-1" /> Selected
+                        </Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => onSelectCandidate(index)}
+                          disabled={!hasEmail || selectingCandidate !== null}
+                        >
+                          {selectingCandidate === index ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'This is the person'
+                          )}
+                        </Button>
+                      )}
+                    </motion.div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
+      {success && !email && personalEmails.length === 0 && inferredEmails.length > 0 && (
+        <motion.div variants={resultVariants}>
+          <Card className="border-amber-200 dark:border-amber-800 shadow-lg rounded-2xl overflow-hidden">
+            <CardContent className="pt-6 px-6">
+              <div className="flex items-center gap-3 mb-2">
+                <Sparkles className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">Likely Email Addresses</h3>
+                <Badge
+                  variant="outline"
+                  className="ml-auto bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/50 dark:border-amber-700 dark:text-amber-300"
+                >
+                  Inferred
+                </Badge>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                No record was found for this person. These addresses are guesses based on the email format
+                {emailPattern
+                  ? ` used by ${emailPattern.sampleSize} known address${emailPattern.sampleSize === 1 ? '' : 'es'} at ${emailPattern.domain}`
+                  : ' used at the company'}
+                . Verify an address before using it.
+              </p>
+
+              <div className="space-y-3">
+                {inferredEmails.map((inferred) => (
+                  <motion.div
+                    key={inferred.email}
+                    variants={itemVariants}
+                    className="p-4 rounded-xl border border-gray-200 dark:border-gray-800 space-y-3"
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-mono font-medium text-gray-900 dark:text-gray-100 truncate">{inferred.email}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Format: {inferred.pattern}</div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant="outline">{inferred.confidence}% confidence</Badge>
+                        {verifiedPersonalEmails[inferred.email] && (
+                          <Badge
+                            variant="outline"
+                            className="bg-green-100 text-green-800 border-green-300 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300"
+                          >
+                            <CheckCircle className="h-3 w-3 mr-1" /> Verified
+                          </Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                          onClick={() => copyToClipboard(inferred.email)}
+                        >
+                          <Copy className="h-4 w-4" />
+                          <span className="sr-only">{copiedEmail === inferred.email ? 'Copied!' : 'Copy'}</span>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => verifyPersonalEmail(inferred.email)}
+                          disabled={verifyingPersonalEmails[inferred.email]}
+                        >
+                          {verifyingPersonalEmails[inferred.email] ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Verify'
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                    {personalEmailMessages[inferred.email] && (
+                      <p
+                        className={`text-xs ${
+                          verifiedPersonalEmails[inferred.email]
+                            ? 'text-green-700 dark:text-green-300'
+                            : 'text-amber-700 dark:text-amber-300'
+                        }`}
+                      >
+                        {personalEmailMessages[inferred.email]}
+                      </p>
+                    )}
+                  </motion.div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {(email || personalEmails.length > 0) && success && (
         <motion.div variants={resultVariants}>
           <Card
@@ -216,6 +450,34 @@ export default function EmailResults({ email, personalEmails, error, success }:
                 </Badge>
               </div>
 
+              {matchTier && (
+                <motion.div variants={itemVariants} className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+                  <Badge variant="outline" className={matchTierClassName(matchTier)}>
+                    {MATCH_TIER_LABELS[matchTier]}
+                  </Badge>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {matchedCriteria.length > 0
+                      ? `Matched on ${matchedCriteria.map((criterion) => MATCH_CRITERION_LABELS[criterion] ?? criterion).join(', ')}`
+                      : 'None of the search criteria matched exactly'}
+                  </span>
+                  {nameVariantNotes.map((note) => (
+                    <span key={note} className="w-full text-xs text-gray-500 dark:text-gray-400">
+                      {note}
+                    </span>
+                  ))}
+                  {companyDomains.length > 0 && (
+                    <span className="w-full text-xs text-gray-500 dark:text-gray-400">
+                      Known company email domains: {companyDomains.map((entry) => entry.domain).join(', ')}
+                    </span>
+                  )}
+                  {matchTier === 'fallback' && (
+                    <span className="w-full text-xs text-amber-700 dark:text-amber-400">
+                      Nothing matched all of your criteria, so this result comes from a relaxed search. Double-check it before use.
+                    </span>
+                  )}
+                </motion.div>
+              )}
+
               <div className="space-y-8">
                 {email && (
                   <motion.div variants={itemVariants} className="space-y-4">
@@ -481,6 +743,27 @@ export default function EmailResults({ email, personalEmails, error, success }:
         </motion.div>
       )}
 
+      {success && enrichment && Object.keys(enrichment).length > 0 && (
+        <motion.div variants={resultVariants}>
+          <Card className="border-gray-200 dark:border-gray-800 shadow-lg rounded-2xl overflow-hidden">
+            <CardContent className="pt-6 px-6">
+              <div className="flex items-center gap-3 mb-4">
+                <IdCard className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-200">Profile Details</h3>
+              </div>
+              <dl className="grid gap-x-6 gap-y-3 sm:grid-cols-2">
+                {Object.entries(enrichment).map(([column, value]) => (
+                  <div key={column}>
+                    <dt className="text-xs text-gray-500 dark:text-gray-400">{formatFieldLabel(column)}</dt>
+                    <dd className="text-sm text-gray-900 dark:text-gray-100 break-words">{value || '—'}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       <motion.div variants={itemVariants} className="mt-8 text-center">
         <p className="text-sm text-gray-500 dark:text-gray-400">
           This tool respects privacy and uses only publicly available information.
@@ -12,19 +12,17 @@ import {
   User, 
   Users, 
   Briefcase, 
+  Globe,
   Linkedin,
   CheckCircle,
   ChevronRight
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import EnrichmentFieldPicker from '../EnrichmentFieldPicker';
+import { EMPTY_SEARCH_RESULT, SingleSearchResult } from './types';
 
 interface EmailSearchFormProps {
-  onSearchResult: Dispatch<SetStateAction<{
-    email: string;
-    personalEmails: string[];
-    error: string;
-    success: boolean;
-  }>>;
+  onSearchResult: Dispatch<SetStateAction<SingleSearchResult>>;
 }
 
 export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps) {
@@ -32,11 +30,14 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
   const [lastName, setLastName] = useState('');
   const [linkedin, setLinkedin] = useState('');
   const [companyName, setCompanyName] = useState('');
+  const [companyDomain, setCompanyDomain] = useState('');
   const [loading, setLoading] = useState(false);
   const [useFirstName, setUseFirstName] = useState(true);
   const [useLastName, setUseLastName] = useState(true);
   const [useLinkedin, setUseLinkedin] = useState(true);
   const [useCompanyName, setUseCompanyName] = useState(true);
+  const [useCompanyDomain, setUseCompanyDomain] = useState(false);
+  const [enrichmentFields, setEnrichmentFields] = useState<string[]>([]);
   const [formCompletion, setFormCompletion] = useState(0);
   const [activeField, setActiveField] = useState<string | null>(null);
 
@@ -46,14 +47,16 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
       useFirstName && firstName.trim(),
       useLastName && lastName.trim(),
       useLinkedin && linkedin.trim(),
-      useCompanyName && companyName.trim()
+      useCompanyName && companyName.trim(),
+      useCompanyDomain && companyDomain.trim()
     ].filter(Boolean).length;
     
     const totalFieldsEnabled = [
       useFirstName,
       useLastName,
       useLinkedin,
-      useCompanyName
+      useCompanyName,
+      useCompanyDomain
     ].filter(Boolean).length;
     
     const completion = totalFieldsEnabled > 0 
@@ -61,7 +64,10 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
       : 0;
     
     setFormCompletion(completion);
-  }, [firstName, lastName, linkedin, companyName, useFirstName, useLastName, useLinkedin, useCompanyName]);
+  }, [
+    firstName, lastName, linkedin, companyName, companyDomain,
+    useFirstName, useLastName, useLinkedin, useCompanyName, useCompanyDomain
+  ]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,13 +77,12 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
       (!useFirstName || !firstName.trim()) && 
       (!useLastName || !lastName.trim()) && 
       (!useLinkedin || !linkedin.trim()) && 
-      (!useCompanyName || !companyName.trim())
+      (!useCompanyName || !companyName.trim()) &&
+      (!useCompanyDomain || !companyDomain.trim())
     ) {
       onSearchResult({
-        email: '',
-        personalEmails: [],
+        ...EMPTY_SEARCH_RESULT,
         error: 'Please provide at least one search parameter.',
-        success: false,
       });
       return;
     }
@@ -95,10 +100,13 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
           lastName,
           linkedin,
           companyName,
+          companyDomain,
           useFirstName,
           useLastName,
           useLinkedin,
           useCompanyName,
+          useCompanyDomain,
+          enrichmentFields,
         }),
       });
       
@@ -110,22 +118,28 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
           personalEmails: data.personalEmails || [],
           error: '',
           success: true,
+          searchId: data.searchId || '',
+          matchTier: data.matchTier ?? null,
+          matchedCriteria: data.matchedCriteria || [],
+          nameMatches: data.nameMatches || {},
+          enrichment: data.enrichment ?? null,
+          companyDomains: data.companyDomains || [],
+          inferredEmails: data.inferredEmails || [],
+          emailPattern: data.emailPattern ?? null,
+          candidates: data.candidates || [],
+          selectedCandidate: data.selectedCandidate ?? null,
         });
       } else {
         onSearchResult({
-          email: '',
-          personalEmails: [],
+          ...EMPTY_SEARCH_RESULT,
           error: data.error || 'Failed to find email. Please try different search parameters.',
-          success: false,
         });
       }
     } catch (error) {
       console.error('Error finding email:', error);
       onSearchResult({
-        email: '',
-        personalEmails: [],
+        ...EMPTY_SEARCH_RESULT,
         error: 'An unexpected error occurred. Please try again later.',
-        success: false,
       });
     } finally {
       setLoading(false);
@@ -582,6 +596,92 @@ export default function EmailSearchForm({ onSearchResult }: EmailSearchFormProps
                   </motion.div>
                 </AnimatePresence>
               </motion.div>
+
+              {/* Company Domain Field */}
+              <motion.div 
+                className="space-y-3"
+                custom={4}
+                initial="hidden"
+                animate="visible"
+                variants={fieldContainerVariants}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-3">
+                    <motion.div
+                      animate={
+                        activeField === 'companyDomain' ? "active" : 
+                        useCompanyDomain ? "enabled" : "disabled"
+                      }
+                      variants={iconVariants}
+                      className="p-2 rounded-full bg-gray-100 dark:bg-gray-800"
+                    >
+                      <Globe size={20} className="text-black dark:text-white" />
+                    </motion.div>
+                    <Label htmlFor="companyDomain" className="font-semibold text-black dark:text-white">
+                      Company Domain
+                    </Label>
+                  </div>
+                  <motion.div 
+                    className="flex items-center gap-2"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <Label htmlFor="useCompanyDomain" className="text-xs text-gray-500 dark:text-gray-400">
+                      {useCompanyDomain ? 'Enabled' : 'Disabled'}
+                    </Label>
+                    <Switch
+                      id="useCompanyDomain"
+                      checked={useCompanyDomain}
+                      onCheckedChange={setUseCompanyDomain}
+                      className="data-[state=checked]:bg-black data-[state=unchecked]:bg-gray-300"
+                    />
+                  </motion.div>
+                </div>
+                
+                <AnimatePresence mode="wait">
+                  <motion.div
+                    key={useCompanyDomain ? 'enabled' : 'disabled'}
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ 
+                      opacity: useCompanyDomain ? 1 : 0.5, 
+                      y: 0,
+                    }}
+                    exit={{ opacity: 0, y: 10 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <motion.div
+                      animate={activeField === 'companyDomain' ? 'focused' : 'enabled'}
+                      variants={inputFieldVariants}
+                      className="relative"
+                    >
+                      <Input
+                        type="text"
+                        id="companyDomain"
+                        value={companyDomain}
+                        onChange={(e) => setCompanyDomain(e.target.value)}
+                        onFocus={() => setActiveField('companyDomain')}
+                        onBlur={() => setActiveField(null)}
+                        className="w-full transition-all duration-200 border-2 bg-gray-50 dark:bg-gray-800 dark:text-white py-6 px-4 rounded-lg border-gray-200 dark:border-gray-700 focus:border-black dark:focus:border-white"
+                        placeholder="acme.io"
+                        disabled={!useCompanyDomain}
+                      />
+                      {companyDomain && useCompanyDomain && (
+                        <motion.div
+                          initial={{ opacity: 0, scale: 0 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                        >
+                          <CheckCircle size={18} className="text-black dark:text-white" />
+                        </motion.div>
+                      )}
+                    </motion.div>
+                  </motion.div>
+                </AnimatePresence>
+              </motion.div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-800">
+              <EnrichmentFieldPicker selected={enrichmentFields} onChange={setEnrichmentFields} disabled={loading} />
             </div>
           </CardContent>
           
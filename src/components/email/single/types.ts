@@ -0,0 +1,133 @@
+// Shared types for the single email search components
+
+// How a result was matched, from most to least trustworthy
+export type MatchTier = 'exact-linkedin' | 'exact-name-company' | 'prefix' | 'fallback';
+
+// Labels shown for each match tier
+export const MATCH_TIER_LABELS: Record<MatchTier, string> = {
+  'exact-linkedin': 'Exact LinkedIn match',
+  'exact-name-company': 'Exact name & company match',
+  prefix: 'Partial match',
+  fallback: 'Fallback match',
+};
+
+// Labels shown for the search criteria a result matched
+export const MATCH_CRITERION_LABELS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  linkedin: 'LinkedIn',
+  companyName: 'Company',
+  companyDomain: 'Company domain',
+};
+
+// Interface for the spelling of a searched name that matched, e.g. "Bob" matching "Robert"
+export interface NameVariantMatch {
+  searched: string;
+  matched: string;
+  kind: 'exact' | 'folded' | 'transliteration' | 'nickname' | 'prefix';
+}
+
+// Which spelling of each searched name matched
+export type NameMatches = Partial<Record<'firstName' | 'lastName', NameVariantMatch>>;
+
+// Describe a name variant match, or null when the name matched as typed
+export function describeNameMatch(match: NameVariantMatch): string | null {
+  switch (match.kind) {
+    case 'folded':
+      return `"${match.matched}" (accents or case differ from "${match.searched}")`;
+    case 'transliteration':
+      return `"${match.matched}" (alternative spelling of "${match.searched}")`;
+    case 'nickname':
+      return `"${match.matched}" (nickname or full form of "${match.searched}")`;
+    case 'prefix':
+      return `"${match.matched}" (starts with "${match.searched}")`;
+    default:
+      return null;
+  }
+}
+
+// Values of the requested enrichment columns, keyed by column name
+export type EnrichmentValues = Record<string, string | null>;
+
+// Turn an enrichment column name into a label, e.g. "JOB_TITLE" -> "Job Title"
+export function formatFieldLabel(column: string): string {
+  return column
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+// Interface for an email domain the searched company is known to use
+export interface CompanyDomain {
+  domain: string;
+  emailCount: number;
+}
+
+// Interface for an address guessed from the company's email format
+export interface InferredEmail {
+  email: string;
+  pattern: string;
+  domain: string;
+  confidence: number;
+}
+
+// Interface for the email format learned for the company's domain
+export interface EmailPatternStats {
+  domain: string;
+  sampleSize: number;
+  patterns: { pattern: string; count: number; share: number }[];
+}
+
+// Interface for one of the ranked people a search matched
+export interface EmailCandidate {
+  firstName: string | null;
+  lastName: string | null;
+  linkedinUrl: string | null;
+  companyName: string | null;
+  companyWebsite: string | null;
+  email: string | null;
+  personalEmails: string[] | null;
+  matchTier: MatchTier;
+  matchedCriteria: string[];
+  nameMatches: NameMatches;
+  enrichment?: EnrichmentValues;
+  score: number;
+}
+
+// Interface for the result of a single email search
+export interface SingleSearchResult {
+  email: string;
+  personalEmails: string[];
+  error: string;
+  success: boolean;
+  searchId: string;
+  matchTier: MatchTier | null;
+  matchedCriteria: string[];
+  nameMatches: NameMatches;
+  // Requested extra columns of the selected candidate
+  enrichment: EnrichmentValues | null;
+  companyDomains: CompanyDomain[];
+  inferredEmails: InferredEmail[];
+  emailPattern: EmailPatternStats | null;
+  candidates: EmailCandidate[];
+  selectedCandidate: number | null;
+}
+
+// Result shown before any search has run
+export const EMPTY_SEARCH_RESULT: SingleSearchResult = {
+  email: '',
+  personalEmails: [],
+  error: '',
+  success: false,
+  searchId: '',
+  matchTier: null,
+  matchedCriteria: [],
+  nameMatches: {},
+  enrichment: null,
+  companyDomains: [],
+  inferredEmails: [],
+  emailPattern: null,
+  candidates: [],
+  selectedCandidate: null,
+};
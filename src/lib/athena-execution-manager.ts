@@ -0,0 +1,240 @@
+/**
+ * Athena Execution Manager
+ *
+ * Runs Athena queries for every lookup path with the same behaviour:
+ * - the query runs in the configured workgroup and database
+ * - starting is retried with backoff on transient failures
+ * - polling stops at a deadline, and the query is stopped with
+ *   StopQueryExecution so it does not keep scanning (and billing)
+ * - results are read across all NextToken pages
+ * - data scanned and run time are captured for cost reporting, including for
+ *   queries that fail or are stopped, which often cost the most
+ */
+
+import {
+  AthenaClient,
+  GetQueryExecutionCommand,
+  GetQueryResultsCommand,
+  QueryExecution,
+  Row,
+  StartQueryExecutionCommand,
+  StopQueryExecutionCommand,
+} from '@aws-sdk/client-athena';
+import { initAthenaClient } from '@/lib/aws-service';
+import { AthenaQuery } from '@/lib/athena-query-builder';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_BATCH_TIMEOUT_MS = 600000;
+const MAX_START_RETRIES = 3;
+const MAX_POLL_INTERVAL_MS = 5000;
+
+// Interface for execution settings, read from the environment by default
+export interface AthenaExecutionConfig {
+  workGroup?: string;
+  database?: string;
+  outputLocation?: string;
+  // Deadline for single-person lookups
+  timeoutMs: number;
+  // Deadline for set queries resolving a batch of bulk rows
+  batchTimeoutMs: number;
+}
+
+// Interface for the cost figures of a single query execution
+export interface QueryExecutionStats {
+  queryExecutionId: string;
+  dataScannedInBytes: number;
+  engineExecutionTimeMs: number;
+  // Wall-clock time from start request to final state
+  runTimeMs: number;
+}
+
+// Interface for a completed query
+export interface QueryExecutionResult {
+  rows: Row[];
+  stats: QueryExecutionStats;
+}
+
+// Interface for per-call options
+interface ExecuteOptions {
+  // Use the batch deadline instead of the lookup deadline
+  batch?: boolean;
+  // Called with the cost figures of every execution that started, before
+  // execute returns or throws
+  onStats?: (stats: QueryExecutionStats) => void;
+}
+
+// Parse a positive millisecond setting, falling back to a default
+function parseTimeout(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the execution settings from the environment
+ */
+export function getAthenaExecutionConfig(): AthenaExecutionConfig {
+  return {
+    workGroup: process.env.ATHENA_WORKGROUP || undefined,
+    database: process.env.ATHENA_DATABASE || undefined,
+    outputLocation: process.env.ATHENA_OUTPUT_LOCATION || undefined,
+    timeoutMs: parseTimeout(process.env.ATHENA_QUERY_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    batchTimeoutMs: parseTimeout(process.env.ATHENA_BATCH_QUERY_TIMEOUT_MS, DEFAULT_BATCH_TIMEOUT_MS),
+  };
+}
+
+export class AthenaExecutionManager {
+  constructor(
+    private readonly athenaClient: AthenaClient = initAthenaClient(),
+    private readonly config: AthenaExecutionConfig = getAthenaExecutionConfig()
+  ) {}
+
+  /**
+   * Run a query to completion and return all of its rows with its cost figures.
+   * Throws when the query fails, is cancelled or misses its deadline; the
+   * cost figures of such a query still reach `onStats`.
+   */
+  async execute(query: AthenaQuery, options: ExecuteOptions = {}): Promise<QueryExecutionResult> {
+    const startedAt = Date.now();
+    const deadline = startedAt + (options.batch ? this.config.batchTimeoutMs : this.config.timeoutMs);
+    const queryExecutionId = await this.startQuery(query);
+
+    const { execution, timedOut } = await this.waitForCompletion(queryExecutionId, deadline);
+    const stats: QueryExecutionStats = {
+      queryExecutionId,
+      dataScannedInBytes: execution?.Statistics?.DataScannedInBytes ?? 0,
+      engineExecutionTimeMs: execution?.Statistics?.EngineExecutionTimeInMillis ?? 0,
+      runTimeMs: Date.now() - startedAt,
+    };
+    options.onStats?.(stats);
+
+    if (timedOut) {
+      throw new Error(`Athena query ${queryExecutionId} timed out and was stopped`);
+    }
+
+    const state = execution?.Status?.State;
+    if (state !== 'SUCCEEDED') {
+      const reason = execution?.Status?.StateChangeReason;
+      throw new Error(`Athena query ${queryExecutionId} did not succeed (${state ?? 'UNKNOWN'})${reason ? `: ${reason}` : ''}`);
+    }
+
+    return { rows: await this.fetchAllRows(queryExecutionId), stats };
+  }
+
+  /**
+   * Start a query, retrying with backoff on transient failures
+   */
+  private async startQuery(query: AthenaQuery): Promise<string> {
+    let retries = 0;
+
+    while (retries < MAX_START_RETRIES) {
+      try {
+        const startQueryResponse = await this.athenaClient.send(
+          new StartQueryExecutionCommand({
+            QueryString: query.queryString,
+            ExecutionParameters: query.executionParameters.length > 0 ? query.executionParameters : undefined,
+            WorkGroup: this.config.workGroup,
+            QueryExecutionContext: this.config.database ? { Database: this.config.database } : undefined,
+            // Workgroups may enforce their own output location
+            ResultConfiguration: this.config.outputLocation
+              ? { OutputLocation: this.config.outputLocation }
+              : undefined,
+          })
+        );
+
+        if (startQueryResponse.QueryExecutionId) {
+          return startQueryResponse.QueryExecutionId;
+        }
+        retries++;
+      } catch (error) {
+        retries++;
+        console.error(`Athena query attempt ${retries} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+        if (retries >= MAX_START_RETRIES) throw error;
+        // Longer backoff when AWS throttles us
+        const throttled = error instanceof Error && error.name === 'ThrottlingException';
+        await new Promise((resolve) => setTimeout(resolve, (throttled ? 2000 : 1000) * retries));
+      }
+    }
+
+    throw new Error('Query execution failed to start.');
+  }
+
+  /**
+   * Poll until the query leaves QUEUED/RUNNING, stopping it at the deadline.
+   * A stopped query's final state is read once more for its cost figures.
+   */
+  private async waitForCompletion(
+    queryExecutionId: string,
+    deadline: number
+  ): Promise<{ execution: QueryExecution | undefined; timedOut: boolean }> {
+    let execution: QueryExecution | undefined;
+    let pollAttempt = 0;
+
+    while (true) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        await this.stopQuery(queryExecutionId);
+        try {
+          const stoppedResponse = await this.athenaClient.send(
+            new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId })
+          );
+          execution = stoppedResponse.QueryExecution ?? execution;
+        } catch (error) {
+          console.error(`Error reading stopped Athena query ${queryExecutionId}:`, error);
+        }
+        return { execution, timedOut: true };
+      }
+
+      // Exponential backoff, capped, and never sleeping past the deadline
+      const backoffTime = Math.min(250 * Math.pow(2, pollAttempt), MAX_POLL_INTERVAL_MS, remaining);
+      await new Promise((resolve) => setTimeout(resolve, backoffTime));
+      pollAttempt++;
+
+      try {
+        const queryExecutionResponse = await this.athenaClient.send(
+          new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId })
+        );
+        execution = queryExecutionResponse.QueryExecution;
+      } catch (error: unknown) {
+        console.error(`Error polling query status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Continue polling despite errors in status check
+        continue;
+      }
+
+      const state = execution?.Status?.State;
+      if (state !== 'QUEUED' && state !== 'RUNNING') {
+        return { execution, timedOut: false };
+      }
+    }
+  }
+
+  /**
+   * Stop a query; failures are logged because the caller is already failing
+   */
+  private async stopQuery(queryExecutionId: string): Promise<void> {
+    try {
+      await this.athenaClient.send(new StopQueryExecutionCommand({ QueryExecutionId: queryExecutionId }));
+      console.warn(`Stopped Athena query ${queryExecutionId} after its deadline`);
+    } catch (error) {
+      console.error(`Error stopping Athena query ${queryExecutionId}:`, error);
+    }
+  }
+
+  /**
+   * Read every page of a query's results
+   */
+  private async fetchAllRows(queryExecutionId: string): Promise<Row[]> {
+    const rows: Row[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const resultsResponse = await this.athenaClient.send(
+        new GetQueryResultsCommand({ QueryExecutionId: queryExecutionId, NextToken: nextToken })
+      );
+      rows.push(...(resultsResponse.ResultSet?.Rows || []));
+      nextToken = resultsResponse.NextToken;
+    } while (nextToken);
+
+    return rows;
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBatchPersonLookupQuery,
+  buildPersonLookupQuery,
+  buildReverseLookupQuery,
+  escapeLikePattern,
+  escapeRegexPattern,
+  hasSearchCriteria,
+  normalizeLinkedInUrl,
+  SET_ROW_INDEX_COLUMN,
+  toSqlStringLiteral,
+} from './athena-query-builder';
+
+// Number of `?` placeholders in a query, outside its string literals
+function placeholderCount(queryString: string): number {
+  return (queryString.replace(/'(?:[^']|'')*'/g, '').match(/\?/g) ?? []).length;
+}
+
+describe('toSqlStringLiteral', () => {
+  it('doubles single quotes', () => {
+    expect(toSqlStringLiteral("O'Brien")).toBe("'O''Brien'");
+  });
+
+  it('drops control characters', () => {
+    expect(toSqlStringLiteral('a\u0000b\nc\u007f')).toBe("'abc'");
+  });
+});
+
+describe('escapeLikePattern', () => {
+  it('escapes wildcards and the escape character', () => {
+    expect(escapeLikePattern('100%_a\\b')).toBe('100\\%\\_a\\\\b');
+  });
+});
+
+describe('escapeRegexPattern', () => {
+  it('escapes metacharacters', () => {
+    expect(escapeRegexPattern('a.b+c@d.io')).toBe('a\\.b\\+c@d\\.io');
+  });
+});
+
+describe('normalizeLinkedInUrl', () => {
+  it('reduces a profile URL to its username', () => {
+    expect(normalizeLinkedInUrl('https://www.linkedin.com/in/Jane-Doe/?trk=x')).toBe('jane-doe');
+  });
+});
+
+describe('hasSearchCriteria', () => {
+  it('ignores blank names and invalid domains', () => {
+    expect(hasSearchCriteria({ firstName: '  ', companyDomain: 'not a domain' })).toBe(false);
+    expect(hasSearchCriteria({ lastName: 'Doe' })).toBe(true);
+  });
+});
+
+describe('buildPersonLookupQuery', () => {
+  it('returns null without usable criteria', () => {
+    expect(buildPersonLookupQuery({})).toBeNull();
+  });
+
+  it('binds every value as a parameter instead of writing it into the query', () => {
+    const query = buildPersonLookupQuery({
+      firstName: "Robert'; DROP TABLE my_table; --",
+      companyName: 'Acme 100%',
+    });
+
+    expect(query).not.toBeNull();
+    expect(query!.queryString).not.toContain('DROP TABLE');
+    expect(query!.queryString).not.toContain('Acme');
+    expect(placeholderCount(query!.queryString)).toBe(query!.executionParameters.length);
+    expect(query!.executionParameters).toContain("'%acme 100\\%%'");
+  });
+
+  it('binds every spelling of a name', () => {
+    const query = buildPersonLookupQuery({ firstName: 'Bob', lastName: 'Müller' })!;
+    const [firstNameVariants, , lastNameVariants] = query.executionParameters;
+
+    expect(firstNameVariants.slice(1, -1).split('|')).toContain('robert');
+    expect(lastNameVariants.slice(1, -1).split('|')).toEqual(expect.arrayContaining(['muller', 'mueller']));
+  });
+
+  it('rejects columns that are not plain identifiers', () => {
+    expect(() => buildPersonLookupQuery({ lastName: 'Doe' }, { columns: ['EMAIL; --'] })).toThrow('Invalid column name');
+  });
+
+  it('rejects limits that are not positive integers', () => {
+    expect(() => buildPersonLookupQuery({ lastName: 'Doe' }, { limit: 0 })).toThrow('Invalid query limit');
+  });
+});
+
+describe('buildBatchPersonLookupQuery', () => {
+  it('binds one row of parameters per usable entry, tagged with its batch index', () => {
+    const query = buildBatchPersonLookupQuery([{ lastName: 'Doe' }, {}, { companyDomain: 'acme.io' }])!;
+
+    expect(query.queryString).toContain(`input (${SET_ROW_INDEX_COLUMN},`);
+    expect(query.queryString).toMatch(/VALUES \(0, [?, ]+\), \(2, [?, ]+\)\)/);
+    expect(placeholderCount(query.queryString)).toBe(query.executionParameters.length);
+    expect(query.executionParameters).toHaveLength(20);
+  });
+
+  it('orders the matches of each entry so the kept record is deterministic', () => {
+    const query = buildBatchPersonLookupQuery([{ lastName: 'Doe' }])!;
+    expect(query.queryString).toMatch(/ROW_NUMBER\(\) OVER \(PARTITION BY input\.row_index ORDER BY .+\) AS match_rank/);
+  });
+
+  it('returns null when no entry is usable', () => {
+    expect(buildBatchPersonLookupQuery([{}, { firstName: ' ' }])).toBeNull();
+  });
+});
+
+describe('buildReverseLookupQuery', () => {
+  it('binds each address and its personal email pattern, skipping values without an @', () => {
+    const query = buildReverseLookupQuery([' Jane.Doe@Acme.io ', 'nope'])!;
+
+    expect(query.queryString).toContain('VALUES (0, ?, ?)');
+    expect(query.executionParameters[0]).toBe("'jane.doe@acme.io'");
+    expect(query.executionParameters[1]).toContain('jane\\.doe@acme\\.io');
+    expect(placeholderCount(query.queryString)).toBe(query.executionParameters.length);
+  });
+
+  it('returns null without an address', () => {
+    expect(buildReverseLookupQuery(['nope'])).toBeNull();
+  });
+});
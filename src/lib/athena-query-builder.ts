@@ -0,0 +1,642 @@
+/**
+ * Athena Query Builder
+ *
+ * Builds the person-table lookups used by the find-email and bulk-find-email
+ * routes. User input never reaches the SQL text: every value is bound through
+ * Athena execution parameters (`?` placeholders) and is escaped as a string
+ * literal, with `%`, `_` and `\` escaped inside LIKE patterns.
+ *
+ * Names are compared folded (case, diacritics and special letters, see
+ * name-normalization) against every spelling of the searched name, so
+ * "Bob" finds "Robert" and "Jose" finds "José". Company names are compared
+ * by their normalized key (see company-normalization), which the SQL derives
+ * from the stored name the same way.
+ *
+ * Bulk lookups use a set query: the input rows are bound as an inline VALUES
+ * table and resolved with one join against the person table, so a batch costs
+ * one table scan instead of one scan per row.
+ */
+
+import {
+  COMPANY_LEADING_ARTICLE_PATTERN,
+  COMPANY_LEGAL_FORM_PATTERN,
+  COMPANY_PUNCTUATION_PATTERN,
+  DOMAIN_EXTRAS_PATTERN,
+  DOMAIN_SCHEME_PATTERN,
+  normalizeCompanyDomain,
+  normalizeCompanyName,
+} from '@/lib/company-normalization';
+import {
+  canonicalName,
+  foldName,
+  NAME_CHARACTER_REPLACEMENTS,
+  nameVariants,
+  UMLAUT_E_PATTERN,
+} from '@/lib/name-normalization';
+
+// Table holding the person records
+export const PERSON_TABLE = 'my_table';
+
+// Columns returned by email lookups
+export const EMAIL_COLUMNS = ['BUSINESS_EMAIL', 'PERSONAL_EMAILS'] as const;
+
+// Column holding the company website of each person record
+export const COMPANY_WEBSITE_COLUMN = 'COMPANY_WEBSITE';
+
+// Columns returned by candidate lookups, so users can tell matching people apart
+export const CANDIDATE_COLUMNS = [
+  'FIRST_NAME',
+  'LAST_NAME',
+  'LINKEDIN_URL',
+  'COMPANY_NAME',
+  COMPANY_WEBSITE_COLUMN,
+  ...EMAIL_COLUMNS,
+] as const;
+
+// Column names that can be written into query text unquoted
+const PLAIN_COLUMN_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Escape character used by every LIKE predicate built here
+const LIKE_ESCAPE = '\\';
+
+// Separates the name spellings bound as a single parameter
+const NAME_VARIANT_SEPARATOR = '|';
+
+// Interface for the criteria a person lookup can filter on
+export interface PersonSearchCriteria {
+  firstName?: string;
+  lastName?: string;
+  linkedin?: string;
+  companyName?: string;
+  // Website or email domain of the company, e.g. "acme.io"
+  companyDomain?: string;
+}
+
+// Interface for a query ready to be sent with StartQueryExecutionCommand
+export interface AthenaQuery {
+  queryString: string;
+  executionParameters: string[];
+}
+
+// Interface for query building options
+interface PersonQueryOptions {
+  columns?: readonly string[];
+  limit?: number;
+}
+
+// Interface for the normalized values a person lookup binds; '' means "not filtered"
+interface PersonMatchValues {
+  firstNameVariants: string;
+  firstNamePrefix: string;
+  lastNameVariants: string;
+  lastNamePrefix: string;
+  linkedinPattern: string;
+  linkedinProfilePattern: string;
+  companyPattern: string;
+  companyNamePattern: string;
+  companyDomain: string;
+  companyDomainSuffix: string;
+}
+
+// Column of a set query's input table holding each row's index in the batch
+export const SET_ROW_INDEX_COLUMN = 'row_index';
+
+// Input table columns of a set query, in VALUES order after the row index
+const SET_INPUT_COLUMNS: Record<keyof PersonMatchValues, string> = {
+  firstNameVariants: 'first_name_variants',
+  firstNamePrefix: 'first_name_prefix',
+  lastNameVariants: 'last_name_variants',
+  lastNamePrefix: 'last_name_prefix',
+  linkedinPattern: 'linkedin_pattern',
+  linkedinProfilePattern: 'linkedin_profile_pattern',
+  companyPattern: 'company_pattern',
+  companyNamePattern: 'company_name_pattern',
+  companyDomain: 'company_domain',
+  companyDomainSuffix: 'company_domain_suffix',
+};
+
+/**
+ * Quote a value as an Athena string literal.
+ * Control characters are dropped and single quotes are doubled.
+ */
+export function toSqlStringLiteral(value: string): string {
+  const cleaned = value.replace(/[\u0000-\u001f\u007f]/g, '');
+  return `'${cleaned.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Escape the LIKE wildcards in a value so it only matches literally.
+ * Must be paired with `ESCAPE '\'` in the predicate.
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `${LIKE_ESCAPE}${char}`);
+}
+
+/**
+ * Escape the regular expression metacharacters in a value so it only matches literally
+ */
+export function escapeRegexPattern(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a column name is a plain identifier, safe to select without quoting
+ */
+export function isPlainColumnName(name: string): boolean {
+  return PLAIN_COLUMN_NAME.test(name);
+}
+
+// Reject selected columns that are not plain identifiers; columns are written into the query text
+function assertPlainColumns(columns: readonly string[]): void {
+  const invalid = columns.find((column) => !isPlainColumnName(column));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid column name: ${invalid}`);
+  }
+}
+
+/**
+ * Normalize a LinkedIn URL down to the profile username
+ */
+export function normalizeLinkedInUrl(url: string): string {
+  // Remove protocol and www
+  url = url.replace(/^(https?:\/\/)?(www\.)?/i, '');
+  // Remove trailing slashes and query parameters
+  url = url.replace(/\/+$/, '').split('?')[0];
+  // Extract username if it's a full URL
+  const match = url.match(/linkedin\.com\/in\/([\w-]+)/i);
+  return (match ? match[1] : url).toLowerCase();
+}
+
+/**
+ * Extract the LinkedIn username from a profile URL
+ */
+export function extractLinkedInUsername(url: string): string {
+  // Try to extract username from various LinkedIn URL formats
+  const match = url?.match(/linkedin\.com\/in\/([\w-]+)/i);
+  return match ? match[1] : url || '';
+}
+
+/**
+ * SQL equivalent of foldName for a name column
+ */
+function foldedNameSql(column: string): string {
+  let expression = `regexp_replace(normalize(LOWER(${column}), NFKD), '\\p{M}', '')`;
+  for (const [from, to] of NAME_CHARACTER_REPLACEMENTS) {
+    expression = `replace(${expression}, ${toSqlStringLiteral(from)}, ${toSqlStringLiteral(to)})`;
+  }
+  return `trim(${expression})`;
+}
+
+/**
+ * SQL equivalent of canonicalName for a name column
+ */
+function canonicalNameSql(column: string): string {
+  return `regexp_replace(${foldedNameSql(column)}, '${UMLAUT_E_PATTERN}', '$1')`;
+}
+
+/**
+ * SQL equivalent of normalizeCompanyName for a company column
+ */
+function normalizedCompanySql(column: string): string {
+  const folded = `trim(regexp_replace(replace(replace(${foldedNameSql(column)}, '&', ' and '), '.', ''), '${COMPANY_PUNCTUATION_PATTERN}', ' '))`;
+  return `regexp_replace(regexp_replace(${folded}, '${COMPANY_LEADING_ARTICLE_PATTERN}', ''), '${COMPANY_LEGAL_FORM_PATTERN}', '')`;
+}
+
+// Domain of an email column, lowercased
+function emailDomainSql(column: string): string {
+  return `LOWER(split_part(${column}, '@', 2))`;
+}
+
+// SQL equivalent of normalizeCompanyDomain for a website column, without validation
+function websiteHostSql(column: string): string {
+  return `regexp_replace(regexp_replace(LOWER(trim(${column})), '${DOMAIN_SCHEME_PATTERN}', ''), '${DOMAIN_EXTRAS_PATTERN}', '')`;
+}
+
+// Bind every spelling of a name as one separated value, each folded and in
+// canonical form: records are matched on their canonical name, and ranked on
+// whether their folded name is one of the spellings
+function joinNameVariants(name: string, nicknames: boolean): string {
+  const variants = nameVariants(name, { nicknames });
+  return Array.from(new Set([...variants, ...variants.map(canonicalName)]))
+    .filter((variant) => variant && !variant.includes(NAME_VARIANT_SEPARATOR))
+    .join(NAME_VARIANT_SEPARATOR);
+}
+
+/**
+ * Collects predicates and their bound parameters in placeholder order
+ */
+class PredicateBuilder {
+  private readonly conditions: string[] = [];
+  private readonly parameters: string[] = [];
+
+  // Add a predicate whose `?` placeholders are bound to the given raw values
+  add(predicate: string, values: string[]): void {
+    this.conditions.push(predicate);
+    this.parameters.push(...values.map(toSqlStringLiteral));
+  }
+
+  build(): { whereClause: string; parameters: string[] } {
+    return {
+      whereClause: this.conditions.join(' AND '),
+      parameters: [...this.parameters],
+    };
+  }
+}
+
+/**
+ * Derive the values bound by a lookup from its criteria.
+ * Returns null when no usable criteria were given.
+ */
+function toMatchValues(criteria: PersonSearchCriteria): PersonMatchValues | null {
+  const firstName = foldName(criteria.firstName || '');
+  const lastName = foldName(criteria.lastName || '');
+  const linkedin = criteria.linkedin?.trim();
+  const companyName = criteria.companyName?.trim();
+  // Invalid domains are ignored, like blank criteria
+  const companyDomain = criteria.companyDomain ? normalizeCompanyDomain(criteria.companyDomain) ?? '' : '';
+
+  if (!firstName && !lastName && !linkedin && !companyName && !companyDomain) return null;
+
+  const linkedinUsername = linkedin ? escapeLikePattern(normalizeLinkedInUrl(linkedin)) : '';
+
+  return {
+    firstNameVariants: firstName ? joinNameVariants(criteria.firstName || '', true) : '',
+    firstNamePrefix: firstName ? `${escapeLikePattern(firstName)}%` : '',
+    lastNameVariants: lastName ? joinNameVariants(criteria.lastName || '', false) : '',
+    lastNamePrefix: lastName ? `${escapeLikePattern(lastName)}%` : '',
+    linkedinPattern: linkedin ? `%${linkedinUsername}%` : '',
+    linkedinProfilePattern: linkedin ? `%linkedin.com/in/${linkedinUsername}%` : '',
+    // A name made only of punctuation has no key; match it as typed
+    companyPattern: companyName ? `%${escapeLikePattern(normalizeCompanyName(companyName) || companyName.toLowerCase())}%` : '',
+    companyNamePattern: companyName ? `%${escapeLikePattern(companyName.toLowerCase())}%` : '',
+    companyDomain,
+    // Subdomains such as "eu.acme.io" belong to the company too
+    companyDomainSuffix: companyDomain ? `%.${escapeLikePattern(companyDomain)}` : '',
+  };
+}
+
+/**
+ * Check whether criteria have at least one usable value to search on.
+ * Names that fold to nothing and invalid domains do not count.
+ */
+export function hasSearchCriteria(criteria: PersonSearchCriteria): boolean {
+  return toMatchValues(criteria) !== null;
+}
+
+/**
+ * Build the WHERE clause for a person lookup.
+ * Returns null when no usable criteria were given.
+ */
+export function buildPersonWhereClause(
+  criteria: PersonSearchCriteria
+): { whereClause: string; parameters: string[] } | null {
+  const values = toMatchValues(criteria);
+  if (!values) return null;
+
+  const predicates = new PredicateBuilder();
+  const escape = `ESCAPE '${LIKE_ESCAPE}'`;
+
+  if (values.firstNameVariants) {
+    predicates.add(
+      `(contains(split(?, '${NAME_VARIANT_SEPARATOR}'), ${canonicalNameSql('FIRST_NAME')}) OR ${foldedNameSql('FIRST_NAME')} LIKE ? ${escape})`,
+      [values.firstNameVariants, values.firstNamePrefix]
+    );
+  }
+
+  if (values.lastNameVariants) {
+    predicates.add(
+      `(contains(split(?, '${NAME_VARIANT_SEPARATOR}'), ${canonicalNameSql('LAST_NAME')}) OR ${foldedNameSql('LAST_NAME')} LIKE ? ${escape})`,
+      [values.lastNameVariants, values.lastNamePrefix]
+    );
+  }
+
+  if (values.linkedinPattern) {
+    predicates.add(
+      `(LOWER(LINKEDIN_URL) LIKE ? ${escape} OR LOWER(LINKEDIN_URL) LIKE ? ${escape})`,
+      [values.linkedinPattern, values.linkedinProfilePattern]
+    );
+  }
+
+  if (values.companyPattern) {
+    predicates.add(
+      `(${normalizedCompanySql('COMPANY_NAME')} LIKE ? ${escape} OR LOWER(COMPANY_NAME) LIKE ? ${escape})`,
+      [values.companyPattern, values.companyNamePattern]
+    );
+  }
+
+  if (values.companyDomain) {
+    predicates.add(
+      `(${emailDomainSql('BUSINESS_EMAIL')} = ? OR ${emailDomainSql('BUSINESS_EMAIL')} LIKE ? ${escape} OR ${websiteHostSql(COMPANY_WEBSITE_COLUMN)} = ?)`,
+      [values.companyDomain, values.companyDomainSuffix, values.companyDomain]
+    );
+  }
+
+  return predicates.build();
+}
+
+/**
+ * Build a parameterized person lookup query.
+ * Returns null when no usable criteria were given.
+ */
+export function buildPersonLookupQuery(
+  criteria: PersonSearchCriteria,
+  options: PersonQueryOptions = {}
+): AthenaQuery | null {
+  const where = buildPersonWhereClause(criteria);
+  if (!where) return null;
+
+  const columns = options.columns ?? EMAIL_COLUMNS;
+  const limit = options.limit ?? 1;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid query limit: ${limit}`);
+  }
+  assertPlainColumns(columns);
+
+  return {
+    queryString: `SELECT ${columns.join(', ')} FROM ${PERSON_TABLE} WHERE ${where.whereClause} LIMIT ${limit}`,
+    executionParameters: where.parameters,
+  };
+}
+
+/**
+ * Build one query that looks up a whole batch of people.
+ * Each criteria entry becomes a row of an inline input table, tagged with its
+ * position in the batch; the result has one row per matched input, with
+ * SET_ROW_INDEX_COLUMN first followed by the requested columns. Entries
+ * without usable criteria are left out. Returns null when no entry is usable.
+ * When several records match an input, the one kept is the closest match,
+ * weighted like the single search score, preferring records with a business
+ * email and then ordered by name and email, so reruns return the same record.
+ */
+export function buildBatchPersonLookupQuery(
+  batch: PersonSearchCriteria[],
+  options: Pick<PersonQueryOptions, 'columns'> = {}
+): AthenaQuery | null {
+  const rows: string[] = [];
+  const parameters: string[] = [];
+  const valueKeys = Object.keys(SET_INPUT_COLUMNS) as (keyof PersonMatchValues)[];
+
+  batch.forEach((criteria, index) => {
+    const values = toMatchValues(criteria);
+    if (!values) return;
+
+    // The row index is generated here, never taken from input
+    rows.push(`(${index}, ${valueKeys.map(() => '?').join(', ')})`);
+    parameters.push(...valueKeys.map((key) => toSqlStringLiteral(values[key])));
+  });
+
+  if (rows.length === 0) return null;
+
+  const input = (key: keyof PersonMatchValues) => `input.${SET_INPUT_COLUMNS[key]}`;
+  const escape = `ESCAPE '${LIKE_ESCAPE}'`;
+  // Same rules as buildPersonWhereClause, skipped per row when the value is ''
+  const joinPredicates = [
+    `(${input('firstNameVariants')} = '' OR contains(split(${input('firstNameVariants')}, '${NAME_VARIANT_SEPARATOR}'), ${canonicalNameSql('person.FIRST_NAME')}) OR ${foldedNameSql('person.FIRST_NAME')} LIKE ${input('firstNamePrefix')} ${escape})`,
+    `(${input('lastNameVariants')} = '' OR contains(split(${input('lastNameVariants')}, '${NAME_VARIANT_SEPARATOR}'), ${canonicalNameSql('person.LAST_NAME')}) OR ${foldedNameSql('person.LAST_NAME')} LIKE ${input('lastNamePrefix')} ${escape})`,
+    `(${input('linkedinPattern')} = '' OR LOWER(person.LINKEDIN_URL) LIKE ${input('linkedinPattern')} ${escape} OR LOWER(person.LINKEDIN_URL) LIKE ${input('linkedinProfilePattern')} ${escape})`,
+    `(${input('companyPattern')} = '' OR ${normalizedCompanySql('person.COMPANY_NAME')} LIKE ${input('companyPattern')} ${escape} OR LOWER(person.COMPANY_NAME) LIKE ${input('companyNamePattern')} ${escape})`,
+    `(${input('companyDomain')} = '' OR ${emailDomainSql('person.BUSINESS_EMAIL')} = ${input('companyDomain')} OR ${emailDomainSql('person.BUSINESS_EMAIL')} LIKE ${input('companyDomainSuffix')} ${escape} OR ${websiteHostSql(`person.${COMPANY_WEBSITE_COLUMN}`)} = ${input('companyDomain')})`,
+  ];
+
+  // Exact matches of each criterion, with the weights of the single search score
+  const exactMatchScore = [
+    `CASE WHEN ${input('linkedinProfilePattern')} <> '' AND LOWER(person.LINKEDIN_URL) LIKE ${input('linkedinProfilePattern')} ${escape} THEN 40 ELSE 0 END`,
+    `CASE WHEN ${input('firstNameVariants')} <> '' AND contains(split(${input('firstNameVariants')}, '${NAME_VARIANT_SEPARATOR}'), ${foldedNameSql('person.FIRST_NAME')}) THEN 20 ELSE 0 END`,
+    `CASE WHEN ${input('lastNameVariants')} <> '' AND contains(split(${input('lastNameVariants')}, '${NAME_VARIANT_SEPARATOR}'), ${foldedNameSql('person.LAST_NAME')}) THEN 20 ELSE 0 END`,
+    `CASE WHEN ${input('companyPattern')} <> '' AND CONCAT('%', ${normalizedCompanySql('person.COMPANY_NAME')}, '%') = ${input('companyPattern')} THEN 20 ELSE 0 END`,
+    `CASE WHEN ${input('companyDomain')} <> '' AND (${emailDomainSql('person.BUSINESS_EMAIL')} = ${input('companyDomain')} OR ${websiteHostSql(`person.${COMPANY_WEBSITE_COLUMN}`)} = ${input('companyDomain')}) THEN 20 ELSE 0 END`,
+  ].join(' + ');
+  const matchOrder = [
+    `${exactMatchScore} DESC`,
+    `CASE WHEN person.BUSINESS_EMAIL LIKE '%@%' THEN 0 ELSE 1 END`,
+    'person.LAST_NAME',
+    'person.FIRST_NAME',
+    'person.BUSINESS_EMAIL',
+    'person.LINKEDIN_URL',
+  ].join(', ');
+
+  const columns = options.columns ?? EMAIL_COLUMNS;
+  assertPlainColumns(columns);
+  const inputColumns = [SET_ROW_INDEX_COLUMN, ...valueKeys.map((key) => SET_INPUT_COLUMNS[key])];
+
+  const queryString = [
+    `WITH input (${inputColumns.join(', ')}) AS (VALUES ${rows.join(', ')})`,
+    `SELECT ${[SET_ROW_INDEX_COLUMN, ...columns].join(', ')} FROM (`,
+    `SELECT input.${SET_ROW_INDEX_COLUMN}, ${columns.map((column) => `person.${column}`).join(', ')},`,
+    `ROW_NUMBER() OVER (PARTITION BY input.${SET_ROW_INDEX_COLUMN} ORDER BY ${matchOrder}) AS match_rank`,
+    `FROM input JOIN ${PERSON_TABLE} person ON ${joinPredicates.join(' AND ')}`,
+    `) WHERE match_rank = 1`,
+  ].join(' ');
+
+  return { queryString, executionParameters: parameters };
+}
+
+/**
+ * Build a query listing the columns of the person table and their types, in
+ * table order: `column_name` and `data_type`. The table is looked up in the
+ * given database when one is configured.
+ */
+export function buildPersonTableColumnsQuery(options: { database?: string } = {}): AthenaQuery {
+  const predicates = new PredicateBuilder();
+  predicates.add('table_name = ?', [PERSON_TABLE.toLowerCase()]);
+  if (options.database) {
+    predicates.add('table_schema = ?', [options.database.toLowerCase()]);
+  }
+
+  const { whereClause, parameters } = predicates.build();
+  return {
+    queryString: `SELECT column_name, data_type FROM information_schema.columns WHERE ${whereClause} ORDER BY ordinal_position`,
+    executionParameters: parameters,
+  };
+}
+
+/**
+ * Build one query that finds the email domains used by each of a list of
+ * companies. A stored record belongs to a company when its normalized name
+ * equals the company's normalized name; domains are taken from business
+ * emails and ranked by how many records use them. The result has one row per
+ * company and domain: SET_ROW_INDEX_COLUMN, `domain` and `email_count`.
+ * Returns null when no company name is usable.
+ */
+export function buildCompanyDomainQuery(
+  companyNames: string[],
+  options: { limit?: number } = {}
+): AthenaQuery | null {
+  const limit = options.limit ?? 3;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid query limit: ${limit}`);
+  }
+
+  const rows: string[] = [];
+  const parameters: string[] = [];
+
+  companyNames.forEach((companyName, index) => {
+    const key = normalizeCompanyName(companyName || '');
+    if (!key) return;
+
+    rows.push(`(${index}, ?)`);
+    parameters.push(toSqlStringLiteral(key));
+  });
+
+  if (rows.length === 0) return null;
+
+  const domain = emailDomainSql('person.BUSINESS_EMAIL');
+  const queryString = [
+    `WITH input (${SET_ROW_INDEX_COLUMN}, company_key) AS (VALUES ${rows.join(', ')})`,
+    `SELECT ${SET_ROW_INDEX_COLUMN}, domain, email_count FROM (`,
+    `SELECT input.${SET_ROW_INDEX_COLUMN}, ${domain} AS domain, COUNT(*) AS email_count,`,
+    `ROW_NUMBER() OVER (PARTITION BY input.${SET_ROW_INDEX_COLUMN} ORDER BY COUNT(*) DESC) AS domain_rank`,
+    `FROM input JOIN ${PERSON_TABLE} person ON ${normalizedCompanySql('person.COMPANY_NAME')} = input.company_key`,
+    `WHERE person.BUSINESS_EMAIL LIKE '%@%'`,
+    `GROUP BY input.${SET_ROW_INDEX_COLUMN}, ${domain}`,
+    `) WHERE domain_rank <= ${limit}`,
+  ].join(' ');
+
+  return { queryString, executionParameters: parameters };
+}
+
+/**
+ * Build one query that samples the business emails of known employees for
+ * each of a list of companies, identified by name, domain or both. Up to
+ * `limit` records are returned per company: SET_ROW_INDEX_COLUMN followed by
+ * FIRST_NAME, LAST_NAME and BUSINESS_EMAIL. Returns null when no company is usable.
+ */
+export function buildCompanyEmailSampleQuery(
+  companies: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>[],
+  options: { limit?: number } = {}
+): AthenaQuery | null {
+  const limit = options.limit ?? 50;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid query limit: ${limit}`);
+  }
+
+  const rows: string[] = [];
+  const parameters: string[] = [];
+
+  companies.forEach((company, index) => {
+    const key = normalizeCompanyName(company.companyName || '');
+    const domain = company.companyDomain ? normalizeCompanyDomain(company.companyDomain) ?? '' : '';
+    if (!key && !domain) return;
+
+    rows.push(`(${index}, ?, ?)`);
+    parameters.push(toSqlStringLiteral(key), toSqlStringLiteral(domain));
+  });
+
+  if (rows.length === 0) return null;
+
+  // A domain identifies the company more reliably than its name, so it wins when given
+  const belongsToCompany = [
+    `(input.company_domain <> '' AND ${emailDomainSql('person.BUSINESS_EMAIL')} = input.company_domain)`,
+    `(input.company_domain = '' AND ${normalizedCompanySql('person.COMPANY_NAME')} = input.company_key)`,
+  ].join(' OR ');
+
+  const queryString = [
+    `WITH input (${SET_ROW_INDEX_COLUMN}, company_key, company_domain) AS (VALUES ${rows.join(', ')})`,
+    `SELECT ${SET_ROW_INDEX_COLUMN}, FIRST_NAME, LAST_NAME, BUSINESS_EMAIL FROM (`,
+    `SELECT input.${SET_ROW_INDEX_COLUMN}, person.FIRST_NAME, person.LAST_NAME, person.BUSINESS_EMAIL,`,
+    `ROW_NUMBER() OVER (PARTITION BY input.${SET_ROW_INDEX_COLUMN}) AS sample_rank`,
+    `FROM input JOIN ${PERSON_TABLE} person ON (${belongsToCompany})`,
+    `WHERE person.BUSINESS_EMAIL LIKE '%@%' AND person.FIRST_NAME IS NOT NULL AND person.LAST_NAME IS NOT NULL`,
+    `) WHERE sample_rank <= ${limit}`,
+  ].join(' ');
+
+  return { queryString, executionParameters: parameters };
+}
+
+/**
+ * Build a query for one page of everyone known at a company. The company is
+ * identified by its domain when given (business email domain or subdomain,
+ * or website host), otherwise by normalized name. People are ordered by name
+ * so pages are stable; each row has the candidate columns followed by
+ * `total_count`, the number of people at the company.
+ * Returns null when neither a usable domain nor name was given.
+ */
+export function buildCompanyPeopleQuery(
+  company: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>,
+  options: { limit?: number; offset?: number } = {}
+): AthenaQuery | null {
+  const limit = options.limit ?? 50;
+  const offset = options.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid query limit: ${limit}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid query offset: ${offset}`);
+  }
+
+  const predicates = new PredicateBuilder();
+  const domain = company.companyDomain ? normalizeCompanyDomain(company.companyDomain) : null;
+  const key = normalizeCompanyName(company.companyName || '');
+
+  // A domain identifies the company more reliably than its name, so it wins when given
+  if (domain) {
+    predicates.add(
+      `(${emailDomainSql('BUSINESS_EMAIL')} = ? OR ${emailDomainSql('BUSINESS_EMAIL')} LIKE ? ESCAPE '${LIKE_ESCAPE}' OR ${websiteHostSql(COMPANY_WEBSITE_COLUMN)} = ?)`,
+      [domain, `%.${escapeLikePattern(domain)}`, domain]
+    );
+  } else if (key) {
+    predicates.add(`${normalizedCompanySql('COMPANY_NAME')} = ?`, [key]);
+  } else {
+    return null;
+  }
+
+  const { whereClause, parameters } = predicates.build();
+  const queryString = [
+    `SELECT ${CANDIDATE_COLUMNS.join(', ')}, total_count FROM (`,
+    `SELECT ${CANDIDATE_COLUMNS.join(', ')}, COUNT(*) OVER () AS total_count,`,
+    `ROW_NUMBER() OVER (ORDER BY LAST_NAME, FIRST_NAME, BUSINESS_EMAIL) AS person_rank`,
+    `FROM ${PERSON_TABLE} WHERE ${whereClause}`,
+    `) WHERE person_rank > ${offset} AND person_rank <= ${offset + limit} ORDER BY person_rank`,
+  ].join(' ');
+
+  return { queryString, executionParameters: parameters };
+}
+
+// Characters an email address can contain next to the searched address; anything else separates list entries
+const EMAIL_ADDRESS_CHARACTERS = 'a-z0-9._%+-';
+
+/**
+ * Regular expression finding an address as a whole entry of a PERSONAL_EMAILS
+ * value, whichever way the list is stored (JSON array, comma-separated or single)
+ */
+export function personalEmailPattern(email: string): string {
+  return `(^|[^${EMAIL_ADDRESS_CHARACTERS}])${escapeRegexPattern(email)}($|[^${EMAIL_ADDRESS_CHARACTERS}])`;
+}
+
+/**
+ * Build one query that finds the owner of each of a list of email addresses.
+ * An address matches a record's BUSINESS_EMAIL or one of its PERSONAL_EMAILS,
+ * compared case-insensitively; business matches are preferred. The result has
+ * one row per matched address: SET_ROW_INDEX_COLUMN, the candidate columns
+ * and `matched_on` ('business' or 'personal').
+ * Returns null when no address is usable.
+ */
+export function buildReverseLookupQuery(emails: string[]): AthenaQuery | null {
+  const rows: string[] = [];
+  const parameters: string[] = [];
+
+  emails.forEach((value, index) => {
+    const email = value.trim().toLowerCase();
+    if (!email.includes('@')) return;
+
+    rows.push(`(${index}, ?, ?)`);
+    parameters.push(toSqlStringLiteral(email), toSqlStringLiteral(personalEmailPattern(email)));
+  });
+
+  if (rows.length === 0) return null;
+
+  const businessMatch = `LOWER(trim(person.BUSINESS_EMAIL)) = input.email`;
+  const columns = CANDIDATE_COLUMNS.map((column) => `person.${column}`).join(', ');
+  const queryString = [
+    `WITH input (${SET_ROW_INDEX_COLUMN}, email, personal_pattern) AS (VALUES ${rows.join(', ')})`,
+    `SELECT ${[SET_ROW_INDEX_COLUMN, ...CANDIDATE_COLUMNS, 'matched_on'].join(', ')} FROM (`,
+    `SELECT input.${SET_ROW_INDEX_COLUMN}, ${columns},`,
+    `CASE WHEN ${businessMatch} THEN 'business' ELSE 'personal' END AS matched_on,`,
+    `ROW_NUMBER() OVER (PARTITION BY input.${SET_ROW_INDEX_COLUMN} ORDER BY CASE WHEN ${businessMatch} THEN 0 ELSE 1 END) AS match_rank`,
+    `FROM input JOIN ${PERSON_TABLE} person`,
+    `ON ${businessMatch} OR regexp_like(LOWER(person.PERSONAL_EMAILS), input.personal_pattern)`,
+    `) WHERE match_rank = 1`,
+  ].join(' ');
+
+  return { queryString, executionParameters: parameters };
+}
@@ -146,11 +146,22 @@ export function initDynamoDBClient(options?: AWSServiceOptions): DynamoDBClient
   }
 }
 
+// Per-user folder for each kind of stored data
+export const USER_DATA_FOLDERS = {
+  single: 'find-email',
+  bulk: 'bulk-find-email',
+  'bulk-part': 'bulk-find-email-parts',
+  job: 'bulk-jobs',
+  domain: 'domain-search',
+  mapping: 'column-mappings',
+  profile: 'export-profiles',
+} as const;
+
 /**
  * Parse S3 bucket name and prefix from environment variable
  * This function handles different formats of S3_BUCKET_NAME
  */
-export function parseS3BucketConfig(userId: string, type: 'single' | 'bulk' = 'single') {
+export function parseS3BucketConfig(userId: string, type: keyof typeof USER_DATA_FOLDERS = 'single') {
   try {
     // Extract just the bucket name from the S3_BUCKET_NAME environment variable
     // Format could be either 's3://bucketname/path/' or just 'bucketname'
@@ -164,9 +175,9 @@ export function parseS3BucketConfig(userId: string, type: 'single' | 'bulk' = 's
     if (s3BucketNameFull.includes('/')) {
       // Get everything after the bucket name as the base prefix
       const basePrefix = s3BucketNameFull.substring(s3BucketName.length + 1);
-      prefix = `${basePrefix}user-data/${userId}/${type === 'single' ? 'find-email' : 'bulk-find-email'}/`;
+      prefix = `${basePrefix}user-data/${userId}/${USER_DATA_FOLDERS[type]}/`;
     } else {
-      prefix = `user-data/${userId}/${type === 'single' ? 'find-email' : 'bulk-find-email'}/`;
+      prefix = `user-data/${userId}/${USER_DATA_FOLDERS[type]}/`;
     }
     
     return { bucketName: s3BucketName, prefix };
@@ -175,7 +186,7 @@ export function parseS3BucketConfig(userId: string, type: 'single' | 'bulk' = 's
     // Return default values as fallback
     return { 
       bucketName: process.env.S3_BUCKET_NAME || 'default-bucket',
-      prefix: `user-data/${userId}/${type === 'single' ? 'find-email' : 'bulk-find-email'}/`
+      prefix: `user-data/${userId}/${USER_DATA_FOLDERS[type]}/`
     };
   }
 }
\ No newline at end of file
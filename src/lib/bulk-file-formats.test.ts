@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectBulkFileFormat, detectTextEncoding } from './bulk-file-formats';
+
+// Bytes of a string in an encoding Node can write
+function bytes(text: string, encoding: BufferEncoding): Uint8Array {
+  return new Uint8Array(Buffer.from(text, encoding));
+}
+
+describe('detectBulkFileFormat', () => {
+  it('detects formats by extension, case-insensitively', () => {
+    expect(detectBulkFileFormat('leads.CSV')).toBe('csv');
+    expect(detectBulkFileFormat('leads.tab')).toBe('tsv');
+    expect(detectBulkFileFormat('leads.jsonl')).toBe('ndjson');
+    expect(detectBulkFileFormat('leads.xls')).toBe('xls');
+    expect(detectBulkFileFormat('leads.pdf')).toBeNull();
+  });
+});
+
+describe('detectTextEncoding', () => {
+  it('follows a byte order mark', () => {
+    expect(detectTextEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectTextEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+    expect(detectTextEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes UTF-16 without a byte order mark by its zero bytes', () => {
+    expect(detectTextEncoding(bytes('name,email\nJane,jane@acme.io\n', 'utf16le'))).toBe('utf-16le');
+    expect(detectTextEncoding(bytes('name,email\nJane,jane@acme.io\n', 'utf16le').slice(1))).toBe('utf-16be');
+  });
+
+  it('reads valid UTF-8 as UTF-8, even with a character cut off at the end', () => {
+    const sample = bytes('name\nJosé Müller\n', 'utf8');
+    expect(detectTextEncoding(sample)).toBe('utf-8');
+    expect(detectTextEncoding(bytes('name\nJosé', 'utf8').slice(0, -1))).toBe('utf-8');
+  });
+
+  it('falls back to Windows-1252 for other bytes', () => {
+    expect(detectTextEncoding(bytes('name\nJosé Müller\n', 'latin1'))).toBe('windows-1252');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Bulk File Formats
+ *
+ * The file formats a bulk upload accepts, shared by the upload form (file
+ * picker, drop zone and preview) and the bulk-find-email route, so both
+ * accept exactly the same files. A file's format is taken from its extension;
+ * the encoding of text formats is worked out from their first bytes.
+ */
+
+// Formats a bulk upload can be in
+export type BulkFileFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx' | 'xls';
+
+// Interface for what each format looks like on disk
+interface BulkFileFormatInfo {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Whether the file is a spreadsheet workbook that can hold several sheets
+  workbook: boolean;
+}
+
+export const BULK_FILE_FORMATS: Record<BulkFileFormat, BulkFileFormatInfo> = {
+  // Comma or semicolon separated, in UTF-8, UTF-16 or Latin-1
+  csv: { label: 'CSV', extensions: ['.csv'], mimeTypes: ['text/csv'], workbook: false },
+  tsv: { label: 'TSV', extensions: ['.tsv', '.tab'], mimeTypes: ['text/tab-separated-values'], workbook: false },
+  // An array of objects, one per row
+  json: { label: 'JSON', extensions: ['.json'], mimeTypes: ['application/json'], workbook: false },
+  // One object per line
+  ndjson: {
+    label: 'NDJSON',
+    extensions: ['.ndjson', '.jsonl'],
+    mimeTypes: ['application/x-ndjson'],
+    workbook: false,
+  },
+  xlsx: {
+    label: 'XLSX',
+    extensions: ['.xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    workbook: true,
+  },
+  xls: { label: 'XLS', extensions: ['.xls'], mimeTypes: ['application/vnd.ms-excel'], workbook: true },
+};
+
+// Largest upload accepted, in megabytes. The route receives the whole
+// multipart body before the file is read, and workbooks are loaded whole, so
+// this bounds the memory a single upload can take.
+export const MAX_BULK_FILE_SIZE_MB = 50;
+export const MAX_BULK_FILE_SIZE = MAX_BULK_FILE_SIZE_MB * 1024 * 1024;
+
+// Value for the accept attribute of a file input
+export const BULK_FILE_ACCEPT = Object.values(BULK_FILE_FORMATS)
+  .flatMap((format) => [...format.extensions, ...format.mimeTypes])
+  .join(',');
+
+// Accepted formats for messages, e.g. "CSV, TSV, JSON, NDJSON, XLSX or XLS"
+export const BULK_FILE_FORMAT_NAMES = (() => {
+  const labels = Object.values(BULK_FILE_FORMATS).map((format) => format.label);
+  return `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`;
+})();
+
+/**
+ * Work out a file's format from its name, or null when it is not accepted
+ */
+export function detectBulkFileFormat(fileName: string): BulkFileFormat | null {
+  const name = fileName.toLowerCase();
+  const formats = Object.keys(BULK_FILE_FORMATS) as BulkFileFormat[];
+  return formats.find((format) => BULK_FILE_FORMATS[format].extensions.some((extension) => name.endsWith(extension))) ?? null;
+}
+
+/**
+ * Work out the encoding of a text file from a sample of its first bytes: a
+ * byte order mark when there is one, zero bytes between ASCII characters for
+ * UTF-16 without one, otherwise UTF-8 if the bytes are valid UTF-8 and Latin-1
+ * (as Windows writes it) if not. Returns a TextDecoder label.
+ */
+export function detectTextEncoding(sample: Uint8Array): string {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < sample.length; index++) {
+    if (sample[index] !== 0) continue;
+    if (index % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  if (oddZeros > sample.length / 4) return 'utf-16le';
+  if (evenZeros > sample.length / 4) return 'utf-16be';
+
+  try {
+    // Streaming, so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
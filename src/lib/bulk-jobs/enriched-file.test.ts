@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { buildEnrichedFile, EnrichableBulkResult } from './enriched-file';
+
+// A result of an upload with a name column mapped to firstName and a phone column
+function enrichableResult(format: 'csv' | 'xlsx'): EnrichableBulkResult {
+  return {
+    fileName: `leads.${format}`,
+    sourceFile: {
+      format,
+      sheetName: format === 'xlsx' ? 'Leads' : null,
+      delimiter: format === 'csv' ? ';' : null,
+      columns: ['Name', 'Phone'],
+      columnMapping: { firstName: 'Name' },
+    },
+    results: [{ firstName: '-Ann', Phone: '+49 30 1234', foundEmail: '=cmd|calc', isVerified: true, matchTier: 'prefix' }],
+  };
+}
+
+describe('buildEnrichedFile', () => {
+  it('keeps the original CSV values and guards the appended ones', () => {
+    const file = buildEnrichedFile(enrichableResult('csv'));
+
+    expect(file.fileName).toBe('leads-enriched.csv');
+    expect(file.body).toBe(
+      '\uFEFFName;Phone;foundEmail;personalEmails;verificationStatus;matchTier\r\n' +
+      "-Ann;+49 30 1234;'=cmd|calc;;verified;prefix"
+    );
+  });
+
+  it('writes workbook values unchanged, in the sheet that was read', () => {
+    const file = buildEnrichedFile(enrichableResult('xlsx'));
+    const workbook = XLSX.read(file.body, { type: 'buffer' });
+    const [row] = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Leads);
+
+    expect(workbook.SheetNames).toEqual(['Leads']);
+    expect(row).toMatchObject({ Name: '-Ann', Phone: '+49 30 1234', foundEmail: '=cmd|calc' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Enriched File Output
+ *
+ * Rebuilds the file a bulk job was uploaded with from its stored result: every
+ * original column in its original order, followed by the lookup results
+ * (found email, personal emails, verification status, match tier and any
+ * requested enrichment columns). The file is written in the format it was
+ * uploaded in: CSV files keep their delimiter and workbooks keep the name of
+ * the sheet that was read. The original columns are written exactly as they
+ * were uploaded; only the appended result columns, which come from the
+ * directory, get the formula guard of CSV exports.
+ */
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { BULK_FILE_FORMATS } from '@/lib/bulk-file-formats';
+import { MAPPABLE_FIELDS } from '@/lib/column-mapping';
+import { csvCell, formatCell } from '@/lib/result-export';
+import { BulkSourceFile } from './types';
+
+// Columns appended after the original ones, ahead of any enrichment columns
+const RESULT_COLUMNS = ['foundEmail', 'personalEmails', 'verificationStatus', 'matchTier'];
+
+// Interface for the parts of a stored bulk result the file is built from
+export interface EnrichableBulkResult {
+  fileName: string;
+  sourceFile: BulkSourceFile;
+  enrichmentFields?: string[];
+  results: Record<string, unknown>[];
+}
+
+// Interface for a file ready to be sent as a download
+export interface EnrichedFile {
+  fileName: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+// Content types of the written files; workbooks are binary
+const CONTENT_TYPES: Record<BulkSourceFile['format'], string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+};
+
+// Name the download after the uploaded file, keeping its extension
+function enrichedFileName(fileName: string, sourceFile: BulkSourceFile): string {
+  const { extensions } = BULK_FILE_FORMATS[sourceFile.format];
+  const extension = extensions.find((item) => fileName.toLowerCase().endsWith(item)) ?? extensions[0];
+  const baseName = fileName.toLowerCase().endsWith(extension) ? fileName.slice(0, -extension.length) : fileName;
+  return `${baseName}-enriched${extension}`;
+}
+
+/**
+ * Build the uploaded file again with the lookup results appended to each row.
+ * Values of mapped columns come from the lookup fields they were renamed to.
+ */
+export function buildEnrichedFile(result: EnrichableBulkResult): EnrichedFile {
+  const { sourceFile } = result;
+  const enrichmentFields = result.enrichmentFields ?? [];
+  const columns = [...sourceFile.columns, ...RESULT_COLUMNS, ...enrichmentFields];
+
+  // Lookup field each mapped file column was renamed to
+  const mappedColumns = new Map<string, string>();
+  for (const field of MAPPABLE_FIELDS) {
+    const column = sourceFile.columnMapping[field];
+    if (column) mappedColumns.set(column, field);
+  }
+
+  const rows = result.results.map((record) => {
+    const enrichment = (record.enrichment ?? {}) as Record<string, unknown>;
+    const isVerified = record.isVerified;
+    const values: Record<string, unknown> = {};
+
+    for (const column of sourceFile.columns) {
+      values[column] = record[mappedColumns.get(column) ?? column] ?? '';
+    }
+    values.foundEmail = record.foundEmail ?? '';
+    values.personalEmails = record.personalEmails ?? [];
+    values.verificationStatus = isVerified === true ? 'verified' : isVerified === false ? 'unverified' : '';
+    values.matchTier = record.matchTier ?? '';
+    for (const field of enrichmentFields) {
+      values[field] = enrichment[field] ?? '';
+    }
+    return values;
+  });
+
+  const fileName = enrichedFileName(result.fileName, sourceFile);
+  const contentType = CONTENT_TYPES[sourceFile.format];
+
+  switch (sourceFile.format) {
+    case 'json':
+      return { fileName, contentType, body: JSON.stringify(rows, null, 2) };
+    case 'ndjson':
+      return { fileName, contentType, body: rows.map((row) => JSON.stringify(row)).join('\n') + '\n' };
+    case 'xlsx':
+    case 'xls': {
+      // Workbooks store text cells as text, so values are written unchanged
+      const worksheet = XLSX.utils.aoa_to_sheet([
+        columns,
+        ...rows.map((row) => columns.map((column) => formatCell(row[column]))),
+      ]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, sourceFile.sheetName || 'Sheet1');
+      const body = XLSX.write(workbook, {
+        type: 'buffer',
+        bookType: sourceFile.format === 'xls' ? 'biff8' : 'xlsx',
+      }) as Buffer;
+      return { fileName, contentType, body };
+    }
+    default: {
+      // The user's own values stay as uploaded; appended values are guarded against formulas
+      const originalColumns = new Set(sourceFile.columns);
+      const cell = (row: Record<string, unknown>, column: string) =>
+        originalColumns.has(column) ? formatCell(row[column]) : csvCell(row[column]);
+      const csv = Papa.unparse(
+        { fields: columns, data: rows.map((row) => columns.map((column) => cell(row, column))) },
+        { delimiter: sourceFile.delimiter ?? (sourceFile.format === 'tsv' ? '\t' : ',') }
+      ) as string;
+      // The byte order mark lets Excel open accented names correctly
+      return { fileName, contentType, body: `\uFEFF${csv}` };
+    }
+  }
+}
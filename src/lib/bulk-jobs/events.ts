@@ -0,0 +1,32 @@
+/**
+ * Bulk Job Events
+ *
+ * In-process progress notifications for running jobs. The worker publishes
+ * after every processed row, which is far more often than the job record is
+ * persisted; the progress stream route subscribes here and falls back to
+ * reading the stored job when the worker runs on another server instance.
+ */
+
+import { EventEmitter } from 'events';
+import { BulkJob } from './types';
+
+const emitter = new EventEmitter();
+// One listener per open progress stream
+emitter.setMaxListeners(0);
+
+/**
+ * Notify subscribers of a job's latest state
+ */
+export function publishJobProgress(job: BulkJob): void {
+  emitter.emit(job.jobId, job);
+}
+
+/**
+ * Listen for a job's progress; returns a function that removes the listener
+ */
+export function subscribeToJob(jobId: string, listener: (job: BulkJob) => void): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
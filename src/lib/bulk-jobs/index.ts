@@ -0,0 +1,34 @@
+/**
+ * Bulk Jobs
+ *
+ * Asynchronous bulk email lookups. The bulk-find-email route opens the uploaded
+ * file, creates a job and hands the worker its rows as they are read; clients
+ * follow progress through the job status routes under /api/bulk-jobs. The
+ * rows of finished jobs are stored in parts and read back through results.ts.
+ */
+
+export type {
+  BulkJob,
+  BulkJobProgress,
+  BulkJobState,
+  BulkRecord,
+  BulkRowBatch,
+  BulkRowError,
+  BulkSourceFile,
+} from './types';
+export type { BulkFileReader, FileRowBatch } from './ingest';
+export type { EnrichableBulkResult, EnrichedFile } from './enriched-file';
+export type { BulkResultFilter, BulkResultRow, BulkResultStatus, StoredBulkResultRows } from './results';
+export { isTerminalState, toJobProgress } from './types';
+export { subscribeToJob } from './events';
+export { openBulkFile } from './ingest';
+export { buildEnrichedFile } from './enriched-file';
+export {
+  countBulkResultRows,
+  deleteBulkResultParts,
+  filterBulkResultRows,
+  putBulkResultPart,
+  readBulkResultRows,
+} from './results';
+export { cancelJob, createJob, getJob, updateJob } from './store';
+export { runBulkJob } from './worker';
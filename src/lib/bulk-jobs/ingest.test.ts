@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { openBulkFile } from './ingest';
+import { BulkRowError } from './types';
+
+// Read every batch of a file
+async function readAll(file: File) {
+  const reader = await openBulkFile(file);
+  const rows: Record<string, unknown>[] = [];
+  const errors: BulkRowError[] = [];
+  for await (const batch of reader.batches) {
+    rows.push(...batch.rows);
+    errors.push(...batch.errors);
+  }
+  return { reader, rows, errors };
+}
+
+describe('openBulkFile', () => {
+  it('splits a JSON array into its rows, ignoring brackets and commas inside strings', async () => {
+    const text = '[{"name": "Smith, [Jr.]", "note": "say \\"hi\\", {ok}"}, {"name": "Doe", "tags": [1, {"a": 2}]}]';
+    const { reader, rows, errors } = await readAll(new File([text], 'leads.json'));
+
+    expect(reader.headers).toEqual(['name', 'note', 'tags']);
+    expect(rows).toEqual([
+      { name: 'Smith, [Jr.]', note: 'say "hi", {ok}' },
+      { name: 'Doe', tags: [1, { a: 2 }] },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports JSON array elements that are not row objects', async () => {
+    const { rows, errors } = await readAll(new File(['[{"name": "Doe"}, 42, {"name": }]'], 'leads.json'));
+
+    expect(rows).toEqual([{ name: 'Doe' }]);
+    expect(errors.map((error) => error.row)).toEqual([2, 3]);
+    expect(errors[0].message).toBe('Row is not an object');
+  });
+
+  it('rejects JSON that is not an array', async () => {
+    await expect(openBulkFile(new File(['{"name": "Doe"}'], 'leads.json'))).rejects.toThrow('must hold an array');
+  });
+
+  it('splits NDJSON into its non-blank lines', async () => {
+    const text = '{"name": "Doe"}\n\n{"name": "Roe"}\r\nnot json\n{"name": "Poe"}';
+    const { rows, errors } = await readAll(new File([text], 'leads.ndjson'));
+
+    expect(rows).toEqual([{ name: 'Doe' }, { name: 'Roe' }, { name: 'Poe' }]);
+    expect(errors.map((error) => error.row)).toEqual([3]);
+  });
+
+  it('detects semicolon-separated CSV', async () => {
+    const { reader, rows } = await readAll(new File(['first;last\nJane;Doe\n'], 'leads.csv'));
+
+    expect(reader.delimiter).toBe(';');
+    expect(reader.headers).toEqual(['first', 'last']);
+    expect(rows).toEqual([{ first: 'Jane', last: 'Doe' }]);
+  });
+
+  it('decodes UTF-16 and Latin-1 text files', async () => {
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('name\nJosé\n', 'utf16le')]);
+    const latin1 = Buffer.from('name\nMüller\n', 'latin1');
+
+    expect((await readAll(new File([utf16], 'leads.csv'))).rows).toEqual([{ name: 'José' }]);
+    expect((await readAll(new File([latin1], 'leads.csv'))).rows).toEqual([{ name: 'Müller' }]);
+  });
+
+  it('reports an empty file', async () => {
+    const reader = await openBulkFile(new File(['name\n'], 'leads.csv'));
+    expect(reader.isEmpty).toBe(true);
+    await reader.close();
+  });
+});
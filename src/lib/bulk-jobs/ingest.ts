@@ -0,0 +1,372 @@
+/**
+ * Bulk File Ingestion
+ *
+ * Reads the rows of an uploaded bulk file in batches, so a job can start on
+ * the first rows while the rest of the file is still being read. Text files
+ * (CSV, TSV, JSON arrays and NDJSON) are parsed from the upload stream with at
+ * most a couple of batches held in memory, in whichever encoding the file
+ * turns out to be; rows that fail to parse are reported with their position
+ * instead of failing the upload. Workbooks (XLSX and legacy XLS) can only be
+ * read whole by SheetJS, so the workbook is loaded once and the chosen
+ * sheet's rows are converted a batch at a time.
+ */
+
+import { Readable } from 'stream';
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { BULK_FILE_FORMATS, BulkFileFormat, detectBulkFileFormat, detectTextEncoding } from '@/lib/bulk-file-formats';
+import { BulkRowError } from './types';
+
+// Rows read from the file per batch
+const INGEST_BATCH_SIZE = 1000;
+// Most characters handed to the CSV parser at once. Papa parses a chunk in
+// one go, so this bounds how far it can run past a full batch.
+const CSV_CHUNK_SIZE = 64 * 1024;
+// Bytes looked at to work out a text file's encoding
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+// Interface for a batch of rows as they appear in the file, keyed by header
+export interface FileRowBatch {
+  rows: Record<string, unknown>[];
+  errors: BulkRowError[];
+}
+
+// Interface for an uploaded file opened for reading
+export interface BulkFileReader {
+  format: BulkFileFormat;
+  headers: string[];
+  // Every sheet of a workbook, empty for other formats
+  sheetNames: string[];
+  // The workbook sheet being read; null for other formats or when the requested sheet does not exist
+  sheetName: string | null;
+  // Field separator of a CSV or TSV file, null for other formats
+  delimiter: string | null;
+  // Whether the file has no data rows at all
+  isEmpty: boolean;
+  // Every batch of the file in order, starting with the one read when it was opened
+  batches: AsyncGenerator<FileRowBatch>;
+  // Stop reading a file whose batches will not be consumed
+  close: () => Promise<void>;
+}
+
+// Interface for options when opening a file
+export interface OpenBulkFileOptions {
+  // Sheet of a workbook to read; the first sheet when not given
+  sheetName?: string;
+}
+
+// Interface for what is learnt about a file while reading its first batch
+interface FileDetails {
+  headers: string[];
+  sheetNames: string[];
+  sheetName: string | null;
+  delimiter: string | null;
+}
+
+// Interface for a row reported by Papa's step callback
+interface CsvStepResult {
+  data: Record<string, string>;
+  errors: { message: string }[];
+  meta: { fields?: string[]; delimiter: string };
+}
+
+// Work out a text file's encoding from its first bytes
+async function detectEncoding(file: File): Promise<string> {
+  return detectTextEncoding(new Uint8Array(await file.slice(0, ENCODING_SAMPLE_SIZE).arrayBuffer()));
+}
+
+// Decode the upload as text in chunks of at most CSV_CHUNK_SIZE characters.
+// Multi-byte characters split across the stream's chunks are kept whole.
+async function* decodeText(stream: ReadableStream<Uint8Array>, encoding: string): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder(encoding);
+  const slices = function* (text: string) {
+    for (let start = 0; start < text.length; start += CSV_CHUNK_SIZE) {
+      yield text.slice(start, start + CSV_CHUNK_SIZE);
+    }
+  };
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* slices(decoder.decode(value, { stream: true }));
+    }
+    yield* slices(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Read a CSV or TSV file from its stream. CSV files may be separated by commas
+// or semicolons, so Papa works the delimiter out from the first lines. The
+// input is paused once a batch is waiting to be consumed, so memory stays
+// bounded however large the file is.
+async function* readCsvBatches(
+  file: File,
+  format: 'csv' | 'tsv',
+  details: FileDetails
+): AsyncGenerator<FileRowBatch> {
+  const input = Readable.from(decodeText(file.stream(), await detectEncoding(file)));
+  const pending: FileRowBatch = { rows: [], errors: [] };
+  let rowNumber = 0;
+  let finished = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+  const pendingCount = () => pending.rows.length + pending.errors.length;
+
+  Papa.parse(input, {
+    header: true,
+    skipEmptyLines: true,
+    delimiter: format === 'tsv' ? '\t' : undefined,
+    step: (results: CsvStepResult) => {
+      rowNumber++;
+      if (rowNumber === 1) {
+        details.headers = results.meta.fields || [];
+        details.delimiter = results.meta.delimiter;
+      }
+
+      if (results.errors.length > 0) {
+        pending.errors.push({ row: rowNumber, message: results.errors.map((error) => error.message).join('; ') });
+      } else {
+        pending.rows.push(results.data);
+      }
+      if (pendingCount() >= INGEST_BATCH_SIZE) input.pause();
+      notify();
+    },
+    complete: () => {
+      finished = true;
+      notify();
+    },
+    error: (error: Error) => {
+      failure = error;
+      notify();
+    },
+  });
+
+  try {
+    while (true) {
+      if (failure) throw failure;
+      if (pendingCount() >= INGEST_BATCH_SIZE || (finished && pendingCount() > 0)) {
+        yield { rows: pending.rows.splice(0), errors: pending.errors.splice(0) };
+        continue;
+      }
+      if (finished) return;
+
+      if (input.isPaused()) input.resume();
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    // Stop reading when the consumer stops early, e.g. a cancelled job
+    input.destroy();
+  }
+}
+
+// Split a JSON array into the text of its elements, as the text arrives
+async function* splitJsonArray(text: AsyncIterable<string>): AsyncGenerator<string> {
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = '';
+
+  for await (const chunk of text) {
+    for (const char of chunk) {
+      if (!started) {
+        if (char === '[') started = true;
+        else if (!/\s/.test(char)) throw new Error('Error parsing JSON: the file must hold an array of rows');
+        continue;
+      }
+
+      if (inString) {
+        element += char;
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (depth === 0 && (char === ',' || char === ']')) {
+        if (element.trim()) yield element;
+        element = '';
+        if (char === ']') return;
+        continue;
+      }
+
+      if (char === '"') inString = true;
+      else if (char === '{' || char === '[') depth++;
+      else if (char === '}' || char === ']') depth--;
+      element += char;
+    }
+  }
+
+  if (!started) throw new Error('Error parsing JSON: the file must hold an array of rows');
+  // The array was never closed; what is left is still reported as a row
+  if (element.trim()) yield element;
+}
+
+// Split NDJSON text into its non-blank lines, as the text arrives
+async function* splitLines(text: AsyncIterable<string>): AsyncGenerator<string> {
+  let line = '';
+  for await (const chunk of text) {
+    const lines = (line + chunk).split('\n');
+    line = lines.pop() ?? '';
+    for (const complete of lines) {
+      if (complete.trim()) yield complete;
+    }
+  }
+  if (line.trim()) yield line;
+}
+
+// Read a JSON array or NDJSON file, parsing one row object at a time. The
+// headers are every key seen in the first batch, in the order they appear.
+async function* readJsonBatches(
+  file: File,
+  format: 'json' | 'ndjson',
+  details: FileDetails
+): AsyncGenerator<FileRowBatch> {
+  const text = decodeText(file.stream(), await detectEncoding(file));
+  const values = format === 'json' ? splitJsonArray(text) : splitLines(text);
+  let batch: FileRowBatch = { rows: [], errors: [] };
+  let rowNumber = 0;
+  let headersKnown = false;
+
+  const setHeaders = () => {
+    if (headersKnown) return;
+    headersKnown = true;
+    details.headers = [...new Set(batch.rows.flatMap((row) => Object.keys(row)))];
+  };
+
+  for await (const value of values) {
+    rowNumber++;
+    try {
+      const row: unknown = JSON.parse(value);
+      if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+        batch.errors.push({ row: rowNumber, message: 'Row is not an object' });
+      } else {
+        batch.rows.push(row as Record<string, unknown>);
+      }
+    } catch (error) {
+      batch.errors.push({ row: rowNumber, message: error instanceof Error ? error.message : 'Invalid JSON' });
+    }
+
+    if (batch.rows.length + batch.errors.length >= INGEST_BATCH_SIZE) {
+      setHeaders();
+      yield batch;
+      batch = { rows: [], errors: [] };
+    }
+  }
+
+  setHeaders();
+  if (batch.rows.length + batch.errors.length > 0) yield batch;
+}
+
+// Give repeated headers a numeric suffix, the way sheet_to_json and Papa do
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header) => {
+    const count = seen.get(header) ?? 0;
+    seen.set(header, count + 1);
+    return count === 0 ? header : `${header}_${count}`;
+  });
+}
+
+// Read one sheet of an XLSX or XLS workbook, converting its rows a batch at a time
+async function* readWorkbookBatches(
+  file: File,
+  sheetName: string | undefined,
+  details: FileDetails
+): AsyncGenerator<FileRowBatch> {
+  const workbook = XLSX.read(Buffer.from(await file.arrayBuffer()), { type: 'buffer', dense: true });
+  details.sheetNames = workbook.SheetNames;
+  details.sheetName = sheetName ?? workbook.SheetNames[0] ?? null;
+  if (details.sheetName !== null && !workbook.SheetNames.includes(details.sheetName)) {
+    details.sheetName = null;
+    return;
+  }
+
+  const worksheet = details.sheetName === null ? undefined : workbook.Sheets[details.sheetName];
+  if (!worksheet || !worksheet['!ref']) return;
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const readRows = (start: number, end: number) => XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+    defval: '',
+    blankrows: false,
+  }) as unknown[][];
+
+  const [headerRow = []] = readRows(range.s.r, range.s.r);
+  const headers = uniqueHeaders(headerRow.map((header) => String(header ?? '')));
+  details.headers = headers;
+
+  for (let start = range.s.r + 1; start <= range.e.r; start += INGEST_BATCH_SIZE) {
+    const rows = readRows(start, Math.min(start + INGEST_BATCH_SIZE - 1, range.e.r));
+    if (rows.length === 0) continue;
+    yield {
+      rows: rows.map((cells) => Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))),
+      errors: [],
+    };
+  }
+}
+
+// Start reading a file in its format
+function readBatches(
+  file: File,
+  format: BulkFileFormat,
+  options: OpenBulkFileOptions,
+  details: FileDetails
+): AsyncGenerator<FileRowBatch> {
+  if (BULK_FILE_FORMATS[format].workbook) return readWorkbookBatches(file, options.sheetName, details);
+  if (format === 'json' || format === 'ndjson') return readJsonBatches(file, format, details);
+  return readCsvBatches(file, format === 'tsv' ? 'tsv' : 'csv', details);
+}
+
+/**
+ * Open an uploaded bulk file in any of the accepted formats and read its first
+ * batch, which is enough to know its headers and whether it has any rows. The
+ * remaining batches are read as the returned generator is consumed, or
+ * released with close() when they will not be.
+ */
+export async function openBulkFile(file: File, options: OpenBulkFileOptions = {}): Promise<BulkFileReader> {
+  const format = detectBulkFileFormat(file.name);
+  if (!format) {
+    throw new Error(`Error parsing ${file.name}: unsupported file type`);
+  }
+
+  const details: FileDetails = { headers: [], sheetNames: [], sheetName: null, delimiter: null };
+  const source = readBatches(file, format, options, details);
+
+  const first = await source.next();
+
+  // Put the batch read to find the headers back in front of the rest
+  async function* batches(): AsyncGenerator<FileRowBatch> {
+    if (first.done) return;
+    try {
+      yield first.value;
+      yield* source;
+    } finally {
+      await source.return(undefined);
+    }
+  }
+
+  return {
+    format,
+    headers: details.headers,
+    sheetNames: details.sheetNames,
+    sheetName: details.sheetName,
+    delimiter: details.delimiter,
+    isEmpty: first.done === true || first.value.rows.length + first.value.errors.length === 0,
+    batches: batches(),
+    close: async () => {
+      await source.return(undefined);
+    },
+  };
+}
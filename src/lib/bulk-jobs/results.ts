@@ -0,0 +1,152 @@
+/**
+ * Bulk Results
+ *
+ * The job worker stores result rows one part per batch (the `bulk-part` kind
+ * of the result store) as it goes, so a job never holds more than one batch of
+ * rows in memory. The history entry only holds the metadata and how the rows
+ * were split into parts. Entries stored before parts were written, and bulk
+ * reverse lookups, keep their rows inline in `results`; the readers below
+ * handle both.
+ */
+
+import { getResultStore } from '@/lib/result-store';
+
+// A stored result row
+export type BulkResultRow = Record<string, unknown>;
+
+// Statuses the rows of a bulk result can be filtered by
+export type BulkResultStatus = 'verified' | 'unverified' | 'not-found';
+
+// Interface for a filter of the rows of a bulk result
+export interface BulkResultFilter {
+  status?: BulkResultStatus;
+  // Text to find in the names, company or emails of a row, compared case-insensitively
+  search?: string;
+}
+
+// Interface for the fields of a stored bulk result that locate its rows
+export interface StoredBulkResultRows {
+  recordCount?: number;
+  // Number of parts the rows were written in, and the rows in each part but the last
+  resultParts?: number;
+  resultPartSize?: number;
+  // Inline rows of entries stored without parts
+  results?: BulkResultRow[] | BulkResultRow;
+}
+
+// Id of one part of a bulk result
+function partId(searchId: string, index: number): string {
+  return `${searchId}-part-${index}`;
+}
+
+// Read a part, treating a missing part as empty
+async function readPart(userId: string, searchId: string, index: number): Promise<BulkResultRow[]> {
+  return (await getResultStore().get<BulkResultRow[]>(userId, 'bulk-part', partId(searchId, index))) ?? [];
+}
+
+/**
+ * Store one part of a bulk result's rows
+ */
+export async function putBulkResultPart(
+  userId: string,
+  searchId: string,
+  index: number,
+  rows: BulkResultRow[]
+): Promise<void> {
+  await getResultStore().put(userId, 'bulk-part', partId(searchId, index), rows);
+}
+
+/**
+ * Delete the parts of a bulk result, e.g. with its history entry or when its job stops
+ */
+export async function deleteBulkResultParts(userId: string, searchId: string, partCount: number): Promise<void> {
+  for (let index = 0; index < partCount; index++) {
+    await getResultStore().delete(userId, 'bulk-part', partId(searchId, index));
+  }
+}
+
+/**
+ * Count the rows of a stored bulk result
+ */
+export function countBulkResultRows(stored: StoredBulkResultRows): number {
+  if (stored.resultParts !== undefined) return stored.recordCount ?? 0;
+  if (!stored.results) return 0;
+  return Array.isArray(stored.results) ? stored.results.length : 1;
+}
+
+// Whether a row passes a filter
+function matchesFilter(row: BulkResultRow, filter: BulkResultFilter): boolean {
+  if (filter.status === 'verified' && row.isVerified !== true) return false;
+  if (filter.status === 'unverified' && row.isVerified !== false) return false;
+  if (filter.status === 'not-found' && row.foundEmail) return false;
+
+  const search = filter.search?.trim().toLowerCase();
+  if (!search) return true;
+  const personalEmails = Array.isArray(row.personalEmails) ? row.personalEmails : [];
+  return [row.firstName, row.lastName, row.companyName, row.foundEmail, row.lookupEmail, ...personalEmails]
+    .some((value) => typeof value === 'string' && value.toLowerCase().includes(search));
+}
+
+/**
+ * Read the rows of a stored bulk result, or only the `limit` rows from
+ * `offset` on. Only the parts holding those rows are read.
+ */
+export async function readBulkResultRows(
+  userId: string,
+  searchId: string,
+  stored: StoredBulkResultRows,
+  range?: { offset: number; limit: number }
+): Promise<BulkResultRow[]> {
+  if (stored.resultParts === undefined) {
+    const rows = !stored.results ? [] : Array.isArray(stored.results) ? stored.results : [stored.results];
+    return range ? rows.slice(range.offset, range.offset + range.limit) : rows;
+  }
+
+  const partSize = stored.resultPartSize || 1;
+  const firstPart = range ? Math.floor(range.offset / partSize) : 0;
+  const lastPart = range
+    ? Math.min(Math.floor((range.offset + range.limit - 1) / partSize), stored.resultParts - 1)
+    : stored.resultParts - 1;
+
+  const rows: BulkResultRow[] = [];
+  for (let index = firstPart; index <= lastPart; index++) {
+    rows.push(...await readPart(userId, searchId, index));
+  }
+
+  if (!range) return rows;
+  const start = range.offset - firstPart * partSize;
+  return rows.slice(start, start + range.limit);
+}
+
+/**
+ * Read the `limit` rows from `offset` on of the rows that pass a filter, with
+ * the number of rows that pass it. Every part is read to count them, one at a
+ * time, so only one part and the requested rows are held in memory.
+ */
+export async function filterBulkResultRows(
+  userId: string,
+  searchId: string,
+  stored: StoredBulkResultRows,
+  filter: BulkResultFilter,
+  range: { offset: number; limit: number }
+): Promise<{ rows: BulkResultRow[]; total: number }> {
+  const rows: BulkResultRow[] = [];
+  let total = 0;
+  const collect = (candidates: BulkResultRow[]) => {
+    for (const row of candidates) {
+      if (!matchesFilter(row, filter)) continue;
+      if (total >= range.offset && rows.length < range.limit) rows.push(row);
+      total++;
+    }
+  };
+
+  if (stored.resultParts === undefined) {
+    collect(await readBulkResultRows(userId, searchId, stored));
+  } else {
+    for (let index = 0; index < stored.resultParts; index++) {
+      collect(await readPart(userId, searchId, index));
+    }
+  }
+
+  return { rows, total };
+}
@@ -0,0 +1,127 @@
+/**
+ * Bulk Job Store
+ *
+ * Persists bulk job status records through the configured result store, so
+ * status can be read by any server instance while a job runs.
+ *
+ * The result store has no conditional writes, so a cancellation is also
+ * recorded as a separate marker that only cancelJob writes: a worker saving
+ * progress at the same moment can overwrite the job record, but not the
+ * marker, and every read of the job applies it. Running workers save the job
+ * at least every JOB_HEARTBEAT_INTERVAL_MS; a queued or running job that has
+ * not been saved for STALE_JOB_AFTER_MS lost its worker (e.g. the instance
+ * running it was stopped) and is recorded as failed when it is next read.
+ */
+
+import { getResultStore } from '@/lib/result-store';
+import { publishJobProgress } from './events';
+import { BulkJob, isTerminalState } from './types';
+
+// How often a running worker saves its job, even in the middle of a batch
+export const JOB_HEARTBEAT_INTERVAL_MS = 30000;
+// How long a queued or running job can go unsaved before it is treated as abandoned
+const STALE_JOB_AFTER_MS = 5 * 60000;
+
+// Interface for the marker recording that a job was cancelled
+interface JobCancellation {
+  requestedAt: string;
+}
+
+// Id of a job's cancellation marker
+function cancellationId(jobId: string): string {
+  return `${jobId}-cancel`;
+}
+
+/**
+ * Create and persist a new queued job
+ */
+export async function createJob(
+  fields: Pick<BulkJob, 'jobId' | 'userId' | 'fileName' | 'totalRows' | 'readingFile'>
+): Promise<BulkJob> {
+  const now = new Date().toISOString();
+  const job: BulkJob = {
+    ...fields,
+    state: 'queued',
+    rowsDone: 0,
+    rowsFound: 0,
+    cacheHits: 0,
+    parseErrors: 0,
+    rowsPerSecond: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getResultStore().put(job.userId, 'job', job.jobId, job);
+  return job;
+}
+
+/**
+ * Read a job, or null when it does not exist. A job that was cancelled is
+ * returned as cancelled even if a worker overwrote its record since, and an
+ * unfinished job whose worker stopped saving it is recorded as failed.
+ */
+export async function getJob(userId: string, jobId: string): Promise<BulkJob | null> {
+  const resultStore = getResultStore();
+  const job = await resultStore.get<BulkJob>(userId, 'job', jobId);
+  if (!job || isTerminalState(job.state)) return job;
+
+  const cancellation = await resultStore.get<JobCancellation>(userId, 'job', cancellationId(jobId));
+  if (cancellation) {
+    return { ...job, state: 'cancelled', updatedAt: cancellation.requestedAt, finishedAt: cancellation.requestedAt };
+  }
+
+  if (Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_AFTER_MS) {
+    const now = new Date().toISOString();
+    const failed: BulkJob = {
+      ...job,
+      state: 'failed',
+      error: 'The job stopped responding and was abandoned. Please upload the file again.',
+      updatedAt: now,
+      finishedAt: now,
+    };
+    await resultStore.put(userId, 'job', jobId, failed);
+    publishJobProgress(failed);
+    return failed;
+  }
+
+  return job;
+}
+
+/**
+ * Apply changes to a job and persist it.
+ * The job is re-read right before it is written, and jobs that have already
+ * finished (including ones cancelled while a worker was processing a batch)
+ * are left untouched.
+ */
+export async function updateJob(
+  userId: string,
+  jobId: string,
+  changes: Partial<Omit<BulkJob, 'jobId' | 'userId'>>
+): Promise<BulkJob | null> {
+  const job = await getJob(userId, jobId);
+  if (!job || isTerminalState(job.state)) return job;
+
+  const updated: BulkJob = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  await getResultStore().put(userId, 'job', jobId, updated);
+  publishJobProgress(updated);
+  return updated;
+}
+
+/**
+ * Request cancellation of a job; the worker stops before its next batch.
+ * Returns the job as it is after the request, or null when it does not exist.
+ */
+export async function cancelJob(userId: string, jobId: string): Promise<BulkJob | null> {
+  const job = await getJob(userId, jobId);
+  if (!job || isTerminalState(job.state)) return job;
+
+  const now = new Date().toISOString();
+  const resultStore = getResultStore();
+  const cancellation: JobCancellation = { requestedAt: now };
+  await resultStore.put(userId, 'job', cancellationId(jobId), cancellation);
+
+  const cancelled: BulkJob = { ...job, state: 'cancelled', updatedAt: now, finishedAt: now };
+  await resultStore.put(userId, 'job', jobId, cancelled);
+  publishJobProgress(cancelled);
+  return cancelled;
+}
@@ -0,0 +1,133 @@
+/**
+ * Bulk Job Types
+ *
+ * Shared shapes for asynchronous bulk email lookups: the job status record
+ * polled by the client and the rows a job works through as they are read
+ * from the uploaded file.
+ */
+
+import type { BulkFileFormat } from '@/lib/bulk-file-formats';
+import type { ColumnMapping } from '@/lib/column-mapping';
+
+// Lifecycle states of a bulk job
+export type BulkJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Interface for a bulk job status record
+export interface BulkJob {
+  jobId: string;
+  userId: string;
+  fileName: string;
+  state: BulkJobState;
+  // Rows read from the file so far; final once readingFile is false
+  totalRows: number;
+  // Whether rows are still being read from the uploaded file
+  readingFile?: boolean;
+  rowsDone: number;
+  rowsFound: number;
+  // Rows answered from the lookup cache instead of the contact directory
+  cacheHits: number;
+  // Rows of the file that could not be parsed and were left out
+  parseErrors: number;
+  // Recent processing rate, used to estimate the time remaining
+  rowsPerSecond: number;
+  // Id of the stored bulk result once the job has completed
+  resultId?: string;
+  // API path the completed result can be fetched from
+  resultLocation?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Interface for the expected record structure of an uploaded file.
+// Rows are searched with whichever of the search fields they have.
+export interface BulkRecord {
+  firstName?: string;
+  lastName?: string;
+  linkedin?: string;
+  companyName?: string;
+  // Website or email domain of the company, e.g. "acme.io"
+  companyDomain?: string;
+  // Add other potential columns if needed, marking them as optional
+  personalEmails?: string[]; // Allow personalEmails to be an array of strings
+  [key: string]: string | number | string[] | null | undefined; // Allow for other columns with specific types
+}
+
+// Interface for a row of the uploaded file that could not be parsed
+export interface BulkRowError {
+  // Position of the row among the file's data rows, starting at 1
+  row: number;
+  message: string;
+}
+
+// Interface for how the uploaded file was laid out, kept with the result so
+// the file can be given back with the found emails added
+export interface BulkSourceFile {
+  format: BulkFileFormat;
+  // Sheet that was read from a workbook
+  sheetName: string | null;
+  // Field separator of a CSV or TSV file
+  delimiter: string | null;
+  // The file's columns in their original order
+  columns: string[];
+  // File columns that were renamed to lookup fields
+  columnMapping: ColumnMapping;
+}
+
+// Interface for a batch of rows read from the uploaded file, in file order
+export interface BulkRowBatch {
+  records: BulkRecord[];
+  errors: BulkRowError[];
+}
+
+// Interface for a progress event streamed to clients while a job runs
+export interface BulkJobProgress {
+  jobId: string;
+  state: BulkJobState;
+  totalRows: number;
+  readingFile: boolean;
+  rowsDone: number;
+  rowsFound: number;
+  cacheHits: number;
+  parseErrors: number;
+  rowsPerSecond: number;
+  // Estimated seconds until the job finishes, or null when unknown
+  etaSeconds: number | null;
+  resultLocation: string | null;
+  error: string | null;
+}
+
+/**
+ * Whether a job has finished and will not change any more
+ */
+export function isTerminalState(state: BulkJobState): boolean {
+  return state === 'completed' || state === 'failed' || state === 'cancelled';
+}
+
+/**
+ * Build the progress event for a job
+ */
+export function toJobProgress(job: BulkJob): BulkJobProgress {
+  const remainingRows = job.totalRows - job.rowsDone;
+  // The total is not known while the file is still being read
+  const etaSeconds = job.state === 'running' && job.rowsPerSecond > 0 && !job.readingFile
+    ? Math.ceil(remainingRows / job.rowsPerSecond)
+    : null;
+
+  return {
+    jobId: job.jobId,
+    state: job.state,
+    totalRows: job.totalRows,
+    readingFile: job.readingFile ?? false,
+    rowsDone: job.rowsDone,
+    rowsFound: job.rowsFound,
+    cacheHits: job.cacheHits ?? 0,
+    parseErrors: job.parseErrors ?? 0,
+    rowsPerSecond: job.rowsPerSecond ?? 0,
+    etaSeconds,
+    resultLocation: job.resultLocation ?? null,
+    error: job.error ?? null,
+  };
+}
@@ -0,0 +1,677 @@
+/**
+ * Bulk Job Worker
+ *
+ * Processes the rows of a bulk job in the background as they are read from
+ * the uploaded file: looks each row up in
+ * the contact directory (with the DynamoDB cache for Athena), validates found
+ * emails and checks that they can receive mail without sending anything to
+ * them (format, disposable domains and the domain's MX records), appends any requested enrichment columns, publishes
+ * progress after every row, and persists progress and the batch's result rows
+ * after every batch. Only one batch of rows is held in memory; the bulk search
+ * history entry stored at the end refers to the stored parts. Progress is also
+ * saved on a timer while a batch runs, as the heartbeat that tells the job
+ * store the worker is still alive.
+ */
+
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  GetItemCommand
+} from '@aws-sdk/client-dynamodb';
+import { hasSearchCriteria, PersonSearchCriteria } from '@/lib/athena-query-builder';
+import { initDynamoDBClient } from '@/lib/aws-service';
+import { normalizeCompanyDomain, normalizeCompanyName } from '@/lib/company-normalization';
+import {
+  ContactDirectory,
+  createLookupUsage,
+  getContactDirectory,
+  LookupOptions,
+  LookupUsage,
+  MatchCriterion,
+  MatchTier,
+  PersonMatch,
+} from '@/lib/contact-directory';
+import { inferFromSamples, InferredEmail } from '@/lib/email-patterns';
+import { hasMxRecords, isDisposableEmail, isValidEmail } from '@/lib/email-verification';
+import { bulkExportTable } from '@/lib/result-export';
+import { getResultStore } from '@/lib/result-store';
+import { publishJobProgress } from './events';
+import { BulkResultRow, deleteBulkResultParts, putBulkResultPart } from './results';
+import { getJob, JOB_HEARTBEAT_INTERVAL_MS, updateJob } from './store';
+import { BulkJob, isTerminalState, BulkRecord, BulkRowBatch, BulkRowError, BulkSourceFile } from './types';
+
+// Interface for how a row's directory match was made
+type MatchExplanation = Pick<PersonMatch, 'matchTier' | 'matchedCriteria' | 'nameMatches' | 'enrichment'>;
+
+// Rows processed between persisted progress updates and cancellation checks.
+// Each batch is one contact directory lookup, i.e. one Athena set query, and
+// one stored part of the result.
+const JOB_BATCH_SIZE = 1000;
+// Rows whose found emails are checked concurrently
+const VERIFY_CONCURRENCY = 25;
+// Window the current throughput is measured over
+const THROUGHPUT_WINDOW_MS = 30000;
+// Parse errors kept with the stored result; the rest are only counted
+const MAX_STORED_PARSE_ERRORS = 1000;
+
+// Whether a found email can receive mail, checked without sending anything to
+// it: SES verification would email every prospect. MX lookups are shared per
+// domain for the whole job.
+async function canReceiveMail(email: string, mxChecks: Map<string, Promise<boolean>>): Promise<boolean> {
+  if (!isValidEmail(email) || isDisposableEmail(email)) return false;
+
+  const domain = email.split('@')[1].toLowerCase();
+  let check = mxChecks.get(domain);
+  if (!check) {
+    check = hasMxRecords(domain);
+    mxChecks.set(domain, check);
+  }
+  return check;
+}
+
+// Helper function to validate and normalize email before processing
+async function validateAndNormalizeEmail(email: string): Promise<string | null> {
+  if (!email) return null;
+
+  // Basic format validation
+  if (!isValidEmail(email)) {
+    console.warn(`Invalid email format: ${email}`);
+    return null;
+  }
+
+  // Normalize email (lowercase)
+  const normalizedEmail = email.trim().toLowerCase();
+
+  // Check for common disposable email domains
+  const disposableDomains = ['mailinator.com', 'tempmail.com', 'throwawaymail.com', 'guerrillamail.com'];
+  const domain = normalizedEmail.split('@')[1];
+
+  if (disposableDomains.some(disposable => domain.includes(disposable))) {
+    console.warn(`Disposable email detected: ${normalizedEmail}`);
+    return null;
+  }
+
+  // Check for obviously fake patterns
+  const suspiciousPatterns = ['test@', 'fake@', 'example@', 'user@'];
+  if (suspiciousPatterns.some(pattern => normalizedEmail.startsWith(pattern))) {
+    console.warn(`Suspicious email pattern detected: ${normalizedEmail}`);
+    return null;
+  }
+
+  return normalizedEmail;
+}
+
+// Helper function to build the lookup cache key of a record
+function getCacheKey(record: BulkRecord): string {
+  const { firstName = '', lastName = '', linkedin = '', companyName = '' } = record;
+  const key = `${firstName.toLowerCase()}_${lastName.toLowerCase()}_${companyName.toLowerCase()}_${linkedin.toLowerCase()}`;
+  // Rows without a domain keep the key they had before domains were supported
+  const companyDomain = getRecordDomain(record);
+  return companyDomain ? `${key}_${companyDomain}` : key;
+}
+
+// Helper function to read a record's normalized company domain; invalid domains are ignored
+function getRecordDomain(record: BulkRecord): string | null {
+  return record.companyDomain ? normalizeCompanyDomain(String(record.companyDomain)) : null;
+}
+
+// Helper function to check DynamoDB cache for a record
+async function checkCache(
+  record: BulkRecord,
+  dynamoClient: DynamoDBClient,
+  enrichmentFields: string[]
+): Promise<{ email: string; match: MatchExplanation } | null> {
+  // Create a cache key based on the record data
+  const cacheKey = getCacheKey(record);
+
+  try {
+    const params = {
+      TableName: process.env.DYNAMODB_CACHE_TABLE || 'email-lookup-cache',
+      Key: {
+        'cacheKey': { S: cacheKey }
+      }
+    };
+
+    const result = await dynamoClient.send(new GetItemCommand(params));
+
+    // Entries cached before match tiers were recorded are looked up again
+    if (result.Item && result.Item.email && result.Item.email.S && result.Item.matchTier?.S) {
+      // Entries cached without every requested enrichment column are looked up again
+      const enrichment = result.Item.enrichment?.S ? JSON.parse(result.Item.enrichment.S) : {};
+      if (enrichmentFields.some((field) => !(field in enrichment))) return null;
+
+      console.log('Cache hit for:', cacheKey);
+      return {
+        email: result.Item.email.S,
+        match: {
+          matchTier: result.Item.matchTier.S as MatchTier,
+          matchedCriteria: (result.Item.matchedCriteria?.SS || []) as MatchCriterion[],
+          nameMatches: result.Item.nameMatches?.S ? JSON.parse(result.Item.nameMatches.S) : {},
+          ...(enrichmentFields.length > 0
+            ? { enrichment: Object.fromEntries(enrichmentFields.map((field) => [field, enrichment[field]])) }
+            : {}),
+        },
+      };
+    }
+
+    return null; // Cache miss
+  } catch (error: unknown) {
+    console.error('Error checking DynamoDB cache:', error);
+    return null; // Proceed without cache on error
+  }
+}
+
+// Helper function to store result in DynamoDB cache
+async function storeInCache(
+  record: BulkRecord,
+  email: string,
+  match: MatchExplanation,
+  dynamoClient: DynamoDBClient
+): Promise<void> {
+  if (!email) return; // Don't cache null results
+
+  const cacheKey = getCacheKey(record);
+
+  try {
+    const params = {
+      TableName: process.env.DYNAMODB_CACHE_TABLE || 'email-lookup-cache',
+      Item: {
+        'cacheKey': { S: cacheKey },
+        'email': { S: email },
+        'matchTier': { S: match.matchTier },
+        // String sets cannot be empty
+        ...(match.matchedCriteria.length > 0 ? { 'matchedCriteria': { SS: match.matchedCriteria } } : {}),
+        'nameMatches': { S: JSON.stringify(match.nameMatches) },
+        ...(match.enrichment ? { 'enrichment': { S: JSON.stringify(match.enrichment) } } : {}),
+        'ttl': { N: (Math.floor(Date.now() / 1000) + 86400 * 30).toString() } // 30 days TTL
+      }
+    };
+
+    await dynamoClient.send(new PutItemCommand(params));
+    console.log('Stored in cache:', cacheKey);
+  } catch (error: unknown) {
+    console.error('Error storing in DynamoDB cache:', error);
+    // Continue even if caching fails
+  }
+}
+
+// Helper function to read the search criteria of a record; blank fields are left out
+function getSearchCriteria(record: BulkRecord): PersonSearchCriteria {
+  const criteria: PersonSearchCriteria = {};
+  for (const field of ['firstName', 'lastName', 'linkedin', 'companyName'] as const) {
+    const value = record[field] === undefined || record[field] === null ? '' : String(record[field]).trim();
+    if (value) criteria[field] = value;
+  }
+  const companyDomain = getRecordDomain(record);
+  if (companyDomain) criteria.companyDomain = companyDomain;
+  return criteria;
+}
+
+// Helper function to explain why a record cannot be looked up, following the rules of a single search.
+// Returns null when the record can be searched.
+function getSkipReason(record: BulkRecord): string | null {
+  if (record.companyDomain && String(record.companyDomain).trim() && !getRecordDomain(record)) {
+    return 'Company domain is not a valid domain name (e.g. acme.io).';
+  }
+  if (!hasSearchCriteria(getSearchCriteria(record))) {
+    return 'No search criteria: the row has no name, LinkedIn URL, company name or company domain.';
+  }
+  return null;
+}
+
+// Helper function to look up a batch of records in the contact directory
+async function findEmailsInDirectory(
+  records: BulkRecord[],
+  directory: ContactDirectory,
+  dynamoClient: DynamoDBClient,
+  usage: LookupUsage,
+  options: LookupOptions
+): Promise<{
+  emails: (string | null)[];
+  matches: (MatchExplanation | null)[];
+  skipReasons: (string | null)[];
+  cacheHits: number;
+}> {
+  const results: (string | null)[] = new Array(records.length).fill(null);
+  const explanations: (MatchExplanation | null)[] = new Array(records.length).fill(null);
+  const skipReasons = records.map(getSkipReason);
+  let cacheHits = 0;
+  // The shared cache only holds lookups against the Athena dataset
+  const useCache = directory.backend === 'athena';
+  const pendingIndexes: number[] = [];
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    if (skipReasons[index]) {
+      console.warn(`Skipping record ${index}: ${skipReasons[index]}`);
+      continue;
+    }
+
+    // First check cache
+    const cached = useCache ? await checkCache(record, dynamoClient, options.enrichmentFields ?? []) : null;
+    if (cached) {
+      console.log(`Cache hit for ${record.firstName} ${record.lastName} at ${record.companyName}`);
+      results[index] = cached.email;
+      explanations[index] = cached.match;
+      cacheHits++;
+    } else {
+      pendingIndexes.push(index);
+    }
+  }
+
+  const matches = await directory.findMany(
+    pendingIndexes.map((index) => getSearchCriteria(records[index])),
+    usage,
+    options
+  );
+
+  for (let i = 0; i < pendingIndexes.length; i++) {
+    const record = records[pendingIndexes[i]];
+    const match = matches[i];
+    if (!match) {
+      console.log(`No matching records found for ${record.firstName} ${record.lastName} at ${record.companyName}`);
+      continue;
+    }
+
+    // Validate and normalize email before returning
+    const validatedEmail = match.email ? await validateAndNormalizeEmail(match.email) : null;
+
+    // If valid email found, store in cache
+    if (validatedEmail && useCache) {
+      await storeInCache(record, validatedEmail, match, dynamoClient);
+    }
+
+    // Store personal emails in the record for later use
+    if (match.personalEmails && match.personalEmails.length > 0) {
+      record.personalEmails = match.personalEmails;
+    }
+
+    results[pendingIndexes[i]] = validatedEmail;
+    explanations[pendingIndexes[i]] = {
+      matchTier: match.matchTier,
+      matchedCriteria: match.matchedCriteria,
+      nameMatches: match.nameMatches,
+      ...(match.enrichment ? { enrichment: match.enrichment } : {}),
+    };
+  }
+
+  return { emails: results, matches: explanations, skipReasons, cacheHits };
+}
+
+// Helper function to look up the email domains of each record's company
+async function findCompanyDomains(
+  records: BulkRecord[],
+  skipReasons: (string | null)[],
+  directory: ContactDirectory,
+  usage: LookupUsage
+): Promise<string[][]> {
+  // Look each company up once, however it is spelled across rows; skipped rows are not looked up
+  const keys = records.map((record, index) => (skipReasons[index] ? '' : normalizeCompanyName(record.companyName || '')));
+  const companies = Array.from(new Set(keys.filter(Boolean)));
+
+  try {
+    const domains = await directory.findCompanyDomains(companies, usage);
+    const byKey = new Map(companies.map((key, index) => [key, domains[index].map((entry) => entry.domain)]));
+    return keys.map((key) => byKey.get(key) ?? []);
+  } catch (error) {
+    console.error('Error looking up company domains:', error);
+    return records.map(() => []);
+  }
+}
+
+// Helper function to guess the email of each record without a found email from its company's email format
+async function inferMissingEmails(
+  records: BulkRecord[],
+  emails: (string | null)[],
+  skipReasons: (string | null)[],
+  directory: ContactDirectory,
+  usage: LookupUsage
+): Promise<(InferredEmail | null)[]> {
+  // Sample each company once: by domain when the row has one, otherwise by normalized name
+  const keys = records.map((record, index) => {
+    if (emails[index] || skipReasons[index] || !record.firstName || !record.lastName) return null;
+    const companyDomain = getRecordDomain(record);
+    if (companyDomain) return `domain:${companyDomain}`;
+    const companyName = normalizeCompanyName(record.companyName || '');
+    return companyName ? `name:${companyName}` : null;
+  });
+
+  const companies = new Map<string, { companyName?: string; companyDomain?: string }>();
+  records.forEach((record, index) => {
+    const key = keys[index];
+    if (!key || companies.has(key)) return;
+    const companyDomain = getRecordDomain(record);
+    companies.set(key, companyDomain ? { companyDomain } : { companyName: record.companyName });
+  });
+  if (companies.size === 0) return records.map(() => null);
+
+  try {
+    const samples = await directory.findEmailSamples(Array.from(companies.values()), usage);
+    const byKey = new Map(Array.from(companies.keys(), (key, index) => [key, samples[index]]));
+
+    return records.map((record, index) => {
+      const key = keys[index];
+      const companySamples = key ? byKey.get(key) : undefined;
+      if (!companySamples) return null;
+      const { emails: inferred } = inferFromSamples(record.firstName || '', record.lastName || '', companySamples, {
+        preferredDomain: getRecordDomain(record),
+        limit: 1,
+      });
+      return inferred[0] ?? null;
+    });
+  } catch (error) {
+    console.error('Error inferring missing emails:', error);
+    return records.map(() => null);
+  }
+}
+
+// Tracks rows processed over a sliding window to report current throughput
+class ThroughputMeter {
+  private samples: { time: number; rows: number }[] = [];
+
+  constructor(private readonly windowMs: number) {}
+
+  record(rowsDone: number): number {
+    const now = Date.now();
+    this.samples.push({ time: now, rows: rowsDone });
+    while (this.samples.length > 1 && now - this.samples[0].time > this.windowMs) {
+      this.samples.shift();
+    }
+
+    const oldest = this.samples[0];
+    const elapsedSeconds = (now - oldest.time) / 1000;
+    if (elapsedSeconds <= 0) return 0;
+    return Math.round(((rowsDone - oldest.rows) / elapsedSeconds) * 10) / 10;
+  }
+}
+
+// Regroups the rows read from a file into job batches of JOB_BATCH_SIZE records
+class BatchReader {
+  private pending: BulkRecord[] = [];
+  private exhausted = false;
+  recordsRead = 0;
+  errorCount = 0;
+  readonly errors: BulkRowError[] = [];
+
+  constructor(private readonly iterator: AsyncIterator<BulkRowBatch>) {}
+
+  // Whether the whole file has been read
+  get done(): boolean {
+    return this.exhausted;
+  }
+
+  // Read the next batch; an empty batch means the file has been processed
+  async next(): Promise<BulkRecord[]> {
+    while (!this.exhausted && this.pending.length < JOB_BATCH_SIZE) {
+      const result = await this.iterator.next();
+      if (result.done) {
+        this.exhausted = true;
+        break;
+      }
+
+      this.pending.push(...result.value.records);
+      this.recordsRead += result.value.records.length;
+      this.errorCount += result.value.errors.length;
+      this.errors.push(...result.value.errors.slice(0, MAX_STORED_PARSE_ERRORS - this.errors.length));
+    }
+    return this.pending.splice(0, JOB_BATCH_SIZE);
+  }
+
+  // Stop reading the file, e.g. when the job is cancelled
+  async close(): Promise<void> {
+    if (!this.exhausted) await this.iterator.return?.();
+  }
+}
+
+// Helper function to combine a record with its found email and verify it
+async function buildResultRow(
+  record: BulkRecord,
+  foundEmail: string | null,
+  match: MatchExplanation | null,
+  companyDomains: string[],
+  inferredEmail: InferredEmail | null,
+  skipReason: string | null,
+  mxChecks: Map<string, Promise<boolean>>
+) {
+  let isVerified = false;
+  let emailQuality = null;
+
+  if (foundEmail) {
+    isVerified = await canReceiveMail(foundEmail, mxChecks);
+
+    // Determine email quality based on domain
+    const domain = foundEmail.split('@')[1];
+    if (domain) {
+      if (['gmail.com', 'outlook.com', 'hotmail.com', 'yahoo.com'].includes(domain)) {
+        emailQuality = 'personal';
+      } else {
+        emailQuality = 'business';
+      }
+    }
+  }
+
+  return {
+    ...record,
+    foundEmail,
+    personalEmails: record.personalEmails || [],
+    isVerified: foundEmail ? isVerified : null,
+    emailQuality,
+    matchTier: match?.matchTier ?? null,
+    matchedCriteria: match?.matchedCriteria ?? null,
+    nameMatches: match?.nameMatches ?? null,
+    // Requested extra columns of the matched record, keyed by column name
+    enrichment: match?.enrichment ?? null,
+    companyDomains,
+    inferredEmail: inferredEmail?.email ?? null,
+    inferredEmailPattern: inferredEmail?.pattern ?? null,
+    inferredEmailConfidence: inferredEmail?.confidence ?? null,
+    // Why the row was not looked up, or null when it was
+    skipReason,
+    processedAt: new Date().toISOString()
+  };
+}
+
+// Helper function to record the fields of a result row in a sample row that holds a value for
+// every field any row has, so the export columns are known without reading the parts back
+function addToColumnSample(sample: BulkResultRow, row: BulkResultRow): void {
+  for (const [field, value] of Object.entries(row)) {
+    if (value === undefined) continue;
+    if (field === 'enrichment') {
+      sample.enrichment = { ...(sample.enrichment as Record<string, unknown> | undefined), ...(value as Record<string, unknown> | null) };
+    } else if (!(field in sample) || (!sample[field] && value)) {
+      sample[field] = value;
+    }
+  }
+}
+
+/**
+ * Process a queued job to completion, reading its rows from the source as it goes.
+ * The layout of the uploaded file, when given, is stored with the result so the
+ * file can be downloaded again with the found emails added.
+ * Never throws: failures are recorded on the job so the client can see them.
+ */
+export async function runBulkJob(
+  job: BulkJob,
+  source: AsyncIterable<BulkRowBatch>,
+  options: LookupOptions = {},
+  sourceFile: BulkSourceFile | null = null
+): Promise<void> {
+  const { userId, jobId } = job;
+  const reader = new BatchReader(source[Symbol.asyncIterator]());
+  // Parts of the result stored so far, removed again if the job does not complete
+  let resultParts = 0;
+  let completed = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  // Job saves run one at a time, so an older snapshot never lands after a newer one
+  let saving: Promise<unknown> = Promise.resolve();
+  const saveJob = (changes: Parameters<typeof updateJob>[2]): Promise<unknown> => {
+    saving = saving.catch(() => {}).then(() => updateJob(userId, jobId, changes));
+    return saving;
+  };
+
+  try {
+    const started = await updateJob(userId, jobId, { state: 'running', startedAt: new Date().toISOString() });
+    if (!started || started.state !== 'running') {
+      console.log(`Bulk job ${jobId} was not started (${started?.state ?? 'missing'})`);
+      return;
+    }
+
+    // Resolve the configured contact directory (Athena or local CSV)
+    const directory = getContactDirectory();
+    const dynamoClient = initDynamoDBClient();
+    // MX record checks of the found emails' domains, by domain
+    const mxChecks = new Map<string, Promise<boolean>>();
+
+    // Counts of the stored rows; the rows themselves are stored per batch
+    let verifiedCount = 0;
+    let skippedCount = 0;
+    const columnSample: BulkResultRow = {};
+    // Live progress, published per row and persisted per batch
+    const progress: BulkJob = { ...started };
+    const meter = new ThroughputMeter(THROUGHPUT_WINDOW_MS);
+    // Query cost of the whole job, stored with the history entry
+    const queryUsage = createLookupUsage();
+    meter.record(0);
+
+    const saveProgress = () => saveJob({
+      totalRows: progress.totalRows,
+      readingFile: progress.readingFile,
+      parseErrors: progress.parseErrors,
+      rowsDone: progress.rowsDone,
+      rowsFound: progress.rowsFound,
+      cacheHits: progress.cacheHits,
+      rowsPerSecond: progress.rowsPerSecond,
+    });
+    heartbeat = setInterval(() => {
+      saveProgress().catch((error) => console.error(`Error saving the progress of bulk job ${jobId}:`, error));
+    }, JOB_HEARTBEAT_INTERVAL_MS);
+
+    while (true) {
+      // Stop between batches if the job was cancelled, or given up on as abandoned
+      const current = await getJob(userId, jobId);
+      if (!current || isTerminalState(current.state)) {
+        console.log(`Bulk job ${jobId} stopped (${current?.state ?? 'missing'}) after ${progress.rowsDone} rows`);
+        return;
+      }
+
+      const batch = await reader.next();
+      // The total grows as the file is read
+      progress.totalRows = reader.recordsRead;
+      progress.readingFile = !reader.done;
+      progress.parseErrors = reader.errorCount;
+      if (batch.length === 0) break;
+      const { emails, matches, skipReasons, cacheHits } = await findEmailsInDirectory(batch, directory, dynamoClient, queryUsage, options);
+      progress.cacheHits += cacheHits;
+      const companyDomains = await findCompanyDomains(batch, skipReasons, directory, queryUsage);
+      const inferredEmails = await inferMissingEmails(batch, emails, skipReasons, directory, queryUsage);
+
+      // Check found emails with bounded concurrency
+      const batchRows: BulkResultRow[] = [];
+      for (let offset = 0; offset < batch.length; offset += VERIFY_CONCURRENCY) {
+        const rows = await Promise.all(batch.slice(offset, offset + VERIFY_CONCURRENCY).map(async (record, i) => {
+          const index = offset + i;
+          const row = await buildResultRow(
+            record,
+            emails[index],
+            matches[index],
+            companyDomains[index],
+            inferredEmails[index],
+            skipReasons[index],
+            mxChecks
+          );
+          progress.rowsDone++;
+          if (emails[index]) progress.rowsFound++;
+          progress.rowsPerSecond = meter.record(progress.rowsDone);
+          publishJobProgress({ ...progress });
+          return row;
+        }));
+
+        for (const row of rows) {
+          if (row.isVerified === true) verifiedCount++;
+          if (row.skipReason) skippedCount++;
+          addToColumnSample(columnSample, row);
+        }
+        batchRows.push(...rows);
+      }
+
+      await putBulkResultPart(userId, jobId, resultParts, batchRows);
+      resultParts++;
+
+      await saveProgress();
+    }
+    const { rowsDone, rowsFound } = progress;
+
+    // Add rate limiting information to the stored result
+    const rateLimitInfo = {
+      dailyLimit: 1000,
+      remainingToday: 1000 - rowsDone,
+      resetTime: new Date(new Date().setHours(24, 0, 0, 0)).toISOString()
+    };
+
+    const enrichmentFields = options.enrichmentFields ?? [];
+    const metadata = {
+      searchId: jobId,
+      fileName: job.fileName,
+      recordCount: rowsDone,
+      successCount: rowsFound,
+      verifiedCount,
+      skippedCount,
+      // Rows that could not be parsed are counted in the file but have no result
+      totalRecordsInFile: rowsDone + reader.errorCount,
+      parseErrorCount: reader.errorCount,
+      parseErrors: reader.errors,
+      enrichmentFields,
+      // Columns /api/bulk-result/[id]/export can include
+      exportColumns: rowsDone > 0 ? bulkExportTable([columnSample], enrichmentFields).columns : [],
+      sourceFile,
+      // Where the rows are: one stored part per batch
+      resultParts,
+      resultPartSize: JOB_BATCH_SIZE,
+      timestamp: new Date().toISOString()
+    };
+
+    // Don't publish a result for a job cancelled during its last batch
+    const beforeStore = await getJob(userId, jobId);
+    if (!beforeStore || isTerminalState(beforeStore.state)) return;
+
+    await getResultStore().put(userId, 'bulk', jobId, {
+      ...metadata,
+      rateLimitInfo,
+      queryUsage,
+    });
+    completed = true;
+    console.log(`Successfully stored bulk results for user ${userId}, request ${jobId}`);
+
+    await saveJob({
+      state: 'completed',
+      totalRows: rowsDone,
+      readingFile: false,
+      parseErrors: reader.errorCount,
+      rowsDone,
+      rowsFound,
+      cacheHits: progress.cacheHits,
+      resultId: jobId,
+      resultLocation: `/api/bulk-result/${jobId}`,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Bulk job ${jobId} failed:`, error);
+    try {
+      await saveJob({
+        state: 'failed',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred during bulk processing.',
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      console.error(`Error recording failure of bulk job ${jobId}:`, updateError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    await reader.close().catch((error) => console.error(`Error closing the file of bulk job ${jobId}:`, error));
+    // Parts of a cancelled or failed job belong to no history entry
+    if (!completed && resultParts > 0) {
+      await deleteBulkResultParts(userId, jobId, resultParts)
+        .catch((error) => console.error(`Error removing the partial result of bulk job ${jobId}:`, error));
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Column Mapping
+ *
+ * Maps the headers of an uploaded bulk file onto the fields a bulk lookup
+ * reads (firstName, lastName, linkedin, companyName, companyDomain), so
+ * exports from LinkedIn Sales Navigator or a CRM can be uploaded as they are.
+ * Headers are recognised through a list of synonyms compared without case,
+ * spaces or punctuation ("First Name", "first_name" and "FIRSTNAME" are the
+ * same header). Shared by the upload form, which proposes a mapping the user
+ * can adjust, and the bulk-find-email route, which applies it.
+ */
+
+// Fields of a bulk record that can be mapped from a file column
+export const MAPPABLE_FIELDS = ['firstName', 'lastName', 'linkedin', 'companyName', 'companyDomain'] as const;
+
+export type MappableField = (typeof MAPPABLE_FIELDS)[number];
+
+// File header mapped to each field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+// Labels shown for each field
+export const MAPPABLE_FIELD_LABELS: Record<MappableField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  linkedin: 'LinkedIn URL',
+  companyName: 'Company',
+  companyDomain: 'Company domain',
+};
+
+// Header spellings recognised for each field, normalized and most specific first
+const FIELD_SYNONYMS: Record<MappableField, string[]> = {
+  firstName: ['firstname', 'givenname', 'forename', 'fname', 'first', 'prenom', 'vorname'],
+  lastName: ['lastname', 'surname', 'familyname', 'lname', 'last', 'nom', 'nachname'],
+  linkedin: [
+    'linkedin',
+    'linkedinurl',
+    'linkedinprofileurl',
+    'linkedinprofile',
+    'personlinkedinurl',
+    'profileurl',
+    'linkedinlink',
+    'profile',
+  ],
+  companyName: [
+    'companyname',
+    'company',
+    'currentcompany',
+    'organizationname',
+    'organisationname',
+    'organization',
+    'organisation',
+    'accountname',
+    'account',
+    'employer',
+  ],
+  companyDomain: ['companydomain', 'domain', 'emaildomain', 'companywebsite', 'website', 'websiteurl', 'companyurl'],
+};
+
+/**
+ * Normalize a header for comparison: lowercase letters and digits only
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Propose a mapping for a file's headers. Each header is mapped to at most
+ * one field; headers matching an earlier synonym win.
+ */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+
+  for (const field of MAPPABLE_FIELDS) {
+    for (const synonym of FIELD_SYNONYMS[field]) {
+      const match = normalized.find((entry) => entry.key === synonym && !used.has(entry.header));
+      if (match) {
+        mapping[field] = match.header;
+        used.add(match.header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Read a mapping sent by a client, checking every mapped header exists in the file
+ * when its headers are given. Returns the mapping and the problems found;
+ * unknown fields and blank headers are ignored.
+ */
+export function parseColumnMapping(
+  value: unknown,
+  headers?: string[]
+): { mapping: ColumnMapping; errors: string[] } {
+  const mapping: ColumnMapping = {};
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { mapping, errors: ['Column mapping must be an object of field names to file columns.'] };
+  }
+
+  for (const field of MAPPABLE_FIELDS) {
+    const header = (value as Record<string, unknown>)[field];
+    if (header === undefined || header === null || header === '') continue;
+
+    if (typeof header !== 'string' || (headers && !headers.includes(header))) {
+      errors.push(`${MAPPABLE_FIELD_LABELS[field]} is mapped to a column the file does not have: ${String(header)}`);
+      continue;
+    }
+    mapping[field] = header;
+  }
+
+  return { mapping, errors };
+}
+
+/**
+ * Check whether a mapping covers at least one search field. Each row is
+ * searched with whichever mapped fields it has values for.
+ */
+export function hasMappedSearchField(mapping: ColumnMapping): boolean {
+  return MAPPABLE_FIELDS.some((field) => !!mapping[field]);
+}
+
+/**
+ * Rewrite a file row under the mapped field names. Columns that are not
+ * mapped are kept as they are; mapped source columns are replaced by their field.
+ */
+export function applyColumnMapping<T extends Record<string, unknown>>(
+  row: T,
+  mapping: ColumnMapping
+): Record<string, unknown> {
+  const sourceColumns = new Set(Object.values(mapping));
+  const mapped: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (!sourceColumns.has(column)) mapped[column] = value;
+  }
+  for (const field of MAPPABLE_FIELDS) {
+    const column = mapping[field];
+    if (column) mapped[field] = row[column] === undefined || row[column] === null ? '' : String(row[column]).trim();
+  }
+
+  return mapped;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCompanyDomain, normalizeCompanyName } from './company-normalization';
+
+describe('normalizeCompanyName', () => {
+  it('reduces spellings of the same company to one key', () => {
+    expect(normalizeCompanyName('The Acme Company, Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Acme Co')).toBe('acme');
+    expect(normalizeCompanyName('ACME')).toBe('acme');
+  });
+
+  it('drops legal forms written with dots or several parts', () => {
+    expect(normalizeCompanyName('Nestlé S.A.')).toBe('nestle');
+    expect(normalizeCompanyName('Tata Consultancy Services Pvt. Ltd.')).toBe('tata consultancy services');
+    expect(normalizeCompanyName('Muster GmbH & Co. KG')).toBe('muster');
+  });
+
+  it('writes "&" as "and" and keeps word boundaries as single spaces', () => {
+    expect(normalizeCompanyName('Smith & Sons - Builders')).toBe('smith and sons builders');
+  });
+
+  it('keeps the first word', () => {
+    expect(normalizeCompanyName('The Company')).toBe('company');
+  });
+});
+
+describe('normalizeCompanyDomain', () => {
+  it('reduces a website to its host', () => {
+    expect(normalizeCompanyDomain('https://www.Acme.io/about?x=1')).toBe('acme.io');
+    expect(normalizeCompanyDomain('acme.io:8080')).toBe('acme.io');
+    expect(normalizeCompanyDomain('eu.acme.io.')).toBe('eu.acme.io');
+  });
+
+  it('returns null for values that are not domains', () => {
+    expect(normalizeCompanyDomain('not a domain')).toBeNull();
+    expect(normalizeCompanyDomain('localhost')).toBeNull();
+    expect(normalizeCompanyDomain('')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Company Normalization
+ *
+ * Reduces a company name to a comparison key so that spellings of the same
+ * company compare equal: "The Acme Company, Inc.", "Acme Co" and "ACME"
+ * all normalize to "acme". The key keeps word boundaries as single spaces,
+ * so it still matches stored names that contain spaces.
+ *
+ * Steps, each mirrored in SQL by the query builder:
+ * 1. fold case, diacritics and special letters (as for person names)
+ * 2. write "&" as "and" and drop dots, so "S.A." becomes "sa"
+ * 3. turn any other punctuation into a single space
+ * 4. drop a leading "the" and trailing legal forms (GmbH, S.A., Pvt Ltd, KK, AG, BV, ...)
+ *
+ * Company websites and email domains are reduced to a bare host the same way.
+ */
+
+import { foldName } from '@/lib/name-normalization';
+
+// Legal forms and their parts, as they read after punctuation is removed
+export const COMPANY_LEGAL_FORMS = [
+  'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'plc',
+  'pvt', 'pte', 'pty', 'private', 'public',
+  'gmbh', 'ag', 'kg', 'kgaa', 'ug', 'ev',
+  'sa', 'sas', 'sarl', 'sasu', 'srl', 'spa', 'sl', 'slu', 'sprl', 'lda', 'ltda', 'sab', 'cv', 'de',
+  'bv', 'nv', 'vof',
+  'kk', 'kabushiki', 'kaisha', 'gk', 'yk',
+  'oy', 'oyj', 'ab', 'as', 'asa', 'aps',
+  'se', 'bhd', 'sdn', 'tbk', 'jsc', 'pjsc', 'ooo', 'zao', 'oao', 'sp', 'zoo',
+  'and',
+] as const;
+
+// Regular expressions shared with the SQL built by the query builder
+export const COMPANY_PUNCTUATION_PATTERN = '[^a-z0-9]+';
+export const COMPANY_LEADING_ARTICLE_PATTERN = '^the ';
+export const COMPANY_LEGAL_FORM_PATTERN = `( (${COMPANY_LEGAL_FORMS.join('|')}))+$`;
+
+const punctuation = new RegExp(COMPANY_PUNCTUATION_PATTERN, 'g');
+const leadingArticle = new RegExp(COMPANY_LEADING_ARTICLE_PATTERN);
+const legalForms = new RegExp(COMPANY_LEGAL_FORM_PATTERN);
+
+// Fold a company name without removing any words: case, diacritics, "&" and punctuation only
+function foldCompanyName(companyName: string): string {
+  return foldName(companyName)
+    .replace(/&/g, ' and ')
+    .replace(/\./g, '')
+    .replace(punctuation, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a company name to its comparison key.
+ * The first word is always kept, so "The Company" still has a key.
+ */
+export function normalizeCompanyName(companyName: string): string {
+  return foldCompanyName(companyName)
+    .replace(leadingArticle, '')
+    .replace(legalForms, '');
+}
+
+// Scheme, "www." and everything after the host of a website or domain, shared with the SQL
+export const DOMAIN_SCHEME_PATTERN = '^[a-z][a-z0-9+.-]*://';
+export const DOMAIN_EXTRAS_PATTERN = '^www\\.|[:/?#].*$';
+
+const domainScheme = new RegExp(DOMAIN_SCHEME_PATTERN);
+const domainExtras = new RegExp(DOMAIN_EXTRAS_PATTERN, 'g');
+const validDomain = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/**
+ * Reduce a company website or domain to its host: lowercase, without
+ * protocol, "www.", port or path ("https://www.Acme.io/about" becomes "acme.io").
+ * Returns null when what remains is not a valid domain name.
+ */
+export function normalizeCompanyDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(domainScheme, '')
+    .replace(domainExtras, '')
+    .replace(/\.$/, '');
+
+  return validDomain.test(host) ? host : null;
+}
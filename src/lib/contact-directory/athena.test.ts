@@ -0,0 +1,86 @@
+import { Row } from '@aws-sdk/client-athena';
+import { describe, expect, it } from 'vitest';
+import { AthenaExecutionManager } from '@/lib/athena-execution-manager';
+import { AthenaContactDirectory } from './athena';
+
+// Result row of text values
+function row(...values: string[]): Row {
+  return { Data: values.map((value) => ({ VarCharValue: value })) };
+}
+
+// Directory whose queries all return the given rows, header first
+function directoryReturning(rows: Row[]): AthenaContactDirectory {
+  const executionManager = {
+    execute: async () => ({
+      rows,
+      stats: { queryExecutionId: 'test', dataScannedInBytes: 0, engineExecutionTimeMs: 0, runTimeMs: 0 },
+    }),
+  } as unknown as AthenaExecutionManager;
+  return new AthenaContactDirectory(executionManager);
+}
+
+// Athena returns result headers in lowercase
+const PERSON_COLUMNS = [
+  'first_name', 'last_name', 'linkedin_url', 'company_name', 'company_website', 'business_email', 'personal_emails', 'job_title',
+];
+const PERSON_VALUES = [
+  'Jane', 'Doe', 'https://linkedin.com/in/janedoe', 'Acme', 'acme.io', 'jane@acme.io', '["jane@example.com"]', 'CTO',
+];
+
+describe('AthenaContactDirectory', () => {
+  it('reads lowercase result headers in findPerson', async () => {
+    const directory = directoryReturning([row(...PERSON_COLUMNS), row(...PERSON_VALUES)]);
+    const match = await directory.findPerson({ firstName: 'Jane', lastName: 'Doe' }, undefined, {
+      enrichmentFields: ['JOB_TITLE'],
+    });
+
+    expect(match).toMatchObject({
+      email: 'jane@acme.io',
+      personalEmails: ['jane@example.com'],
+      enrichment: { JOB_TITLE: 'CTO' },
+    });
+  });
+
+  it('reads lowercase result headers in findCandidates', async () => {
+    const directory = directoryReturning([row(...PERSON_COLUMNS), row(...PERSON_VALUES)]);
+    const [candidate] = await directory.findCandidates({ firstName: 'Jane', lastName: 'Doe' }, 5);
+
+    expect(candidate).toMatchObject({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      companyName: 'Acme',
+      email: 'jane@acme.io',
+    });
+  });
+
+  it('reads lowercase result headers in findMany', async () => {
+    const directory = directoryReturning([row('row_index', ...PERSON_COLUMNS), row('1', ...PERSON_VALUES)]);
+    const matches = await directory.findMany([{ lastName: 'Roe' }, { firstName: 'Jane', lastName: 'Doe' }]);
+
+    expect(matches[0]).toBeNull();
+    expect(matches[1]).toMatchObject({ email: 'jane@acme.io', personalEmails: ['jane@example.com'] });
+  });
+
+  it('reads lowercase result headers in findByEmail', async () => {
+    const directory = directoryReturning([
+      row('row_index', 'first_name', 'last_name', 'linkedin_url', 'company_name', 'company_website', 'business_email', 'personal_emails', 'matched_on'),
+      row('0', 'Jane', 'Doe', '', 'Acme', '', 'jane@acme.io', '', 'business'),
+    ]);
+    const [owner] = await directory.findByEmail(['jane@acme.io']);
+
+    expect(owner).toMatchObject({ firstName: 'Jane', lastName: 'Doe', email: 'jane@acme.io', matchedOn: 'business' });
+  });
+
+  it('reads lowercase result headers in findCompanyPeople', async () => {
+    const directory = directoryReturning([
+      row('first_name', 'last_name', 'linkedin_url', 'company_name', 'business_email', 'total_count'),
+      row('Jane', 'Doe', '', 'Acme', 'jane@acme.io', '12'),
+    ]);
+    const page = await directory.findCompanyPeople({ companyDomain: 'acme.io' }, { offset: 0, limit: 10 });
+
+    expect(page.total).toBe(12);
+    expect(page.people).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', linkedinUrl: null, companyName: 'Acme', email: 'jane@acme.io' },
+    ]);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Athena Contact Directory
+ *
+ * Looks people up in the Athena person table. Each lookup is a parameterized
+ * query built by the shared query builder and run by the shared execution
+ * manager. Bulk lookups resolve a whole batch of rows with a single set query
+ * instead of one query per row.
+ */
+
+import { Row } from '@aws-sdk/client-athena';
+import {
+  AthenaExecutionManager,
+  getAthenaExecutionConfig,
+  QueryExecutionStats,
+} from '@/lib/athena-execution-manager';
+import {
+  AthenaQuery,
+  buildBatchPersonLookupQuery,
+  buildCompanyDomainQuery,
+  buildCompanyEmailSampleQuery,
+  buildCompanyPeopleQuery,
+  buildPersonLookupQuery,
+  buildPersonTableColumnsQuery,
+  buildReverseLookupQuery,
+  CANDIDATE_COLUMNS,
+  COMPANY_WEBSITE_COLUMN,
+  PersonSearchCriteria,
+} from '@/lib/athena-query-builder';
+import { EmailSample } from '@/lib/email-patterns';
+import { CandidateFields, explainMatch, rankCandidates, scoreCandidate } from './scoring';
+import {
+  CompanyDomain,
+  CompanyPeoplePage,
+  ContactDirectory,
+  DirectoryField,
+  EmailOwner,
+  EnrichmentValues,
+  LookupOptions,
+  LookupUsage,
+  PersonCandidate,
+  PersonMatch,
+  parsePersonalEmails,
+} from './types';
+
+// Interface for the columns read from a person table row
+type PersonRecord = CandidateFields & Pick<PersonMatch, 'email' | 'personalEmails'>;
+
+// Default number of records resolved by each set query in findMany
+const DEFAULT_SET_BATCH_SIZE = 1000;
+// Upper bound for ATHENA_SET_BATCH_SIZE, keeping the query text and parameter list small
+const MAX_SET_BATCH_SIZE = 5000;
+// Matching records fetched per requested candidate, so ranking sees more than the first few
+const CANDIDATE_POOL_FACTOR = 5;
+const MAX_CANDIDATE_POOL = 100;
+// Domains returned per company by findCompanyDomains
+const MAX_COMPANY_DOMAINS = 3;
+// Known employees sampled per company by findEmailSamples
+const EMAIL_SAMPLES_PER_COMPANY = 50;
+// How long the person table's column list is reused before it is read again
+const FIELD_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Columns of the person table, shared by every directory instance
+let fieldCache: { fields: DirectoryField[]; expiresAt: number } | null = null;
+
+export class AthenaContactDirectory implements ContactDirectory {
+  readonly backend = 'athena' as const;
+
+  constructor(private readonly executionManager: AthenaExecutionManager = new AthenaExecutionManager()) {}
+
+  async describeFields(usage?: LookupUsage): Promise<DirectoryField[]> {
+    if (fieldCache && fieldCache.expiresAt > Date.now()) {
+      return fieldCache.fields;
+    }
+
+    const query = buildPersonTableColumnsQuery({ database: getAthenaExecutionConfig().database });
+    const rows = await this.runQuery(query, usage);
+    // The first row contains column names; each following row is one column
+    const fields = rows.slice(1)
+      .map((row) => ({
+        name: row.Data?.[0]?.VarCharValue ?? '',
+        type: row.Data?.[1]?.VarCharValue ?? '',
+      }))
+      .filter((field) => field.name);
+
+    fieldCache = { fields, expiresAt: Date.now() + FIELD_CACHE_TTL_MS };
+    return fields;
+  }
+
+  async findPerson(criteria: PersonSearchCriteria, usage?: LookupUsage, options: LookupOptions = {}): Promise<PersonMatch | null> {
+    const enrichmentFields = options.enrichmentFields ?? [];
+    const query = buildPersonLookupQuery(criteria, { columns: [...CANDIDATE_COLUMNS, ...enrichmentFields] });
+    if (!query) return null;
+
+    const rows = await this.runQuery(query, usage);
+    // The first row contains column names; the second row contains data
+    if (rows.length < 2) return null;
+
+    const header = readHeader(rows);
+    const person = readPersonRecord(header, rows[1]);
+    return {
+      email: person.email,
+      personalEmails: person.personalEmails,
+      ...explainMatch(person, criteria),
+      ...readEnrichment(header, rows[1], enrichmentFields),
+    };
+  }
+
+  async findCandidates(
+    criteria: PersonSearchCriteria,
+    limit: number,
+    usage?: LookupUsage,
+    options: LookupOptions = {}
+  ): Promise<PersonCandidate[]> {
+    const enrichmentFields = options.enrichmentFields ?? [];
+    const poolSize = Math.min(Math.max(limit * CANDIDATE_POOL_FACTOR, limit), MAX_CANDIDATE_POOL);
+    const query = buildPersonLookupQuery(criteria, {
+      columns: [...CANDIDATE_COLUMNS, ...enrichmentFields],
+      limit: poolSize,
+    });
+    if (!query) return [];
+
+    const rows = await this.runQuery(query, usage);
+    // The first row contains column names; read the data rows by name
+    const header = readHeader(rows);
+    const candidates = rows.slice(1).map((row): PersonCandidate => {
+      const person = readPersonRecord(header, row);
+      return {
+        ...person,
+        ...explainMatch(person, criteria),
+        ...readEnrichment(header, row, enrichmentFields),
+        score: scoreCandidate(person, criteria),
+      };
+    });
+
+    return rankCandidates(candidates, limit);
+  }
+
+  async findMany(
+    records: PersonSearchCriteria[],
+    usage?: LookupUsage,
+    options: LookupOptions = {}
+  ): Promise<(PersonMatch | null)[]> {
+    const results: (PersonMatch | null)[] = new Array(records.length).fill(null);
+    const enrichmentFields = options.enrichmentFields ?? [];
+    const batchSize = getSetBatchSize();
+
+    for (let start = 0; start < records.length; start += batchSize) {
+      const batch = records.slice(start, start + batchSize);
+      const query = buildBatchPersonLookupQuery(batch, { columns: [...CANDIDATE_COLUMNS, ...enrichmentFields] });
+      if (!query) continue;
+
+      try {
+        const rows = await this.runQuery(query, usage, true);
+        // The first row contains column names; each following row is the first
+        // match for the input row whose index is in the first column
+        const header = readHeader(rows);
+        for (const row of rows.slice(1)) {
+          const rowIndex = parseInt(row.Data?.[0]?.VarCharValue ?? '', 10);
+          if (isNaN(rowIndex) || rowIndex < 0 || rowIndex >= batch.length) continue;
+
+          const person = readPersonRecord(header, row);
+          results[start + rowIndex] = {
+            email: person.email,
+            personalEmails: person.personalEmails,
+            ...explainMatch(person, batch[rowIndex]),
+            ...readEnrichment(header, row, enrichmentFields),
+          };
+        }
+      } catch (error) {
+        console.error(`Error running Athena set lookup for records ${start}-${start + batch.length - 1}:`, error);
+        // Fail the lookup rather than report this batch's records as not found
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  async findCompanyDomains(companyNames: string[], usage?: LookupUsage): Promise<CompanyDomain[][]> {
+    const results: CompanyDomain[][] = companyNames.map(() => []);
+    const batchSize = getSetBatchSize();
+
+    for (let start = 0; start < companyNames.length; start += batchSize) {
+      const batch = companyNames.slice(start, start + batchSize);
+      const query = buildCompanyDomainQuery(batch, { limit: MAX_COMPANY_DOMAINS });
+      if (!query) continue;
+
+      try {
+        const rows = await this.runQuery(query, usage, true);
+        // The first row contains column names; each following row is one
+        // domain of the company whose index is in the first column
+        for (const row of rows.slice(1)) {
+          const rowIndex = parseInt(row.Data?.[0]?.VarCharValue ?? '', 10);
+          const domain = row.Data?.[1]?.VarCharValue;
+          if (isNaN(rowIndex) || rowIndex < 0 || rowIndex >= batch.length || !domain) continue;
+
+          results[start + rowIndex].push({
+            domain,
+            emailCount: parseInt(row.Data?.[2]?.VarCharValue ?? '0', 10) || 0,
+          });
+        }
+      } catch (error) {
+        console.error(`Error running Athena company domain lookup for companies ${start}-${start + batch.length - 1}:`, error);
+        // Fail the lookup rather than report these companies as having no domains
+        throw error;
+      }
+    }
+
+    return results.map((domains) => domains.sort((a, b) => b.emailCount - a.emailCount));
+  }
+
+  async findEmailSamples(
+    companies: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>[],
+    usage?: LookupUsage
+  ): Promise<EmailSample[][]> {
+    const results: EmailSample[][] = companies.map(() => []);
+    const batchSize = getSetBatchSize();
+
+    for (let start = 0; start < companies.length; start += batchSize) {
+      const batch = companies.slice(start, start + batchSize);
+      const query = buildCompanyEmailSampleQuery(batch, { limit: EMAIL_SAMPLES_PER_COMPANY });
+      if (!query) continue;
+
+      try {
+        const rows = await this.runQuery(query, usage, true);
+        // The first row contains column names; each following row is one
+        // employee of the company whose index is in the first column
+        for (const row of rows.slice(1)) {
+          const rowIndex = parseInt(row.Data?.[0]?.VarCharValue ?? '', 10);
+          const email = row.Data?.[3]?.VarCharValue;
+          if (isNaN(rowIndex) || rowIndex < 0 || rowIndex >= batch.length || !email) continue;
+
+          results[start + rowIndex].push({
+            firstName: row.Data?.[1]?.VarCharValue || null,
+            lastName: row.Data?.[2]?.VarCharValue || null,
+            email,
+          });
+        }
+      } catch (error) {
+        console.error(`Error running Athena email sample lookup for companies ${start}-${start + batch.length - 1}:`, error);
+        // Fail the lookup rather than report these companies as having no known employees
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  async findCompanyPeople(
+    company: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>,
+    page: { offset: number; limit: number },
+    usage?: LookupUsage
+  ): Promise<CompanyPeoplePage> {
+    const query = buildCompanyPeopleQuery(company, page);
+    if (!query) return { people: [], total: 0 };
+
+    const rows = await this.runQuery(query, usage);
+    // The first row contains column names; every data row repeats the total
+    const header = readHeader(rows);
+    const dataRows = rows.slice(1);
+    if (dataRows.length === 0) return { people: [], total: page.offset === 0 ? 0 : null };
+
+    const total = parseInt(readColumn(header, dataRows[0], 'total_count') ?? '', 10);
+    const people = dataRows.map((row) => {
+      const { firstName, lastName, linkedinUrl, companyName, email } = readPersonRecord(header, row);
+      return { firstName, lastName, linkedinUrl, companyName, email };
+    });
+
+    return { people, total: isNaN(total) ? null : total };
+  }
+
+  async findByEmail(emails: string[], usage?: LookupUsage): Promise<(EmailOwner | null)[]> {
+    const results: (EmailOwner | null)[] = new Array(emails.length).fill(null);
+    const batchSize = getSetBatchSize();
+
+    for (let start = 0; start < emails.length; start += batchSize) {
+      const batch = emails.slice(start, start + batchSize);
+      const query = buildReverseLookupQuery(batch);
+      if (!query) continue;
+
+      try {
+        const rows = await this.runQuery(query, usage, true);
+        // The first row contains column names; each following row is the owner
+        // of the address whose index is in the first column
+        const header = readHeader(rows);
+        for (const row of rows.slice(1)) {
+          const rowIndex = parseInt(row.Data?.[0]?.VarCharValue ?? '', 10);
+          if (isNaN(rowIndex) || rowIndex < 0 || rowIndex >= batch.length) continue;
+
+          results[start + rowIndex] = {
+            ...readPersonRecord(header, row),
+            matchedOn: readColumn(header, row, 'matched_on') === 'business' ? 'business' : 'personal',
+          };
+        }
+      } catch (error) {
+        console.error(`Error running Athena reverse lookup for emails ${start}-${start + batch.length - 1}:`, error);
+        // Fail the lookup rather than report these addresses as having no owner
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a query through the execution manager, recording its cost whether or not it succeeds
+   */
+  private async runQuery(query: AthenaQuery, usage?: LookupUsage, batch = false): Promise<Row[]> {
+    const { rows } = await this.executionManager.execute(query, {
+      batch,
+      onStats: usage ? (stats) => addQueryStats(usage, stats) : undefined,
+    });
+    return rows;
+  }
+}
+
+// Read the column names from the header row of a result, lowercased: result
+// headers do not always keep the case the column was selected with
+function readHeader(rows: Row[]): string[] {
+  return rows[0]?.Data?.map((datum) => (datum.VarCharValue ?? '').toLowerCase()) ?? [];
+}
+
+// Read a column of a data row by name, or null when it is missing or empty
+function readColumn(header: string[], row: Row, column: string): string | null {
+  const index = header.indexOf(column.toLowerCase());
+  return index >= 0 ? row.Data?.[index]?.VarCharValue || null : null;
+}
+
+// Read the candidate columns of a data row by name
+function readPersonRecord(header: string[], row: Row): PersonRecord {
+  const value = (column: string) => readColumn(header, row, column);
+
+  return {
+    firstName: value('FIRST_NAME'),
+    lastName: value('LAST_NAME'),
+    linkedinUrl: value('LINKEDIN_URL'),
+    companyName: value('COMPANY_NAME'),
+    companyWebsite: value(COMPANY_WEBSITE_COLUMN),
+    email: value('BUSINESS_EMAIL'),
+    personalEmails: parsePersonalEmails(value('PERSONAL_EMAILS')),
+  };
+}
+
+// Read the requested enrichment columns of a data row; nothing when none were requested
+function readEnrichment(header: string[], row: Row, fields: string[]): { enrichment?: EnrichmentValues } {
+  if (fields.length === 0) return {};
+
+  const enrichment: EnrichmentValues = {};
+  for (const field of fields) {
+    enrichment[field] = readColumn(header, row, field);
+  }
+  return { enrichment };
+}
+
+// Add one execution's cost figures to a usage accumulator
+function addQueryStats(usage: LookupUsage, stats: QueryExecutionStats): void {
+  usage.queryCount++;
+  usage.dataScannedInBytes += stats.dataScannedInBytes;
+  usage.engineExecutionTimeMs += stats.engineExecutionTimeMs;
+  usage.runTimeMs += stats.runTimeMs;
+}
+
+// Read the set query batch size, falling back to the default when unset or invalid
+function getSetBatchSize(): number {
+  const configured = parseInt(process.env.ATHENA_SET_BATCH_SIZE || '', 10);
+  return Number.isInteger(configured) && configured > 0 && configured <= MAX_SET_BATCH_SIZE
+    ? configured
+    : DEFAULT_SET_BATCH_SIZE;
+}
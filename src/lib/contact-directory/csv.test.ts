@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CsvContactDirectory } from './csv';
+
+const ROWS = [
+  'FIRST_NAME,LAST_NAME,LINKEDIN_URL,COMPANY_NAME,COMPANY_WEBSITE,BUSINESS_EMAIL,PERSONAL_EMAILS',
+  // Matches "Jane Doe" at Acme by prefix only
+  'Janet,Doe,,Acme,acme.io,janet@acme.io,',
+  // Exact matches, without and with a business email
+  'Jane,Doe,,Acme,acme.io,,',
+  'Jane,Doe,,Acme,acme.io,jane.z@acme.io,',
+  'Jane,Doe,,Acme,acme.io,jane.a@acme.io,',
+];
+
+let directory: CsvContactDirectory;
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'contacts-'));
+  const filePath = path.join(dir, 'contacts.csv');
+  await fs.writeFile(filePath, ROWS.join('\n'));
+  directory = new CsvContactDirectory(filePath);
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('CsvContactDirectory', () => {
+  it('keeps the closest match of each row, as the Athena set query does', async () => {
+    const [match, none] = await directory.findMany([
+      { firstName: 'Jane', lastName: 'Doe', companyName: 'Acme' },
+      { firstName: 'Nobody' },
+    ]);
+
+    // Exact over prefix, then a business email, then the first email in order
+    expect(match).toMatchObject({ email: 'jane.a@acme.io', matchTier: 'exact-name-company' });
+    expect(match).not.toHaveProperty('score');
+    expect(none).toBeNull();
+  });
+
+  it('ranks candidates the same way', async () => {
+    const candidates = await directory.findCandidates({ firstName: 'Jane', lastName: 'Doe' }, 4);
+    expect(candidates.map((candidate) => candidate.email)).toEqual([
+      'jane.a@acme.io', 'jane.z@acme.io', null, 'janet@acme.io',
+    ]);
+  });
+});
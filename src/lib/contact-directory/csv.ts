@@ -0,0 +1,312 @@
+/**
+ * CSV Contact Directory
+ *
+ * Offline directory backed by a local CSV export of the person table, so the
+ * lookup routes can be developed and tested without AWS. The file uses the
+ * same column names as the Athena table (FIRST_NAME, LAST_NAME, LINKEDIN_URL,
+ * COMPANY_NAME, COMPANY_WEBSITE, BUSINESS_EMAIL, PERSONAL_EMAILS) and rows are matched with the
+ * same rules as the SQL predicates in the query builder.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import Papa from 'papaparse';
+import { COMPANY_WEBSITE_COLUMN, normalizeLinkedInUrl, PersonSearchCriteria } from '@/lib/athena-query-builder';
+import { normalizeCompanyDomain, normalizeCompanyName } from '@/lib/company-normalization';
+import { EmailSample } from '@/lib/email-patterns';
+import { classifyNameMatch } from '@/lib/name-normalization';
+import { CandidateFields, explainMatch, rankCandidates, scoreCandidate } from './scoring';
+import {
+  CompanyDomain,
+  CompanyPeoplePage,
+  ContactDirectory,
+  DirectoryField,
+  EmailOwner,
+  EnrichmentValues,
+  LookupOptions,
+  LookupUsage,
+  PersonCandidate,
+  PersonMatch,
+  parsePersonalEmails,
+} from './types';
+
+// Interface for a row of the person table
+export type PersonRow = Record<string, string | undefined>;
+
+// Domains returned per company by findCompanyDomains, as for Athena
+const MAX_COMPANY_DOMAINS = 3;
+
+// Known employees sampled per company by findEmailSamples, as for Athena
+const EMAIL_SAMPLES_PER_COMPANY = 50;
+
+// Interface for a parsed file: its rows and its header columns in file order
+interface PersonTable {
+  rows: PersonRow[];
+  columns: string[];
+}
+
+// Parsed files, keyed by path and invalidated when the file changes
+const tableCache = new Map<string, { mtimeMs: number; table: PersonTable }>();
+
+async function loadTable(filePath: string): Promise<PersonTable> {
+  const stats = await fs.stat(filePath);
+  const cached = tableCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.table;
+  }
+
+  const contents = await fs.readFile(filePath, 'utf-8');
+  const parsed = Papa.parse(contents, { header: true, skipEmptyLines: true });
+  if (parsed.errors.length > 0) {
+    console.error(`CSV parsing errors in contact directory ${filePath}:`, parsed.errors);
+  }
+
+  const table = { rows: parsed.data as PersonRow[], columns: (parsed.meta.fields ?? []) as string[] };
+  tableCache.set(filePath, { mtimeMs: stats.mtimeMs, table });
+  return table;
+}
+
+async function loadRows(filePath: string): Promise<PersonRow[]> {
+  return (await loadTable(filePath)).rows;
+}
+
+// Read the requested enrichment columns of a row; nothing when none were requested
+function readEnrichment(row: PersonRow, fields: string[] = []): { enrichment?: EnrichmentValues } {
+  if (fields.length === 0) return {};
+  return { enrichment: Object.fromEntries(fields.map((field) => [field, row[field] || null])) };
+}
+
+// Mirrors the folded name predicate: any spelling of the name, or the name as a prefix
+function matchesName(value: string | undefined, name: string, nicknames: boolean): boolean {
+  return classifyNameMatch(value, name, { nicknames }) !== null;
+}
+
+/**
+ * Check a row against the criteria using the query builder's matching rules
+ */
+export function matchesCriteria(row: PersonRow, criteria: PersonSearchCriteria): boolean {
+  const firstName = criteria.firstName?.trim();
+  if (firstName && !matchesName(row.FIRST_NAME, firstName, true)) return false;
+
+  const lastName = criteria.lastName?.trim();
+  if (lastName && !matchesName(row.LAST_NAME, lastName, false)) return false;
+
+  const linkedin = criteria.linkedin?.trim();
+  if (linkedin) {
+    const linkedinUrl = (row.LINKEDIN_URL || '').toLowerCase();
+    if (!linkedinUrl.includes(normalizeLinkedInUrl(linkedin))) return false;
+  }
+
+  const companyName = criteria.companyName?.trim();
+  if (companyName) {
+    const company = row.COMPANY_NAME || '';
+    const key = normalizeCompanyName(companyName) || companyName.toLowerCase();
+    if (!normalizeCompanyName(company).includes(key) && !company.toLowerCase().includes(companyName.toLowerCase())) {
+      return false;
+    }
+  }
+
+  // The email domain or website must be the domain or one of its subdomains
+  const companyDomain = criteria.companyDomain ? normalizeCompanyDomain(criteria.companyDomain) : null;
+  if (companyDomain) {
+    const hosts = [row.BUSINESS_EMAIL?.split('@')[1], row[COMPANY_WEBSITE_COLUMN]]
+      .map((value) => (value ? normalizeCompanyDomain(value) : null));
+    if (!hosts.some((host) => host === companyDomain || host?.endsWith(`.${companyDomain}`))) return false;
+  }
+
+  return true;
+}
+
+// Read the fields a match is scored and explained on
+function toCandidateFields(row: PersonRow): CandidateFields {
+  return {
+    firstName: row.FIRST_NAME || null,
+    lastName: row.LAST_NAME || null,
+    linkedinUrl: row.LINKEDIN_URL || null,
+    companyName: row.COMPANY_NAME || null,
+    companyWebsite: row[COMPANY_WEBSITE_COLUMN] || null,
+    email: row.BUSINESS_EMAIL || null,
+  };
+}
+
+// A matching row as a candidate, scored against the criteria
+function toCandidate(row: PersonRow, criteria: PersonSearchCriteria, enrichmentFields?: string[]): PersonCandidate {
+  const fields = toCandidateFields(row);
+  return {
+    ...fields,
+    personalEmails: parsePersonalEmails(row.PERSONAL_EMAILS),
+    ...explainMatch(fields, criteria),
+    ...readEnrichment(row, enrichmentFields),
+    score: scoreCandidate(fields, criteria),
+  };
+}
+
+// Same as the SQL builder: no usable criteria means no lookup
+function hasCriteria(criteria: PersonSearchCriteria): boolean {
+  return [criteria.firstName, criteria.lastName, criteria.linkedin, criteria.companyName]
+    .some((value) => value?.trim()) || !!(criteria.companyDomain && normalizeCompanyDomain(criteria.companyDomain));
+}
+
+export class CsvContactDirectory implements ContactDirectory {
+  readonly backend = 'csv' as const;
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  // Every column is read as text, so each is reported as varchar
+  async describeFields(): Promise<DirectoryField[]> {
+    const { columns } = await loadTable(this.filePath);
+    return columns.map((name) => ({ name, type: 'varchar' }));
+  }
+
+  // No queries are run, so lookups add nothing to a usage accumulator
+  async findPerson(criteria: PersonSearchCriteria, _usage?: LookupUsage, options: LookupOptions = {}): Promise<PersonMatch | null> {
+    const [match] = await this.findMany([criteria], undefined, options);
+    return match;
+  }
+
+  async findCandidates(
+    criteria: PersonSearchCriteria,
+    limit: number,
+    _usage?: LookupUsage,
+    options: LookupOptions = {}
+  ): Promise<PersonCandidate[]> {
+    if (!hasCriteria(criteria)) return [];
+
+    const rows = await loadRows(this.filePath);
+    const candidates = rows
+      .filter((row) => matchesCriteria(row, criteria))
+      .map((row) => toCandidate(row, criteria, options.enrichmentFields));
+
+    return rankCandidates(candidates, limit);
+  }
+
+  async findMany(records: PersonSearchCriteria[], _usage?: LookupUsage, options: LookupOptions = {}): Promise<(PersonMatch | null)[]> {
+    const rows = await loadRows(this.filePath);
+
+    return records.map((criteria) => {
+      if (!hasCriteria(criteria)) return null;
+
+      // Keep the closest match, with the same tie-breakers as the Athena set query
+      const [best] = rankCandidates(
+        rows
+          .filter((row) => matchesCriteria(row, criteria))
+          .map((row) => toCandidate(row, criteria, options.enrichmentFields)),
+        1
+      );
+      if (!best) return null;
+
+      const { email, personalEmails, matchTier, matchedCriteria, nameMatches, enrichment } = best;
+      return { email, personalEmails, matchTier, matchedCriteria, nameMatches, ...(enrichment ? { enrichment } : {}) };
+    });
+  }
+
+  async findCompanyDomains(companyNames: string[]): Promise<CompanyDomain[][]> {
+    const rows = await loadRows(this.filePath);
+
+    // Count business email domains per normalized company name
+    const domainCounts = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+      const domain = row.BUSINESS_EMAIL?.split('@')[1]?.trim().toLowerCase();
+      const key = normalizeCompanyName(row.COMPANY_NAME || '');
+      if (!domain || !key) continue;
+
+      const counts = domainCounts.get(key) ?? new Map<string, number>();
+      counts.set(domain, (counts.get(domain) ?? 0) + 1);
+      domainCounts.set(key, counts);
+    }
+
+    return companyNames.map((companyName) => {
+      const counts = domainCounts.get(normalizeCompanyName(companyName || ''));
+      if (!counts) return [];
+
+      return Array.from(counts, ([domain, emailCount]) => ({ domain, emailCount }))
+        .sort((a, b) => b.emailCount - a.emailCount)
+        .slice(0, MAX_COMPANY_DOMAINS);
+    });
+  }
+
+  async findEmailSamples(
+    companies: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>[]
+  ): Promise<EmailSample[][]> {
+    const rows = await loadRows(this.filePath);
+
+    return companies.map((company) => {
+      const key = normalizeCompanyName(company.companyName || '');
+      const domain = company.companyDomain ? normalizeCompanyDomain(company.companyDomain) : null;
+      if (!key && !domain) return [];
+
+      // A domain identifies the company more reliably than its name, so it wins when given
+      const belongsToCompany = (row: PersonRow) => domain
+        ? row.BUSINESS_EMAIL?.split('@')[1]?.trim().toLowerCase() === domain
+        : normalizeCompanyName(row.COMPANY_NAME || '') === key;
+
+      return rows
+        .filter((row) => row.BUSINESS_EMAIL?.includes('@') && row.FIRST_NAME && row.LAST_NAME && belongsToCompany(row))
+        .slice(0, EMAIL_SAMPLES_PER_COMPANY)
+        .map((row) => ({
+          firstName: row.FIRST_NAME || null,
+          lastName: row.LAST_NAME || null,
+          email: row.BUSINESS_EMAIL as string,
+        }));
+    });
+  }
+
+  async findCompanyPeople(
+    company: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>,
+    page: { offset: number; limit: number }
+  ): Promise<CompanyPeoplePage> {
+    const key = normalizeCompanyName(company.companyName || '');
+    const domain = company.companyDomain ? normalizeCompanyDomain(company.companyDomain) : null;
+    if (!key && !domain) return { people: [], total: 0 };
+
+    // Same rules and order as the Athena query: domain first, then normalized name
+    const rows = (await loadRows(this.filePath))
+      .filter((row) => domain
+        ? matchesCriteria(row, { companyDomain: domain })
+        : normalizeCompanyName(row.COMPANY_NAME || '') === key)
+      .sort((a, b) =>
+        (a.LAST_NAME || '').localeCompare(b.LAST_NAME || '') ||
+        (a.FIRST_NAME || '').localeCompare(b.FIRST_NAME || '') ||
+        (a.BUSINESS_EMAIL || '').localeCompare(b.BUSINESS_EMAIL || '')
+      );
+
+    if (page.offset > 0 && page.offset >= rows.length) return { people: [], total: null };
+
+    return {
+      people: rows.slice(page.offset, page.offset + page.limit).map((row) => ({
+        firstName: row.FIRST_NAME || null,
+        lastName: row.LAST_NAME || null,
+        linkedinUrl: row.LINKEDIN_URL || null,
+        companyName: row.COMPANY_NAME || null,
+        email: row.BUSINESS_EMAIL || null,
+      })),
+      total: rows.length,
+    };
+  }
+
+  async findByEmail(emails: string[]): Promise<(EmailOwner | null)[]> {
+    const rows = await loadRows(this.filePath);
+
+    return emails.map((value) => {
+      const email = value.trim().toLowerCase();
+      if (!email.includes('@')) return null;
+
+      // Business matches are preferred, as in the Athena query
+      const business = rows.find((row) => row.BUSINESS_EMAIL?.trim().toLowerCase() === email);
+      const personal = business
+        ? undefined
+        : rows.find((row) => parsePersonalEmails(row.PERSONAL_EMAILS)?.some((entry) => entry.toLowerCase() === email));
+      const row = business ?? personal;
+      if (!row) return null;
+
+      return {
+        ...toCandidateFields(row),
+        personalEmails: parsePersonalEmails(row.PERSONAL_EMAILS),
+        matchedOn: business ? 'business' : 'personal',
+      };
+    });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Contact Directory
+ *
+ * Selects the person lookup backend from configuration:
+ * - CONTACT_DIRECTORY_BACKEND=athena (default) queries the Athena person table
+ * - CONTACT_DIRECTORY_BACKEND=csv reads CONTACT_DIRECTORY_CSV_PATH for offline use
+ */
+
+import { AthenaContactDirectory } from './athena';
+import { CsvContactDirectory } from './csv';
+import { ContactDirectory } from './types';
+
+export type {
+  CompanyDomain,
+  CompanyPeoplePage,
+  CompanyPerson,
+  ContactDirectory,
+  ContactDirectoryBackend,
+  DirectoryField,
+  EmailOwner,
+  EnrichmentValues,
+  LookupOptions,
+  LookupUsage,
+  MatchCriterion,
+  MatchTier,
+  NameVariantMatch,
+  PersonCandidate,
+  PersonMatch,
+} from './types';
+export { createLookupUsage, parsePersonalEmails } from './types';
+export { explainMatch } from './scoring';
+
+const DEFAULT_CSV_PATH = 'data/contacts.csv';
+
+/**
+ * Create the contact directory configured for this environment
+ */
+export function getContactDirectory(): ContactDirectory {
+  const backend = (process.env.CONTACT_DIRECTORY_BACKEND || 'athena').toLowerCase();
+
+  switch (backend) {
+    case 'athena':
+      return new AthenaContactDirectory();
+    case 'csv':
+      return new CsvContactDirectory(process.env.CONTACT_DIRECTORY_CSV_PATH || DEFAULT_CSV_PATH);
+    default:
+      console.error(`Unknown CONTACT_DIRECTORY_BACKEND "${backend}", falling back to Athena`);
+      return new AthenaContactDirectory();
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CandidateFields, explainMatch, rankCandidates, scoreCandidate } from './scoring';
+import { PersonCandidate } from './types';
+
+const JANE: CandidateFields = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  linkedinUrl: 'https://www.linkedin.com/in/janedoe',
+  companyName: 'Acme Inc.',
+  companyWebsite: 'https://acme.io',
+  email: 'jane@acme.io',
+};
+
+describe('explainMatch', () => {
+  it('rates the searched LinkedIn profile exact-linkedin', () => {
+    expect(explainMatch(JANE, { linkedin: 'linkedin.com/in/JaneDoe/' }).matchTier).toBe('exact-linkedin');
+  });
+
+  it('rates a full name and company matched exactly exact-name-company', () => {
+    expect(explainMatch(JANE, { firstName: 'Jane', lastName: 'Doe', companyName: 'Acme' }).matchTier)
+      .toBe('exact-name-company');
+    expect(explainMatch(JANE, { firstName: 'jane', lastName: 'DOE', companyDomain: 'acme.io' }).matchTier)
+      .toBe('exact-name-company');
+  });
+
+  it('does not rate a first name alone exact-name-company', () => {
+    const explanation = explainMatch(JANE, { firstName: 'Jane' });
+
+    expect(explanation.matchTier).toBe('prefix');
+    expect(explanation.matchedCriteria).toEqual(['firstName']);
+  });
+
+  it('does not rate a full name without a company exact-name-company', () => {
+    expect(explainMatch(JANE, { firstName: 'Jane', lastName: 'Doe' }).matchTier).toBe('prefix');
+    expect(explainMatch(JANE, { firstName: 'Jane', companyName: 'Acme' }).matchTier).toBe('prefix');
+  });
+
+  it('rates partial matches prefix', () => {
+    expect(explainMatch(JANE, { firstName: 'Ja', lastName: 'Doe', companyName: 'Acme' }).matchTier).toBe('prefix');
+  });
+
+  it('rates records of the relaxed query fallback', () => {
+    expect(explainMatch(JANE, { firstName: 'Jane', lastName: 'Doe', companyName: 'Acme' }, true).matchTier).toBe('fallback');
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('scores exact matches above prefix and nickname matches', () => {
+    const exact = scoreCandidate(JANE, { firstName: 'Jane', lastName: 'Doe' });
+    const prefix = scoreCandidate(JANE, { firstName: 'Ja', lastName: 'Doe' });
+
+    expect(exact).toBe(100);
+    expect(prefix).toBeLessThan(exact);
+    expect(scoreCandidate({ ...JANE, firstName: 'Robert' }, { firstName: 'Bob', lastName: 'Doe' })).toBeLessThan(exact);
+  });
+});
+
+describe('rankCandidates', () => {
+  it('sorts by score, preferring candidates with an email', () => {
+    const candidate = (score: number, email: string | null) => ({ ...JANE, email, score }) as PersonCandidate;
+    const ranked = rankCandidates([candidate(50, 'a@acme.io'), candidate(80, null), candidate(80, 'b@acme.io')], 2);
+
+    expect(ranked.map((item) => item.email)).toEqual(['b@acme.io', null]);
+  });
+});
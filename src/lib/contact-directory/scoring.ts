@@ -0,0 +1,188 @@
+/**
+ * Candidate Scoring
+ *
+ * Ranks the people a search matched. Every backend returns records that
+ * satisfy the lookup predicates; this scores how closely each one matches,
+ * so exact name, LinkedIn and company matches rank above name variants,
+ * prefix and
+ * substring matches, and explains the match as a tier plus the criteria
+ * that matched.
+ */
+
+import { normalizeLinkedInUrl, PersonSearchCriteria } from '@/lib/athena-query-builder';
+import { normalizeCompanyDomain, normalizeCompanyName } from '@/lib/company-normalization';
+import { classifyNameMatch, NameMatchKind } from '@/lib/name-normalization';
+import { MatchCriterion, MatchTier, PersonCandidate, PersonMatch } from './types';
+
+// Relative weight of each criterion in the score
+const CRITERION_WEIGHTS = {
+  linkedin: 40,
+  firstName: 20,
+  lastName: 20,
+  companyName: 20,
+  companyDomain: 20,
+} as const;
+
+// Interface for the record fields a candidate is scored on
+export type CandidateFields = Pick<
+  PersonCandidate,
+  'firstName' | 'lastName' | 'linkedinUrl' | 'companyName' | 'companyWebsite' | 'email'
+>;
+
+// Interface for the explanation attached to every match
+export type MatchExplanation = Pick<PersonMatch, 'matchTier' | 'matchedCriteria' | 'nameMatches'>;
+
+// Score of each way a name can match; folded spellings count as exact
+const NAME_MATCH_SCORES: Record<NameMatchKind, number> = {
+  exact: 1,
+  folded: 1,
+  transliteration: 0.9,
+  nickname: 0.8,
+  prefix: 0.6,
+};
+
+// Score a name by how it matched; nicknames only apply to first names
+function scoreName(value: string | null, name: string, nicknames: boolean): number {
+  const kind = classifyNameMatch(value, name, { nicknames });
+  return kind ? NAME_MATCH_SCORES[kind] : 0;
+}
+
+// Same profile scores 1, a URL merely containing the username 0.7
+function scoreLinkedIn(value: string | null, linkedin: string): number {
+  if (!value) return 0;
+  const username = normalizeLinkedInUrl(linkedin);
+  if (normalizeLinkedInUrl(value) === username) return 1;
+  return value.toLowerCase().includes(username) ? 0.7 : 0;
+}
+
+// Same normalized company scores 1, a name containing it 0.6
+function scoreCompany(value: string | null, companyName: string): number {
+  if (!value) return 0;
+  const normalized = normalizeCompanyName(companyName);
+  const candidate = normalizeCompanyName(value);
+  if (candidate === normalized) return 1;
+  return candidate.includes(normalized) || value.toLowerCase().includes(companyName.toLowerCase()) ? 0.6 : 0;
+}
+
+// Same email domain or website scores 1, a subdomain of it 0.8
+function scoreDomain(candidate: CandidateFields, domain: string): number {
+  const hosts = [
+    candidate.email?.split('@')[1],
+    candidate.companyWebsite,
+  ].map((value) => (value ? normalizeCompanyDomain(value) : null));
+
+  if (hosts.includes(domain)) return 1;
+  return hosts.some((host) => host?.endsWith(`.${domain}`)) ? 0.8 : 0;
+}
+
+// Score each criterion of the search from 0 (no match) to 1 (exact match)
+function scoreCriteria(candidate: CandidateFields, criteria: PersonSearchCriteria): Partial<Record<MatchCriterion, number>> {
+  const scores: Partial<Record<MatchCriterion, number>> = {};
+
+  const firstName = criteria.firstName?.trim();
+  if (firstName) scores.firstName = scoreName(candidate.firstName, firstName, true);
+
+  const lastName = criteria.lastName?.trim();
+  if (lastName) scores.lastName = scoreName(candidate.lastName, lastName, false);
+
+  const linkedin = criteria.linkedin?.trim();
+  if (linkedin) scores.linkedin = scoreLinkedIn(candidate.linkedinUrl, linkedin);
+
+  const companyName = criteria.companyName?.trim();
+  if (companyName) scores.companyName = scoreCompany(candidate.companyName, companyName);
+
+  const companyDomain = criteria.companyDomain ? normalizeCompanyDomain(criteria.companyDomain) : null;
+  if (companyDomain) scores.companyDomain = scoreDomain(candidate, companyDomain);
+
+  return scores;
+}
+
+/**
+ * Score a record against the criteria of the search that found it (0-100)
+ */
+export function scoreCandidate(candidate: CandidateFields, criteria: PersonSearchCriteria): number {
+  let earned = 0;
+  let possible = 0;
+
+  for (const [criterion, score] of Object.entries(scoreCriteria(candidate, criteria))) {
+    const weight = CRITERION_WEIGHTS[criterion as MatchCriterion];
+    possible += weight;
+    earned += weight * (score ?? 0);
+  }
+
+  return possible > 0 ? Math.round((earned / possible) * 100) : 0;
+}
+
+// Record which spelling of each searched name the record matched
+function explainNames(candidate: CandidateFields, criteria: PersonSearchCriteria): MatchExplanation['nameMatches'] {
+  const nameMatches: MatchExplanation['nameMatches'] = {};
+  const names = [
+    ['firstName', criteria.firstName, candidate.firstName, true],
+    ['lastName', criteria.lastName, candidate.lastName, false],
+  ] as const;
+
+  for (const [field, searched, matched, nicknames] of names) {
+    if (!searched?.trim() || !matched) continue;
+    const kind = classifyNameMatch(matched, searched, { nicknames });
+    if (kind) nameMatches[field] = { searched: searched.trim(), matched, kind };
+  }
+
+  return nameMatches;
+}
+
+/**
+ * Explain how a record matched a search.
+ * `fallback` marks records found by the relaxed query; pass the original
+ * criteria so matchedCriteria shows what matched of the user's search.
+ */
+export function explainMatch(
+  candidate: CandidateFields,
+  criteria: PersonSearchCriteria,
+  fallback = false
+): MatchExplanation {
+  const scores = scoreCriteria(candidate, criteria);
+  const matchedCriteria = (Object.keys(scores) as MatchCriterion[]).filter((criterion) => (scores[criterion] ?? 0) > 0);
+
+  let matchTier: MatchTier;
+  if (fallback) {
+    matchTier = 'fallback';
+  } else if (scores.linkedin === 1) {
+    matchTier = 'exact-linkedin';
+  } else {
+    // A full name and a company or domain, each matched exactly; one name alone is too weak
+    const company = (['companyName', 'companyDomain'] as const).filter((criterion) => criterion in scores);
+    const allExact = scores.firstName === 1 && scores.lastName === 1
+      && company.length > 0 && company.every((criterion) => scores[criterion] === 1);
+    matchTier = allExact ? 'exact-name-company' : 'prefix';
+  }
+
+  return { matchTier, matchedCriteria, nameMatches: explainNames(candidate, criteria) };
+}
+
+// Order of two optional text values, missing values last
+function compareText(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Sort candidates best first and keep the top `limit`.
+ * Ties go to candidates that have a business email, then follow last name,
+ * first name, email and LinkedIn URL, the order the Athena set query keeps
+ * the closest match of each row in.
+ */
+export function rankCandidates(candidates: PersonCandidate[], limit: number): PersonCandidate[] {
+  const hasEmail = (candidate: PersonCandidate) => Number(!!candidate.email?.includes('@'));
+  return [...candidates]
+    .sort((a, b) =>
+      b.score - a.score ||
+      hasEmail(b) - hasEmail(a) ||
+      compareText(a.lastName, b.lastName) ||
+      compareText(a.firstName, b.firstName) ||
+      compareText(a.email, b.email) ||
+      compareText(a.linkedinUrl, b.linkedinUrl)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,218 @@
+/**
+ * Contact Directory Types
+ *
+ * Shared contract for the person lookup backends used by the find-email and
+ * bulk-find-email routes.
+ */
+
+import { PersonSearchCriteria } from '@/lib/athena-query-builder';
+import { EmailSample } from '@/lib/email-patterns';
+import { NameMatchKind } from '@/lib/name-normalization';
+
+// Backends a contact directory can be configured with
+export type ContactDirectoryBackend = 'athena' | 'csv';
+
+// How a record was matched, from most to least trustworthy:
+// - exact-linkedin: the LinkedIn profile is the one searched for
+// - exact-name-company: first and last name plus a company or domain, every one matched exactly
+// - prefix: any other match, e.g. a criterion only matched by prefix or substring, or a name without a company
+// - fallback: found by the relaxed query after the full criteria found nothing
+export type MatchTier = 'exact-linkedin' | 'exact-name-company' | 'prefix' | 'fallback';
+
+// Search criteria a record can match on
+export type MatchCriterion = keyof PersonSearchCriteria;
+
+// Interface for how a searched name matched a record, e.g. "Bob" matching "Robert" as a nickname
+export interface NameVariantMatch {
+  searched: string;
+  // The name as stored on the record
+  matched: string;
+  kind: NameMatchKind;
+}
+
+// Values of the requested enrichment columns, keyed by column name
+export type EnrichmentValues = Record<string, string | null>;
+
+// Interface for a column of the person table
+export interface DirectoryField {
+  name: string;
+  // Column type as reported by the backend, e.g. "varchar" or "bigint"
+  type: string;
+}
+
+// Interface for options shared by the person lookups
+export interface LookupOptions {
+  // Extra person table columns to return with each match, see enrichment-fields
+  enrichmentFields?: string[];
+}
+
+// Interface for a person record found in the directory
+export interface PersonMatch {
+  email: string | null;
+  personalEmails: string[] | null;
+  matchTier: MatchTier;
+  // Criteria of the search the record actually matched
+  matchedCriteria: MatchCriterion[];
+  // Which spelling of each searched name matched
+  nameMatches: Partial<Record<'firstName' | 'lastName', NameVariantMatch>>;
+  // Requested enrichment columns of the record; absent when none were requested
+  enrichment?: EnrichmentValues;
+}
+
+// Interface for one of several people matching a search, ranked by score
+export interface PersonCandidate extends PersonMatch {
+  firstName: string | null;
+  lastName: string | null;
+  linkedinUrl: string | null;
+  companyName: string | null;
+  companyWebsite: string | null;
+  // How closely the record matches the search, from 0 to 100
+  score: number;
+}
+
+// Interface for an email domain used by a company's records
+export interface CompanyDomain {
+  domain: string;
+  // Number of records with a business email at this domain
+  emailCount: number;
+}
+
+// Interface for a person listed by a company search
+export interface CompanyPerson {
+  firstName: string | null;
+  lastName: string | null;
+  linkedinUrl: string | null;
+  companyName: string | null;
+  email: string | null;
+}
+
+// Interface for one page of the people known at a company
+export interface CompanyPeoplePage {
+  people: CompanyPerson[];
+  // Everyone known at the company; null when the page is past the last person
+  total: number | null;
+}
+
+// Interface for the person owning a looked-up email address
+export interface EmailOwner {
+  firstName: string | null;
+  lastName: string | null;
+  linkedinUrl: string | null;
+  companyName: string | null;
+  companyWebsite: string | null;
+  email: string | null;
+  personalEmails: string[] | null;
+  // Whether the address is the record's business email or one of its personal emails
+  matchedOn: 'business' | 'personal';
+}
+
+// Interface for the query cost accumulated by lookups, stored with history entries
+export interface LookupUsage {
+  queryCount: number;
+  dataScannedInBytes: number;
+  engineExecutionTimeMs: number;
+  runTimeMs: number;
+}
+
+// Interface implemented by every contact directory backend
+export interface ContactDirectory {
+  readonly backend: ContactDirectoryBackend;
+
+  /**
+   * List the columns of the person table, in table order.
+   * Query cost is added to `usage` when given.
+   */
+  describeFields(usage?: LookupUsage): Promise<DirectoryField[]>;
+
+  /**
+   * Find the first person matching the criteria, or null when nobody matches.
+   * Query cost is added to `usage` when given.
+   */
+  findPerson(criteria: PersonSearchCriteria, usage?: LookupUsage, options?: LookupOptions): Promise<PersonMatch | null>;
+
+  /**
+   * Find up to `limit` people matching the criteria, best match first.
+   * Query cost is added to `usage` when given.
+   */
+  findCandidates(
+    criteria: PersonSearchCriteria,
+    limit: number,
+    usage?: LookupUsage,
+    options?: LookupOptions
+  ): Promise<PersonCandidate[]>;
+
+  /**
+   * Look up many records at once; results are returned in input order.
+   * Query cost is added to `usage` when given. Rejects when any part of the
+   * lookup fails, so a failed lookup is never reported as "not found".
+   */
+  findMany(records: PersonSearchCriteria[], usage?: LookupUsage, options?: LookupOptions): Promise<(PersonMatch | null)[]>;
+
+  /**
+   * Find the email domains each company's records use, most used first.
+   * Companies are matched by normalized name; results are in input order.
+   * Query cost is added to `usage` when given.
+   */
+  findCompanyDomains(companyNames: string[], usage?: LookupUsage): Promise<CompanyDomain[][]>;
+
+  /**
+   * Sample the business emails and names of each company's known employees,
+   * for learning the company's address format. A company is identified by
+   * its domain when given, otherwise by normalized name; results are in
+   * input order. Query cost is added to `usage` when given.
+   */
+  findEmailSamples(
+    companies: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>[],
+    usage?: LookupUsage
+  ): Promise<EmailSample[][]>;
+
+  /**
+   * List one page of the people known at a company, ordered by name.
+   * The company is identified by its domain when given, otherwise by
+   * normalized name. Query cost is added to `usage` when given.
+   */
+  findCompanyPeople(
+    company: Pick<PersonSearchCriteria, 'companyName' | 'companyDomain'>,
+    page: { offset: number; limit: number },
+    usage?: LookupUsage
+  ): Promise<CompanyPeoplePage>;
+
+  /**
+   * Find the person owning each email address, matched against business and
+   * personal emails case-insensitively; results are in input order.
+   * Query cost is added to `usage` when given. Rejects when any part of the
+   * lookup fails.
+   */
+  findByEmail(emails: string[], usage?: LookupUsage): Promise<(EmailOwner | null)[]>;
+}
+
+/**
+ * Create an empty usage accumulator
+ */
+export function createLookupUsage(): LookupUsage {
+  return { queryCount: 0, dataScannedInBytes: 0, engineExecutionTimeMs: 0, runTimeMs: 0 };
+}
+
+/**
+ * Parse the PERSONAL_EMAILS column.
+ * Values might be stored as a JSON array, a comma-separated string or a single email.
+ */
+export function parsePersonalEmails(value: string | null | undefined): string[] | null {
+  if (!value || !value.trim()) return null;
+
+  try {
+    if (value.startsWith('[') && value.endsWith(']')) {
+      // Try parsing as JSON array
+      return JSON.parse(value);
+    }
+    if (value.includes(',')) {
+      // Try parsing as comma-separated string
+      return value.split(',').map((email) => email.trim());
+    }
+    // Single email
+    return [value.trim()];
+  } catch (e) {
+    console.error('Error parsing personal emails:', e);
+    return null;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Email Pattern Inference
+ *
+ * Learns the address format a company domain uses (first.last, flast, first,
+ * ...) from the business emails of its known employees, then applies the
+ * most common formats to a person the directory has no record for.
+ * Every generated address is a guess and carries a confidence from 0 to 100:
+ * the share of known addresses using its format, scaled down when the
+ * domain has few known addresses.
+ */
+
+import { foldName } from '@/lib/name-normalization';
+
+// Address formats, keyed by the name shown to users
+export const EMAIL_PATTERNS = {
+  'first.last': (first: string, last: string) => `${first}.${last}`,
+  firstlast: (first: string, last: string) => `${first}${last}`,
+  'first_last': (first: string, last: string) => `${first}_${last}`,
+  'first-last': (first: string, last: string) => `${first}-${last}`,
+  flast: (first: string, last: string) => `${first[0]}${last}`,
+  'f.last': (first: string, last: string) => `${first[0]}.${last}`,
+  firstl: (first: string, last: string) => `${first}${last[0]}`,
+  'first.l': (first: string, last: string) => `${first}.${last[0]}`,
+  first: (first: string) => first,
+  last: (_first: string, last: string) => last,
+  'last.first': (first: string, last: string) => `${last}.${first}`,
+  lastfirst: (first: string, last: string) => `${last}${first}`,
+  lastf: (first: string, last: string) => `${last}${first[0]}`,
+  'last.f': (first: string, last: string) => `${last}.${first[0]}`,
+  fl: (first: string, last: string) => `${first[0]}${last[0]}`,
+} as const;
+
+export type EmailPattern = keyof typeof EMAIL_PATTERNS;
+
+// Known addresses needed before a domain's pattern share is fully trusted
+const FULL_CONFIDENCE_SAMPLES = 10;
+
+// Interface for a known address and the name of the person using it
+export interface EmailSample {
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+}
+
+// Interface for how often one format is used at a domain
+export interface PatternShare {
+  pattern: EmailPattern;
+  count: number;
+  // Share of the domain's recognised addresses using this format, from 0 to 1
+  share: number;
+}
+
+// Interface for the formats learned for one domain
+export interface DomainPatternStats {
+  domain: string;
+  // Known addresses at the domain whose format was recognised
+  sampleSize: number;
+  patterns: PatternShare[];
+}
+
+// Interface for a generated address
+export interface InferredEmail {
+  email: string;
+  pattern: EmailPattern;
+  domain: string;
+  // How likely the guess is right, from 0 to 100
+  confidence: number;
+}
+
+// Reduce a name to the letters used in addresses; spaces and hyphens are dropped
+function toAddressName(name: string | null | undefined): string {
+  return foldName(name || '').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the formats that produce an address's local part from a name.
+ * Several formats can match, e.g. "john" is both `first` and `firstl` for "John L".
+ */
+export function detectPatterns(localPart: string, firstName: string, lastName: string): EmailPattern[] {
+  const first = toAddressName(firstName);
+  const last = toAddressName(lastName);
+  if (!first || !last) return [];
+
+  const local = localPart.toLowerCase();
+  return (Object.keys(EMAIL_PATTERNS) as EmailPattern[]).filter(
+    (pattern) => EMAIL_PATTERNS[pattern](first, last) === local
+  );
+}
+
+/**
+ * Learn the formats used at each domain from known addresses.
+ * Domains are returned with the most recognised addresses first.
+ */
+export function learnDomainPatterns(samples: EmailSample[]): DomainPatternStats[] {
+  const byDomain = new Map<string, Map<EmailPattern, number>>();
+  const sampleSizes = new Map<string, number>();
+
+  for (const sample of samples) {
+    const [localPart, domain] = sample.email.trim().toLowerCase().split('@');
+    if (!localPart || !domain || !sample.firstName || !sample.lastName) continue;
+
+    const patterns = detectPatterns(localPart, sample.firstName, sample.lastName);
+    if (patterns.length === 0) continue;
+
+    // An ambiguous address counts towards each format it fits, split evenly
+    const counts = byDomain.get(domain) ?? new Map<EmailPattern, number>();
+    for (const pattern of patterns) {
+      counts.set(pattern, (counts.get(pattern) ?? 0) + 1 / patterns.length);
+    }
+    byDomain.set(domain, counts);
+    sampleSizes.set(domain, (sampleSizes.get(domain) ?? 0) + 1);
+  }
+
+  return Array.from(byDomain, ([domain, counts]) => {
+    const sampleSize = sampleSizes.get(domain) ?? 0;
+    const patterns = Array.from(counts, ([pattern, count]) => ({
+      pattern,
+      count: Math.round(count * 10) / 10,
+      share: sampleSize > 0 ? count / sampleSize : 0,
+    })).sort((a, b) => b.share - a.share);
+
+    return { domain, sampleSize, patterns };
+  }).sort((a, b) => b.sampleSize - a.sampleSize);
+}
+
+/**
+ * Generate the most likely addresses for a person at a domain, best first
+ */
+export function inferEmails(
+  firstName: string,
+  lastName: string,
+  stats: DomainPatternStats,
+  limit = 3
+): InferredEmail[] {
+  const first = toAddressName(firstName);
+  const last = toAddressName(lastName);
+  if (!first || !last) return [];
+
+  // Few known addresses make even a dominant format uncertain
+  const sampleWeight = Math.min(1, stats.sampleSize / FULL_CONFIDENCE_SAMPLES);
+  const seen = new Set<string>();
+  const inferred: InferredEmail[] = [];
+
+  for (const { pattern, share } of stats.patterns) {
+    const email = `${EMAIL_PATTERNS[pattern](first, last)}@${stats.domain}`;
+    if (seen.has(email)) continue;
+    seen.add(email);
+
+    inferred.push({
+      email,
+      pattern,
+      domain: stats.domain,
+      confidence: Math.round(share * sampleWeight * 100),
+    });
+    if (inferred.length >= limit) break;
+  }
+
+  return inferred;
+}
+
+/**
+ * Pick the domain to generate addresses for: the requested domain, or the
+ * domain with the most known addresses when none was requested
+ */
+export function selectDomainStats(
+  stats: DomainPatternStats[],
+  preferredDomain?: string | null
+): DomainPatternStats | null {
+  if (preferredDomain) {
+    return stats.find((entry) => entry.domain === preferredDomain) ?? null;
+  }
+  return stats[0] ?? null;
+}
+
+/**
+ * Learn a company's formats from sampled addresses and guess a person's address
+ */
+export function inferFromSamples(
+  firstName: string,
+  lastName: string,
+  samples: EmailSample[],
+  options: { preferredDomain?: string | null; limit?: number } = {}
+): { stats: DomainPatternStats | null; emails: InferredEmail[] } {
+  const stats = selectDomainStats(learnDomainPatterns(samples), options.preferredDomain);
+  return {
+    stats,
+    emails: stats ? inferEmails(firstName, lastName, stats, options.limit) : [],
+  };
+}
+
+/**
+ * Generate every common address for a person at a domain, one per distinct
+ * local part, in the order formats are listed in EMAIL_PATTERNS
+ */
+export function generatePermutations(
+  firstName: string,
+  lastName: string,
+  domain: string
+): { email: string; pattern: EmailPattern }[] {
+  const first = toAddressName(firstName);
+  const last = toAddressName(lastName);
+  if (!first || !last) return [];
+
+  const seen = new Set<string>();
+  return (Object.keys(EMAIL_PATTERNS) as EmailPattern[]).flatMap((pattern) => {
+    const email = `${EMAIL_PATTERNS[pattern](first, last)}@${domain}`;
+    if (seen.has(email)) return [];
+    seen.add(email);
+    return [{ email, pattern }];
+  });
+}
+
+/**
+ * Find the format a person's address uses and how common it is at the domain.
+ * When several formats fit, the one most used at the domain is returned;
+ * null when the address fits no known format.
+ */
+export function findPatternShare(
+  email: string,
+  firstName: string | null,
+  lastName: string | null,
+  stats: DomainPatternStats | null
+): PatternShare | null {
+  const [localPart] = email.trim().toLowerCase().split('@');
+  if (!localPart || !firstName || !lastName) return null;
+
+  const shares = detectPatterns(localPart, firstName, lastName).map((pattern) =>
+    stats?.patterns.find((entry) => entry.pattern === pattern) ?? { pattern, count: 0, share: 0 }
+  );
+  return shares.sort((a, b) => b.share - a.share)[0] ?? null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Email Verification
+ *
+ * The checks behind the verify-email endpoint: format, typo suggestions,
+ * role-based and disposable addresses, the domain's MX records and SES
+ * verification. Shared by the endpoints that verify addresses.
+ */
+
+import { VerifyEmailAddressCommand, SESClient } from '@aws-sdk/client-ses';
+import dns from 'dns';
+import { promisify } from 'util';
+
+// Promisify DNS methods
+const resolveMx = promisify(dns.resolveMx);
+
+// Function to suggest corrections for common email typos
+export function suggestEmailCorrection(email: string): string | null {
+  const parts = email.split('@');
+  if (parts.length !== 2) return null;
+
+  const localPart = parts[0];
+  const domainPart = parts[1];
+
+  const commonDomainTypos: { [key: string]: string } = {
+    'gamil.com': 'gmail.com',
+    'gmial.com': 'gmail.com',
+    'gmai.com': 'gmail.com',
+    'gmal.com': 'gmail.com',
+    'hotmal.com': 'hotmail.com',
+    'hotmial.com': 'hotmail.com',
+    'hotmil.com': 'hotmail.com',
+    'outlok.com': 'outlook.com',
+    'outllok.com': 'outlook.com',
+    'yahho.com': 'yahoo.com',
+    'yaho.com': 'yahoo.com',
+  };
+
+  const commonTldTypos: { [key: string]: string } = {
+    'con': 'com',
+    'cmo': 'com',
+    'ocm': 'com',
+    'om': 'com', // common if 'c' is missed
+    'nte': 'net',
+    'ogr': 'org',
+  };
+
+  if (commonDomainTypos[domainPart.toLowerCase()]) {
+    return `${localPart}@${commonDomainTypos[domainPart.toLowerCase()]}`;
+  }
+
+  const domainParts = domainPart.split('.');
+  if (domainParts.length >= 2) {
+    const tld = domainParts.pop()!;
+    const mainDomain = domainParts.join('.');
+    if (commonTldTypos[tld.toLowerCase()]) {
+      return `${localPart}@${mainDomain}.${commonTldTypos[tld.toLowerCase()]}`;
+    }
+  }
+
+  return null;
+}
+
+// Function to identify role-based email accounts
+export function isRoleBasedEmail(email: string): boolean {
+  const localPart = email.split('@')[0]?.toLowerCase();
+  if (!localPart) return false;
+
+  const rolePrefixes = [
+    'admin', 'administrator', 'webmaster', 'postmaster', 'hostmaster',
+    'support', 'help', 'contact', 'info', 'information', 'sales', 'marketing',
+    'abuse', 'security', 'privacy', 'legal', 'billing', 'hr', 'jobs',
+    'careers', 'feedback', 'media', 'press', 'noreply', 'no-reply',
+    'dev', 'test', 'demo', 'office', 'team', 'hello', 'mail'
+  ];
+
+  return rolePrefixes.some(prefix => localPart.startsWith(prefix));
+}
+
+// Enhanced email validation regex
+export function isValidEmail(email: string): boolean {
+  // More comprehensive regex for email validation
+  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+  return emailRegex.test(email);
+}
+
+// Function to check common disposable email domains
+export function isDisposableEmail(email: string): boolean {
+  const disposableDomains = [
+    'mailinator.com', 'tempmail.com', 'temp-mail.org', 'guerrillamail.com',
+    'throwawaymail.com', '10minutemail.com', 'yopmail.com', 'trashmail.com',
+    'dispostable.com', 'sharklasers.com', 'grr.la', 'guerrillamail.info',
+    'fakeinbox.com', 'mailnesia.com', 'mailcatch.com', 'tempr.email',
+    'tempmail.net', 'discard.email', 'maildrop.cc', 'getairmail.com'
+  ];
+  
+  const domain = email.split('@')[1]?.toLowerCase();
+  return disposableDomains.includes(domain);
+}
+
+// Check if domain has valid MX records
+export async function hasMxRecords(domain: string): Promise<boolean> {
+  try {
+    const records = await resolveMx(domain);
+    return records && records.length > 0;
+  } catch (error) {
+    console.error(`Error checking MX records for ${domain}:`, error);
+    return false;
+  }
+}
+
+// Helper function to verify email with AWS SES
+export async function verifyEmailWithSES(email: string, sesClient: SESClient): Promise<boolean> {
+  if (!isValidEmail(email)) {
+    return false;
+  }
+  
+  // Before calling SES, check if it's a role-based email that might be blocked by SES policies
+  // This is a proactive check, SES might still verify some role accounts
+  if (isRoleBasedEmail(email)) {
+    console.warn(`Attempting to verify a role-based email: ${email}. SES might have restrictions.`);
+  }
+
+  try {
+    await sesClient.send(new VerifyEmailAddressCommand({ EmailAddress: email }));
+    return true;
+  } catch (error) {
+    console.error('Error verifying email with SES:', error);
+    return false;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Enrichment Fields
+ *
+ * Extra person table columns a user can have lookups return next to the email
+ * columns, such as job title, location or company size. The columns on offer
+ * are read from the contact directory's schema, so any column the table has
+ * can be chosen; requested names are resolved against that schema before
+ * they are used in a query, and unknown names are reported back.
+ */
+
+import { CANDIDATE_COLUMNS, isPlainColumnName, SET_ROW_INDEX_COLUMN } from '@/lib/athena-query-builder';
+import { ContactDirectory, DirectoryField, LookupUsage } from '@/lib/contact-directory';
+
+// Most enrichment columns a single lookup can ask for
+export const MAX_ENRICHMENT_FIELDS = 20;
+
+// Columns suggested first in the selection UI when the table has them, compared lowercased
+const SUGGESTED_COLUMNS = [
+  'job_title',
+  'title',
+  'seniority',
+  'department',
+  'location',
+  'city',
+  'state',
+  'country',
+  'company_size',
+  'company_employee_count',
+  'company_industry',
+  'industry',
+];
+
+// Columns every lookup already returns, or that set queries use themselves
+const RESERVED_COLUMNS = new Set([...CANDIDATE_COLUMNS, SET_ROW_INDEX_COLUMN].map((column) => column.toLowerCase()));
+
+// Interface for a column offered as an enrichment field
+export interface EnrichmentField {
+  column: string;
+  label: string;
+  type: string;
+  // Whether the column is one of the commonly wanted ones
+  suggested: boolean;
+}
+
+// Interface for requested enrichment fields resolved against the schema
+export interface ResolvedEnrichmentFields {
+  // Column names as the schema spells them, in request order
+  fields: string[];
+  // Requested names the schema does not offer
+  unknown: string[];
+}
+
+/**
+ * Turn a column name into a label, e.g. "JOB_TITLE" -> "Job Title"
+ */
+export function toFieldLabel(column: string): string {
+  return column
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * List the schema columns that can be chosen as enrichment fields.
+ * Suggested columns come first, in suggestion order, then the rest in table order.
+ */
+export function listEnrichmentFields(schema: DirectoryField[]): EnrichmentField[] {
+  const fields = schema
+    .filter((field) => isPlainColumnName(field.name) && !RESERVED_COLUMNS.has(field.name.toLowerCase()))
+    .map((field) => ({
+      column: field.name,
+      label: toFieldLabel(field.name),
+      type: field.type,
+      suggested: SUGGESTED_COLUMNS.includes(field.name.toLowerCase()),
+    }));
+
+  const suggestionRank = (field: EnrichmentField) => SUGGESTED_COLUMNS.indexOf(field.column.toLowerCase());
+  return [
+    ...fields.filter((field) => field.suggested).sort((a, b) => suggestionRank(a) - suggestionRank(b)),
+    ...fields.filter((field) => !field.suggested),
+  ];
+}
+
+/**
+ * Read requested field names from a request value: an array of names or a
+ * comma-separated string. Blank and repeated names are dropped.
+ */
+export function parseRequestedFields(value: unknown): string[] {
+  const names = Array.isArray(value)
+    ? value.map((name) => String(name ?? ''))
+    : typeof value === 'string'
+    ? value.split(',')
+    : [];
+
+  const seen = new Set<string>();
+  return names
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Resolve requested field names against the offered fields, case-insensitively
+ */
+export function resolveEnrichmentFields(requested: string[], available: EnrichmentField[]): ResolvedEnrichmentFields {
+  const byName = new Map(available.map((field) => [field.column.toLowerCase(), field.column]));
+  const fields: string[] = [];
+  const unknown: string[] = [];
+
+  for (const name of requested) {
+    const column = byName.get(name.toLowerCase());
+    if (column) {
+      fields.push(column);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  return { fields, unknown };
+}
+
+/**
+ * Resolve the enrichment fields of a request against the directory's schema.
+ * The schema is only read when fields were requested.
+ */
+export async function resolveRequestedFields(
+  directory: ContactDirectory,
+  value: unknown,
+  usage?: LookupUsage
+): Promise<ResolvedEnrichmentFields> {
+  const requested = parseRequestedFields(value);
+  if (requested.length === 0) return { fields: [], unknown: [] };
+
+  const available = listEnrichmentFields(await directory.describeFields(usage));
+  return resolveEnrichmentFields(requested, available);
+}
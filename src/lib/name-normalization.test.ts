@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalName, classifyNameMatch, foldName, nameVariants, transliterate } from './name-normalization';
+
+describe('foldName', () => {
+  it('folds case, diacritics and special letters', () => {
+    expect(foldName('  JOSÉ ')).toBe('jose');
+    expect(foldName('Łukasz')).toBe('lukasz');
+    expect(foldName('Strauß')).toBe('strauss');
+    expect(foldName("O'Brien")).toBe('obrien');
+  });
+});
+
+describe('canonicalName', () => {
+  it('writes every umlaut spelling the same way', () => {
+    expect(canonicalName('Müller')).toBe('muller');
+    expect(canonicalName('Mueller')).toBe('muller');
+    expect(canonicalName('MULLER')).toBe('muller');
+  });
+});
+
+describe('transliterate', () => {
+  it('romanizes Cyrillic and Greek letters', () => {
+    expect(transliterate('Сергей')).toBe('sergey');
+    expect(transliterate('Νίκος')).toBe('nikos');
+  });
+});
+
+describe('nameVariants', () => {
+  it('lists the folded name first', () => {
+    expect(nameVariants('Müller')[0]).toBe('muller');
+  });
+
+  it('includes umlaut spellings and romanization variants', () => {
+    expect(nameVariants('Müller')).toContain('mueller');
+    expect(nameVariants('Sergey')).toContain('sergei');
+  });
+
+  it('only expands nicknames when asked', () => {
+    expect(nameVariants('Bob')).not.toContain('robert');
+    expect(nameVariants('Bob', { nicknames: true })).toContain('robert');
+  });
+
+  it('returns nothing for a name that folds to nothing', () => {
+    expect(nameVariants('  ')).toEqual([]);
+  });
+});
+
+describe('classifyNameMatch', () => {
+  it('tells how a record name matched, from strongest to weakest', () => {
+    expect(classifyNameMatch('Jose', 'jose')).toBe('exact');
+    expect(classifyNameMatch('José', 'Jose')).toBe('folded');
+    expect(classifyNameMatch('Sergei', 'Sergey')).toBe('transliteration');
+    expect(classifyNameMatch('Robert', 'Bob', { nicknames: true })).toBe('nickname');
+    expect(classifyNameMatch('Johnson', 'John')).toBe('prefix');
+    expect(classifyNameMatch('Smith', 'John')).toBeNull();
+  });
+
+  it('matches umlaut spellings in both directions', () => {
+    expect(classifyNameMatch('Mueller', 'Müller')).toBe('transliteration');
+    expect(classifyNameMatch('Müller', 'Mueller')).toBe('transliteration');
+  });
+
+  it('does not match nicknames unless asked', () => {
+    expect(classifyNameMatch('Robert', 'Bob')).toBeNull();
+  });
+
+  it('does not match blank values', () => {
+    expect(classifyNameMatch(null, 'John')).toBeNull();
+    expect(classifyNameMatch('John', ' ')).toBeNull();
+  });
+});
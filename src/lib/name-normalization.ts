@@ -0,0 +1,248 @@
+/**
+ * Name Normalization
+ *
+ * Expands a searched name into the spellings that should find the same person:
+ * - folding: case, diacritics and special letters ("José" and "JOSE" both fold to "jose")
+ * - transliteration: Cyrillic and Greek input, German umlaut spellings
+ *   ("Müller" / "Mueller") and common romanization variants ("Sergey" / "Sergei")
+ * - nicknames: first names expand to their equivalence set ("Bob" finds "Robert")
+ *
+ * The same folding runs in SQL (see athena-query-builder) and in JavaScript,
+ * so every backend compares folded values. Umlaut spellings are matched both
+ * ways by reducing the searched name and the record's name to one canonical
+ * form, in which "ae", "oe" and "ue" are written "a", "o" and "u".
+ */
+
+// How a record's name matched the searched name, from strongest to weakest
+export type NameMatchKind = 'exact' | 'folded' | 'transliteration' | 'nickname' | 'prefix';
+
+// Letters that Unicode decomposition does not fold, with their replacements.
+// Applied after lowercasing and stripping combining marks.
+export const NAME_CHARACTER_REPLACEMENTS: readonly (readonly [string, string])[] = [
+  ['ß', 'ss'],
+  ['æ', 'ae'],
+  ['œ', 'oe'],
+  ['ø', 'o'],
+  ['ł', 'l'],
+  ['đ', 'd'],
+  ['ð', 'd'],
+  ['þ', 'th'],
+  ['ı', 'i'],
+  ['ħ', 'h'],
+  ["'", ''],
+  ['’', ''],
+];
+
+// German umlauts, which are also commonly written with a trailing "e"
+const UMLAUT_SPELLINGS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue' };
+
+// Umlaut spellings with a trailing "e", collapsed to the bare vowel in the
+// canonical form; also used as a regular expression in SQL
+export const UMLAUT_E_PATTERN = '([aou])e';
+
+// Cyrillic and Greek letters, romanized the way names usually appear in Latin script
+const TRANSLITERATIONS: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  і: 'i', ї: 'yi', є: 'ye', ґ: 'g',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l',
+  μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f',
+  χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+// Spellings of the same name produced by different romanizations
+const TRANSLITERATION_SETS: readonly string[][] = [
+  ['mohammed', 'muhammad', 'mohamed', 'mohammad', 'muhammed', 'mohamad'],
+  ['aleksandr', 'alexander', 'aleksander', 'alexandr'],
+  ['alexey', 'alexei', 'aleksei', 'aleksey'],
+  ['andrey', 'andrei'],
+  ['sergey', 'sergei', 'serguei'],
+  ['dmitry', 'dmitri', 'dmitriy'],
+  ['yuri', 'yury', 'yuriy', 'iouri', 'juri'],
+  ['nikolay', 'nikolai'],
+  ['evgeny', 'evgeni', 'yevgeny', 'evgeniy'],
+  ['mikhail', 'michail'],
+  ['tatiana', 'tatyana', 'tatjana'],
+  ['natalia', 'natalya', 'nataliya'],
+  ['yulia', 'yuliya', 'iuliia', 'julia'],
+  ['olena', 'elena', 'yelena'],
+  ['ahmed', 'ahmad', 'ahmet'],
+  ['hussein', 'hussain', 'husain', 'hossein'],
+  ['yusuf', 'youssef', 'yousef', 'yosef'],
+  ['tchaikovsky', 'chaikovsky', 'tschaikowsky'],
+  ['zhang', 'chang'],
+];
+
+// First names that refer to the same person
+const NICKNAME_SETS: readonly string[][] = [
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+  ['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+  ['richard', 'rick', 'ricky', 'rich', 'dick'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'johnny', 'jack', 'jon'],
+  ['michael', 'mike', 'mikey', 'mick'],
+  ['thomas', 'tom', 'tommy'],
+  ['joseph', 'joe', 'joey'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['christopher', 'chris', 'kit'],
+  ['daniel', 'dan', 'danny'],
+  ['matthew', 'matt', 'matty'],
+  ['anthony', 'tony'],
+  ['andrew', 'andy', 'drew'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['steven', 'stephen', 'steve'],
+  ['nicholas', 'nick', 'nicky'],
+  ['benjamin', 'ben', 'benny'],
+  ['samuel', 'sam', 'sammy'],
+  ['alexander', 'alex', 'sasha', 'xander'],
+  ['jonathan', 'jon', 'jonny'],
+  ['timothy', 'tim', 'timmy'],
+  ['patrick', 'pat', 'paddy'],
+  ['gregory', 'greg'],
+  ['kenneth', 'ken', 'kenny'],
+  ['ronald', 'ron', 'ronnie'],
+  ['donald', 'don', 'donnie'],
+  ['peter', 'pete'],
+  ['frederick', 'fred', 'freddie'],
+  ['lawrence', 'larry'],
+  ['jeffrey', 'jeff'],
+  ['douglas', 'doug'],
+  ['raymond', 'ray'],
+  ['gerald', 'gerry', 'jerry'],
+  ['francis', 'frank', 'frankie'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'eliza'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['katherine', 'catherine', 'kate', 'katie', 'kathy', 'cathy', 'kat'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jessica', 'jess', 'jessie'],
+  ['patricia', 'pat', 'patty', 'tricia'],
+  ['susan', 'sue', 'susie'],
+  ['deborah', 'debra', 'deb', 'debbie'],
+  ['rebecca', 'becky', 'becca'],
+  ['victoria', 'vicky', 'tori'],
+  ['christine', 'christina', 'chris', 'tina'],
+  ['alexandra', 'alex', 'alexa', 'sandra'],
+  ['abigail', 'abby'],
+  ['samantha', 'sam', 'sammy'],
+  ['kimberly', 'kim'],
+  ['dorothy', 'dot', 'dottie'],
+  ['josé', 'pepe'],
+  ['francisco', 'paco', 'pancho'],
+  ['guillermo', 'memo'],
+];
+
+// Lookup from a folded name to the other names of its sets
+function buildIndex(sets: readonly string[][]): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  for (const set of sets) {
+    const folded = set.map(foldName);
+    for (const name of folded) {
+      const equivalents = index.get(name) ?? new Set<string>();
+      folded.forEach((other) => equivalents.add(other));
+      index.set(name, equivalents);
+    }
+  }
+  return index;
+}
+
+let nicknameIndex: Map<string, Set<string>> | null = null;
+let transliterationIndex: Map<string, Set<string>> | null = null;
+
+/**
+ * Fold a name for comparison: lowercase, strip diacritics and replace
+ * special letters. Must stay in step with the SQL built by foldedNameSql.
+ */
+export function foldName(name: string): string {
+  let folded = name.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '');
+  for (const [from, to] of NAME_CHARACTER_REPLACEMENTS) {
+    folded = folded.split(from).join(to);
+  }
+  return folded.trim();
+}
+
+/**
+ * Reduce a name to the canonical form searched names and record names are
+ * compared in: folded, with umlaut spellings collapsed, so "Müller", "Mueller"
+ * and "Muller" are all "muller". Must stay in step with canonicalNameSql.
+ */
+export function canonicalName(name: string): string {
+  return foldName(name).replace(new RegExp(UMLAUT_E_PATTERN, 'g'), '$1');
+}
+
+/**
+ * Romanize Cyrillic and Greek letters; other characters are kept. Accented
+ * letters without a romanization of their own, such as the Greek "ί", are
+ * romanized by their base letter.
+ */
+export function transliterate(name: string): string {
+  return Array.from(name.toLowerCase().normalize('NFC'))
+    .map((char) => TRANSLITERATIONS[char] ?? TRANSLITERATIONS[char.normalize('NFD').charAt(0)] ?? char)
+    .join('');
+}
+
+// Folded spellings of a name that only differ in script or romanization
+function transliterationVariants(name: string): Set<string> {
+  const variants = new Set<string>();
+  const folded = foldName(name);
+
+  // "Müller" is also written "Mueller"
+  const umlauts = name.toLowerCase().normalize('NFC').replace(/[äöü]/g, (char) => UMLAUT_SPELLINGS[char]);
+  variants.add(foldName(umlauts));
+  variants.add(foldName(transliterate(name)));
+
+  transliterationIndex ??= buildIndex(TRANSLITERATION_SETS);
+  for (const variant of [folded, ...variants]) {
+    transliterationIndex.get(variant)?.forEach((equivalent) => variants.add(equivalent));
+  }
+
+  variants.delete(folded);
+  return variants;
+}
+
+// Folded nicknames and full forms of a first name
+function nicknameVariants(name: string): Set<string> {
+  nicknameIndex ??= buildIndex(NICKNAME_SETS);
+  const variants = new Set<string>();
+  for (const spelling of [foldName(name), ...transliterationVariants(name)]) {
+    nicknameIndex.get(spelling)?.forEach((equivalent) => variants.add(equivalent));
+  }
+  return variants;
+}
+
+/**
+ * Every folded spelling a searched name should match exactly, the folded
+ * name itself first. Nicknames are only expanded for first names.
+ */
+export function nameVariants(name: string, options: { nicknames?: boolean } = {}): string[] {
+  const folded = foldName(name);
+  if (!folded) return [];
+
+  const variants = new Set<string>([folded, ...transliterationVariants(name)]);
+  if (options.nicknames) {
+    nicknameVariants(name).forEach((variant) => variants.add(variant));
+  }
+  return Array.from(variants).filter(Boolean);
+}
+
+/**
+ * Describe how a record's name matched the searched name, or null when it did not
+ */
+export function classifyNameMatch(
+  value: string | null | undefined,
+  searched: string,
+  options: { nicknames?: boolean } = {}
+): NameMatchKind | null {
+  if (!value?.trim() || !searched.trim()) return null;
+
+  if (value.trim().toLowerCase() === searched.trim().toLowerCase()) return 'exact';
+
+  const foldedValue = foldName(value);
+  const foldedSearch = foldName(searched);
+  if (foldedValue === foldedSearch) return 'folded';
+  if (transliterationVariants(searched).has(foldedValue) || canonicalName(value) === canonicalName(searched)) {
+    return 'transliteration';
+  }
+  if (options.nicknames && nicknameVariants(searched).has(foldedValue)) return 'nickname';
+  return foldedValue.startsWith(foldedSearch) ? 'prefix' : null;
+}
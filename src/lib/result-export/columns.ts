@@ -0,0 +1,133 @@
+/**
+ * Export Columns
+ *
+ * Turns stored bulk results and single search history entries into flat rows
+ * for export. Lookup columns come first in a fixed order, followed by any
+ * other columns the rows carry (such as columns of the uploaded file) and the
+ * requested enrichment columns. Only columns that appear in at least one row
+ * are offered, so person searches and reverse lookups each get their own set.
+ */
+
+import { ExportTable } from './types';
+
+// Lookup columns of a bulk result row, in export order
+const BULK_COLUMNS = [
+  'firstName', 'lastName', 'linkedin', 'companyName', 'companyDomain', 'lookupEmail', 'foundEmail', 'email',
+  'personalEmails', 'isVerified', 'emailQuality', 'companyDomains', 'matchTier', 'matchedCriteria', 'matchedOn',
+  'matchedNameVariants', 'inferredEmail', 'inferredEmailPattern', 'inferredEmailConfidence', 'skipReason',
+];
+
+// Columns of a single search history entry, in export order
+const SINGLE_COLUMNS = [
+  'timestamp', 'searchType', 'lookupEmail', 'firstName', 'lastName', 'companyName', 'companyDomain',
+  'companyWebsite', 'linkedin', 'email', 'personalEmails', 'matchTier', 'matchedCriteria', 'matchedOn',
+  'matchedNameVariants', 'emailPattern',
+];
+
+// Fields of a bulk result row that are exported in another form, or not at all
+const BULK_HIDDEN_FIELDS = new Set(['nameMatches', 'enrichment', 'processedAt']);
+
+// Interface for the spelling of a searched name that matched
+interface NameVariantMatch {
+  matched: string;
+  kind: string;
+}
+
+// Stored names that matched under a different spelling, e.g. "Robert (nickname)"
+export function nameVariantSummary(nameMatches: unknown): string {
+  const matches = (nameMatches ?? {}) as Partial<Record<'firstName' | 'lastName', NameVariantMatch>>;
+  return (['firstName', 'lastName'] as const)
+    .map((field) => matches[field])
+    .filter((match): match is NameVariantMatch => !!match && match.kind !== 'exact')
+    .map((match) => `${match.matched} (${match.kind})`)
+    .join('; ');
+}
+
+// Keep the columns present in any row: the known ones in their order, then the rest as first seen
+function presentColumns(rows: Record<string, unknown>[], knownColumns: string[]): string[] {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      if (value !== undefined) seen.add(column);
+    }
+  }
+  return [
+    ...knownColumns.filter((column) => seen.has(column)),
+    ...Array.from(seen).filter((column) => !knownColumns.includes(column)),
+  ];
+}
+
+/**
+ * Flatten stored bulk result rows for export
+ */
+export function bulkExportTable(results: Record<string, unknown>[], enrichmentFields: string[] = []): ExportTable {
+  const rows = results.map((record) => {
+    const row: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(record)) {
+      if (!BULK_HIDDEN_FIELDS.has(field)) row[field] = value;
+    }
+    if (record.nameMatches) row.matchedNameVariants = nameVariantSummary(record.nameMatches);
+    return row;
+  });
+
+  // Enrichment columns go last, whether or not a row has a value for them
+  const enrichmentColumns = Array.from(new Set([
+    ...enrichmentFields,
+    ...results.flatMap((record) => Object.keys((record.enrichment ?? {}) as Record<string, unknown>)),
+  ]));
+  rows.forEach((row, index) => {
+    const enrichment = (results[index].enrichment ?? {}) as Record<string, unknown>;
+    for (const column of enrichmentColumns) row[column] = enrichment[column] ?? null;
+  });
+
+  const columns = presentColumns(rows, BULK_COLUMNS).filter((column) => !enrichmentColumns.includes(column));
+  return { columns: [...columns, ...enrichmentColumns], rows };
+}
+
+/**
+ * Flatten stored single search history entries for export
+ */
+export function singleExportTable(entries: Record<string, unknown>[]): ExportTable {
+  const rows = entries.map((entry) => {
+    const emailPattern = entry.emailPattern as { patterns?: { pattern: string }[] } | null | undefined;
+    const row: Record<string, unknown> = {
+      timestamp: entry.timestamp,
+      searchType: entry.searchType ?? 'person',
+      lookupEmail: entry.lookupEmail,
+      firstName: entry.firstName,
+      lastName: entry.lastName,
+      companyName: entry.companyName,
+      companyDomain: entry.companyDomain,
+      companyWebsite: entry.companyWebsite,
+      linkedin: entry.linkedin,
+      email: entry.email,
+      personalEmails: entry.personalEmails,
+      matchTier: entry.matchTier,
+      matchedCriteria: entry.matchedCriteria,
+      matchedOn: entry.matchedOn,
+      matchedNameVariants: entry.nameMatches ? nameVariantSummary(entry.nameMatches) : undefined,
+      // The company's most common email format
+      emailPattern: emailPattern?.patterns?.[0]?.pattern,
+    };
+    return { ...row, ...((entry.enrichment ?? {}) as Record<string, unknown>) };
+  });
+
+  return { columns: presentColumns(rows, SINGLE_COLUMNS), rows };
+}
+
+/**
+ * Check a column selection against the columns a table has. Without a
+ * selection every column is exported.
+ */
+export function selectColumns(
+  available: string[],
+  requested: string[]
+): { columns: string[]; unknown: string[] } {
+  const names = Array.from(new Set(requested.map((name) => name.trim()).filter(Boolean)));
+  if (names.length === 0) return { columns: available, unknown: [] };
+
+  return {
+    columns: names.filter((name) => available.includes(name)),
+    unknown: names.filter((name) => !available.includes(name)),
+  };
+}
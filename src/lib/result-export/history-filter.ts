@@ -0,0 +1,100 @@
+/**
+ * Single History Filter
+ *
+ * The filter of the single search history view. The view filters the entries
+ * it lists with it, and sends it to the export route as query parameters, so
+ * an export holds exactly the entries on screen.
+ */
+
+// Interface for the filter of the single search history
+export interface SingleHistoryFilter {
+  // Text looked for in names, company, domain, LinkedIn URL and emails
+  query: string;
+  searchType: 'all' | 'person' | 'reverse';
+  status: 'all' | 'found' | 'not-found';
+  // Earliest and latest search time as ISO timestamps, or empty for no limit
+  from: string;
+  to: string;
+}
+
+// Interface for the fields of a history entry the filter looks at
+export interface SingleHistoryEntry {
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  companyDomain?: string;
+  linkedin?: string;
+  email?: string;
+  personalEmails?: string[];
+  lookupEmail?: string;
+  searchType?: string;
+  timestamp?: string | Date;
+  lastModified?: string | Date;
+}
+
+const SEARCH_TYPES: SingleHistoryFilter['searchType'][] = ['all', 'person', 'reverse'];
+const STATUSES: SingleHistoryFilter['status'][] = ['all', 'found', 'not-found'];
+
+// Read a timestamp parameter, ignoring values that are not dates
+function readTimestamp(value: string | null): string {
+  return value && !isNaN(new Date(value).getTime()) ? value : '';
+}
+
+/**
+ * Read a filter from query parameters; missing or invalid values do not filter
+ */
+export function parseSingleHistoryFilter(params: URLSearchParams): SingleHistoryFilter {
+  const searchType = params.get('searchType') as SingleHistoryFilter['searchType'];
+  const status = params.get('status') as SingleHistoryFilter['status'];
+  return {
+    query: params.get('q')?.trim() ?? '',
+    searchType: SEARCH_TYPES.includes(searchType) ? searchType : 'all',
+    status: STATUSES.includes(status) ? status : 'all',
+    from: readTimestamp(params.get('from')),
+    to: readTimestamp(params.get('to')),
+  };
+}
+
+/**
+ * Write a filter as query parameters, leaving out the parts that do not filter
+ */
+export function filterToSearchParams(filter: SingleHistoryFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.query.trim()) params.set('q', filter.query.trim());
+  if (filter.searchType !== 'all') params.set('searchType', filter.searchType);
+  if (filter.status !== 'all') params.set('status', filter.status);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  return params;
+}
+
+/**
+ * Check whether a history entry passes the filter
+ */
+export function matchesSingleHistoryFilter(entry: SingleHistoryEntry, filter: SingleHistoryFilter): boolean {
+  if (filter.searchType !== 'all' && (entry.searchType ?? 'person') !== filter.searchType) return false;
+
+  const found = !!entry.email || (entry.personalEmails?.length ?? 0) > 0;
+  if (filter.status === 'found' && !found) return false;
+  if (filter.status === 'not-found' && found) return false;
+
+  if (filter.from || filter.to) {
+    const searchedAt = entry.timestamp ?? entry.lastModified;
+    const time = searchedAt ? new Date(searchedAt).getTime() : NaN;
+    if (isNaN(time)) return false;
+    if (filter.from && time < new Date(filter.from).getTime()) return false;
+    if (filter.to && time > new Date(filter.to).getTime()) return false;
+  }
+
+  const query = filter.query.trim().toLowerCase();
+  if (!query) return true;
+  return [
+    `${entry.firstName ?? ''} ${entry.lastName ?? ''}`,
+    entry.companyName,
+    entry.companyDomain,
+    entry.linkedin,
+    entry.email,
+    entry.lookupEmail,
+    ...(entry.personalEmails ?? []),
+  ].some((value) => !!value && value.toLowerCase().includes(query));
+}
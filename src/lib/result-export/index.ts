@@ -0,0 +1,33 @@
+/**
+ * Result Export
+ *
+ * Server-side exports of stored results: bulk results through
+ * /api/bulk-result/[id]/export and the single search history through
+ * /api/list-single-results/export. Rows are flattened into export columns,
+ * narrowed to the columns the user picked and written as CSV, XLSX, JSON or
+ * vCard. The filter of the single search history is shared with its list view,
+ * and export profiles lay bulk results out for CRM imports.
+ */
+
+export type { ExportFile, ExportFormat, ExportTable } from './types';
+export type { SingleHistoryEntry, SingleHistoryFilter } from './history-filter';
+export type { ExportProfile, ExportProfileColumn, ProfileValueFormat } from './profiles';
+export { EXPORT_FORMAT_LABELS, EXPORT_FORMATS, isExportFormat } from './types';
+export { bulkExportTable, nameVariantSummary, selectColumns, singleExportTable } from './columns';
+export { VCARD_COLUMNS } from './vcard';
+export { downloadHeaders, csvCell, formatCell, writeExportFile } from './writers';
+export {
+  filterToSearchParams,
+  matchesSingleHistoryFilter,
+  parseSingleHistoryFilter,
+} from './history-filter';
+export {
+  BUILT_IN_PROFILES,
+  getBuiltInProfile,
+  MAX_PROFILE_NAME_LENGTH,
+  parseExportProfile,
+  PROFILE_EXPORT_FORMATS,
+  PROFILE_VALUE_FORMAT_LABELS,
+  PROFILE_VALUE_FORMATS,
+  profileExportTable,
+} from './profiles';
@@ -0,0 +1,219 @@
+/**
+ * Export Profiles
+ *
+ * Profiles lay a bulk result out for a CRM import: each profile column has
+ * the header the CRM expects, the result columns its value is read from and
+ * how the value is written. Rows without a value for a required column are
+ * left out, since the CRM would reject them on import. HubSpot, Salesforce
+ * and Pipedrive profiles are built in; users save their own through
+ * /api/export-profiles.
+ */
+
+import { ExportFormat, ExportTable } from './types';
+import { formatCell } from './writers';
+
+// How a profile column writes its value
+export type ProfileValueFormat = 'text' | 'lowercase' | 'first' | 'url' | 'yes-no' | 'true-false';
+
+export const PROFILE_VALUE_FORMATS: ProfileValueFormat[] = ['text', 'lowercase', 'first', 'url', 'yes-no', 'true-false'];
+
+// Labels shown for each value format
+export const PROFILE_VALUE_FORMAT_LABELS: Record<ProfileValueFormat, string> = {
+  text: 'As stored',
+  lowercase: 'Lowercase',
+  first: 'First item of a list',
+  url: 'URL (adds https://)',
+  'yes-no': 'Yes / No',
+  'true-false': 'TRUE / FALSE',
+};
+
+// Formats a profile can be exported as; CRMs import spreadsheets, and JSON suits API imports
+export const PROFILE_EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// Limits on user-defined profiles
+export const MAX_PROFILE_NAME_LENGTH = 80;
+const MAX_PROFILE_COLUMNS = 100;
+
+// Interface for a column of an export profile
+export interface ExportProfileColumn {
+  // Header the CRM expects
+  header: string;
+  // Result columns the value is read from, in order
+  fields: string[];
+  // 'first' uses the first field with a value; 'all' joins every value with a space (e.g. a full name)
+  combine: 'first' | 'all';
+  format: ProfileValueFormat;
+  // Rows without a value here are left out of the export
+  required: boolean;
+}
+
+// Interface for an export profile
+export interface ExportProfile {
+  profileId: string;
+  name: string;
+  builtIn: boolean;
+  columns: ExportProfileColumn[];
+}
+
+// Shorthand for the columns of the built-in profiles
+function column(
+  header: string,
+  fields: string[],
+  options: Partial<Pick<ExportProfileColumn, 'combine' | 'format' | 'required'>> = {}
+): ExportProfileColumn {
+  return { header, fields, combine: 'first', format: 'text', required: false, ...options };
+}
+
+// Business email of a row; reverse lookups store it as email
+const EMAIL_FIELDS = ['foundEmail', 'email'];
+
+// Profiles matching each CRM's contact import template
+export const BUILT_IN_PROFILES: ExportProfile[] = [
+  {
+    // HubSpot contacts are deduplicated on their email, so rows without one are left out
+    profileId: 'hubspot',
+    name: 'HubSpot contacts',
+    builtIn: true,
+    columns: [
+      column('First Name', ['firstName']),
+      column('Last Name', ['lastName']),
+      column('Email', EMAIL_FIELDS, { format: 'lowercase', required: true }),
+      column('Company Name', ['companyName']),
+      column('Company Domain Name', ['companyDomain'], { format: 'lowercase' }),
+      column('LinkedIn URL', ['linkedin'], { format: 'url' }),
+    ],
+  },
+  {
+    // Salesforce leads need a last name and a company
+    profileId: 'salesforce',
+    name: 'Salesforce leads',
+    builtIn: true,
+    columns: [
+      column('First Name', ['firstName']),
+      column('Last Name', ['lastName'], { required: true }),
+      column('Company', ['companyName', 'companyDomain'], { required: true }),
+      column('Email', EMAIL_FIELDS, { format: 'lowercase' }),
+      column('Website', ['companyDomain'], { format: 'url' }),
+    ],
+  },
+  {
+    // Pipedrive people need a name, which is a single field
+    profileId: 'pipedrive',
+    name: 'Pipedrive people',
+    builtIn: true,
+    columns: [
+      column('Person - Name', ['firstName', 'lastName'], { combine: 'all', required: true }),
+      column('Person - Email', EMAIL_FIELDS, { format: 'lowercase' }),
+      column('Organization - Name', ['companyName']),
+    ],
+  },
+];
+
+/**
+ * Find a built-in profile by id
+ */
+export function getBuiltInProfile(profileId: string): ExportProfile | null {
+  return BUILT_IN_PROFILES.find((profile) => profile.profileId === profileId) ?? null;
+}
+
+// Write one field's value in a format, or '' when it has none
+function formatProfileValue(value: unknown, format: ProfileValueFormat): string | number | boolean {
+  if (format === 'first' && Array.isArray(value)) value = value.find((item) => item !== null && item !== '');
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return '';
+
+  switch (format) {
+    case 'lowercase':
+      return String(formatCell(value)).trim().toLowerCase();
+    case 'url': {
+      const url = String(formatCell(value)).trim();
+      return url && !/^https?:\/\//i.test(url) ? `https://${url}` : url;
+    }
+    case 'yes-no':
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : formatCell(value);
+    case 'true-false':
+      return typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : formatCell(value);
+    default:
+      return typeof value === 'string' ? value.trim() : formatCell(value);
+  }
+}
+
+/**
+ * Lay export rows out as a profile, with the profile's headers as columns.
+ * Returns how many rows were left out for missing a required value.
+ */
+export function profileExportTable(
+  profile: ExportProfile,
+  rows: Record<string, unknown>[]
+): { table: ExportTable; skippedRows: number } {
+  const profileRows = rows.map((row) => {
+    const profileRow: Record<string, unknown> = {};
+    for (const profileColumn of profile.columns) {
+      const values = profileColumn.fields
+        .map((field) => formatProfileValue(row[field], profileColumn.format))
+        .filter((value) => value !== '');
+      profileRow[profileColumn.header] = profileColumn.combine === 'all' ? values.join(' ') : values[0] ?? '';
+    }
+    return profileRow;
+  });
+
+  const requiredHeaders = profile.columns.filter((item) => item.required).map((item) => item.header);
+  const keptRows = profileRows.filter((row) => requiredHeaders.every((header) => row[header] !== ''));
+
+  return {
+    table: { columns: profile.columns.map((item) => item.header), rows: keptRows },
+    skippedRows: profileRows.length - keptRows.length,
+  };
+}
+
+/**
+ * Validate a user-defined profile's name and columns
+ */
+export function parseExportProfile(
+  value: unknown
+): { profile: Pick<ExportProfile, 'name' | 'columns'>; errors: string[] } {
+  const errors: string[] = [];
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    errors.push('A profile name is required.');
+  } else if (name.length > MAX_PROFILE_NAME_LENGTH) {
+    errors.push(`Profile names can be at most ${MAX_PROFILE_NAME_LENGTH} characters.`);
+  } else if (BUILT_IN_PROFILES.some((profile) => profile.name.toLowerCase() === name.toLowerCase())) {
+    errors.push(`"${name}" is the name of a built-in profile.`);
+  }
+
+  const columns: ExportProfileColumn[] = [];
+  if (!Array.isArray(input.columns) || input.columns.length === 0) {
+    errors.push('A profile needs at least one column.');
+  } else if (input.columns.length > MAX_PROFILE_COLUMNS) {
+    errors.push(`A profile can have at most ${MAX_PROFILE_COLUMNS} columns.`);
+  } else {
+    input.columns.forEach((item, index) => {
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      const header = typeof entry.header === 'string' ? entry.header.trim() : '';
+      const fields = Array.isArray(entry.fields)
+        ? entry.fields.filter((field): field is string => typeof field === 'string' && field.trim() !== '')
+        : [];
+      const format = (entry.format ?? 'text') as ProfileValueFormat;
+
+      if (!header) {
+        errors.push(`Column ${index + 1} needs a header.`);
+      } else if (columns.some((existing) => existing.header.toLowerCase() === header.toLowerCase())) {
+        errors.push(`The header "${header}" is used more than once.`);
+      }
+      if (fields.length === 0) errors.push(`Column ${header || index + 1} needs a result column to read from.`);
+      if (!PROFILE_VALUE_FORMATS.includes(format)) errors.push(`Column ${header || index + 1} has an unknown format.`);
+
+      columns.push({
+        header,
+        fields,
+        combine: entry.combine === 'all' ? 'all' : 'first',
+        format,
+        required: entry.required === true,
+      });
+    });
+  }
+
+  return { profile: { name, columns }, errors };
+}
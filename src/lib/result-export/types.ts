@@ -0,0 +1,38 @@
+/**
+ * Result Export Types
+ *
+ * Shared shapes for exporting stored results: the formats a download can be
+ * in, the table of rows an export is written from and the finished file.
+ */
+
+// Formats results can be exported in
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'vcf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'vcf'];
+
+// Labels shown for each format
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+  vcf: 'vCard (address book)',
+};
+
+// Interface for rows ready to export, with every column they can be exported with
+export interface ExportTable {
+  // Columns in their default order
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Interface for a file ready to be sent as a download
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+// Check a requested format
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { rowsToVCards, VCARD_COLUMNS } from './vcard';
+
+// Lines of the cards written for rows, with folded lines joined back
+function cardLines(rows: Record<string, unknown>[], columns: string[] = VCARD_COLUMNS): string[] {
+  return rowsToVCards(rows, columns).replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('rowsToVCards', () => {
+  it('writes one card per row with the contact fields', () => {
+    const lines = cardLines([{
+      firstName: 'Jane',
+      lastName: 'Doe',
+      companyName: 'Acme, Inc.',
+      foundEmail: 'jane@acme.io',
+      personalEmails: ['jane@acme.io', 'jane@example.com'],
+      linkedin: 'https://linkedin.com/in/jane doe',
+    }]);
+
+    expect(lines).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;Jane;;;',
+      'FN:Jane Doe',
+      'ORG:Acme\\, Inc.',
+      'EMAIL;TYPE=INTERNET,WORK:jane@acme.io',
+      'EMAIL;TYPE=INTERNET,HOME:jane@example.com',
+      'URL:https://linkedin.com/in/janedoe',
+      'END:VCARD',
+      '',
+    ]);
+  });
+
+  it('escapes separators in values', () => {
+    const lines = cardLines([{ firstName: 'A;B', lastName: 'C\\D', companyName: 'Line\nbreak' }]);
+
+    expect(lines).toContain('N:C\\\\D;A\\;B;;;');
+    expect(lines).toContain('ORG:Line\\nbreak');
+  });
+
+  it('names cards without a name after an email', () => {
+    expect(cardLines([{ email: 'jane@acme.io' }])).toContain('FN:jane@acme.io');
+    expect(cardLines([{ personalEmails: ['jane@example.com'] }])).toContain('FN:jane@example.com');
+  });
+
+  it('leaves out rows without a name or email', () => {
+    expect(rowsToVCards([{ companyName: 'Acme' }], VCARD_COLUMNS)).toBe('');
+  });
+
+  it('only uses the selected columns', () => {
+    const lines = cardLines([{ firstName: 'Jane', foundEmail: 'jane@acme.io' }], ['firstName']);
+    expect(lines.some((line) => line.startsWith('EMAIL'))).toBe(false);
+  });
+
+  it('folds lines longer than 75 characters', () => {
+    const body = rowsToVCards([{ firstName: 'Jane', companyName: 'x'.repeat(200) }], VCARD_COLUMNS);
+
+    expect(body.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+    expect(cardLines([{ firstName: 'Jane', companyName: 'x'.repeat(200) }])).toContain(`ORG:${'x'.repeat(200)}`);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * vCard Export
+ *
+ * Writes exported rows as vCard 3.0 contacts, the version address books
+ * (Apple Contacts, Google Contacts, Outlook) all import. Each row with a name
+ * or an email becomes one card holding the person's name, company, business
+ * and personal emails and LinkedIn URL.
+ */
+
+// Row columns a vCard is built from; other columns have no place on a card
+export const VCARD_COLUMNS = [
+  'firstName', 'lastName', 'companyName', 'foundEmail', 'email', 'personalEmails', 'linkedin',
+];
+
+// Longest line allowed before it is folded onto the next line
+const MAX_LINE_LENGTH = 75;
+
+// Escape a property value; commas, semicolons and backslashes are separators in vCards
+function escapeValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+// Fold a long line into continuation lines, each starting with a space
+function foldLine(line: string): string {
+  const characters = Array.from(line);
+  if (characters.length <= MAX_LINE_LENGTH) return line;
+
+  const parts: string[] = [];
+  for (let start = 0; start < characters.length; start += MAX_LINE_LENGTH - 1) {
+    parts.push(characters.slice(start, start + MAX_LINE_LENGTH - 1).join(''));
+  }
+  return parts.join('\r\n ');
+}
+
+// Read a column as trimmed text when it was selected for export
+function readText(row: Record<string, unknown>, columns: Set<string>, column: string): string {
+  const value = columns.has(column) ? row[column] : undefined;
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+/**
+ * Write rows as vCards, using only the selected columns. Bulk rows carry the
+ * business email as foundEmail and history entries as email.
+ */
+export function rowsToVCards(rows: Record<string, unknown>[], selectedColumns: string[]): string {
+  const columns = new Set(selectedColumns);
+
+  const cards = rows.flatMap((row) => {
+    const firstName = readText(row, columns, 'firstName');
+    const lastName = readText(row, columns, 'lastName');
+    const companyName = readText(row, columns, 'companyName');
+    const linkedin = readText(row, columns, 'linkedin');
+    const businessEmail = readText(row, columns, 'foundEmail') || readText(row, columns, 'email');
+    const personalEmails = columns.has('personalEmails') && Array.isArray(row.personalEmails)
+      ? row.personalEmails.map((email) => String(email).trim()).filter((email) => email && email !== businessEmail)
+      : [];
+
+    // Address books need a display name, so cards without a name are named after an email
+    const fullName = [firstName, lastName].filter(Boolean).join(' ') || businessEmail || personalEmails[0] || '';
+    if (!fullName) return [];
+
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `N:${escapeValue(lastName)};${escapeValue(firstName)};;;`,
+      `FN:${escapeValue(fullName)}`,
+      ...(companyName ? [`ORG:${escapeValue(companyName)}`] : []),
+      ...(businessEmail ? [`EMAIL;TYPE=INTERNET,WORK:${escapeValue(businessEmail)}`] : []),
+      ...personalEmails.map((email) => `EMAIL;TYPE=INTERNET,HOME:${escapeValue(email)}`),
+      // URLs are not text values, so they are written as they are
+      ...(linkedin ? [`URL:${linkedin.replace(/\s+/g, '')}`] : []),
+      'END:VCARD',
+    ];
+    return [lines.map(foldLine).join('\r\n')];
+  });
+
+  return cards.length > 0 ? `${cards.join('\r\n')}\r\n` : '';
+}
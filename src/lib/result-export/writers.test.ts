@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { csvCell, writeExportFile } from './writers';
+
+describe('csvCell', () => {
+  it('writes text that starts like a formula as text', () => {
+    expect(csvCell('=HYPERLINK("http://x")')).toBe('\'=HYPERLINK("http://x")');
+    expect(csvCell('+49 30 1234')).toBe("'+49 30 1234");
+    expect(csvCell('-1')).toBe("'-1");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\t=1')).toBe("'\t=1");
+  });
+
+  it('keeps other values as they are', () => {
+    expect(csvCell('Jane')).toBe('Jane');
+    expect(csvCell(-1)).toBe(-1);
+    expect(csvCell(true)).toBe(true);
+    expect(csvCell(['a', 'b'])).toBe('a; b');
+    expect(csvCell(null)).toBe('');
+  });
+});
+
+describe('writeExportFile', () => {
+  const rows = [{ firstName: '=1+1', personalEmails: ['a@x.io', 'b@x.io'] }];
+
+  it('escapes formulas in CSV files', () => {
+    const file = writeExportFile('csv', ['firstName', 'personalEmails'], rows, 'results');
+
+    expect(file.fileName).toBe('results.csv');
+    expect(file.body).toBe("firstName,personalEmails\r\n'=1+1,a@x.io; b@x.io");
+  });
+
+  it('writes XLSX values unchanged, as text cells', () => {
+    const file = writeExportFile('xlsx', ['firstName', 'phone'], [{ firstName: '-Ann', phone: '+49 30 1234' }], 'results');
+    const sheet = XLSX.read(file.body, { type: 'buffer' }).Sheets.Results;
+
+    expect(sheet.A2).toMatchObject({ t: 's', v: '-Ann' });
+    expect(sheet.B2).toMatchObject({ t: 's', v: '+49 30 1234' });
+  });
+
+  it('keeps JSON values as stored', () => {
+    const file = writeExportFile('json', ['firstName', 'personalEmails'], rows, 'results');
+    expect(JSON.parse(String(file.body))).toEqual(rows);
+  });
+});
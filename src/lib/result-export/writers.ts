@@ -0,0 +1,95 @@
+/**
+ * Export Writers
+ *
+ * Writes an export table with the selected columns as a CSV, XLSX, JSON or
+ * vCard file. Spreadsheet formats get one column per selected field, JSON
+ * keeps each value as stored (lists stay lists) and vCards hold the contact
+ * fields among the selected columns. CSV cells that a spreadsheet would read
+ * as a formula are written as text; XLSX cells are typed text already.
+ */
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { ExportFile, ExportFormat } from './types';
+import { rowsToVCards } from './vcard';
+
+// File extensions and content types of each format
+const FORMAT_FILES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: '.csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { extension: '.xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { extension: '.json', contentType: 'application/json; charset=utf-8' },
+  vcf: { extension: '.vcf', contentType: 'text/vcard; charset=utf-8' },
+};
+
+// Spreadsheet cells hold plain values, so lists are joined and objects written as JSON
+export function formatCell(value: unknown): string | number | boolean {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+}
+
+// Leading characters that make a spreadsheet read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Write a value as a CSV or TSV cell. Text that starts like a formula, e.g. a
+ * name of "=HYPERLINK(...)", is prefixed with a quote so Excel and Sheets show
+ * it instead of running it. Workbooks store text cells as text, so XLSX
+ * output uses formatCell and keeps the value as it is.
+ */
+export function csvCell(value: unknown): string | number | boolean {
+  const cell = formatCell(value);
+  return typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+}
+
+/**
+ * Write rows in a format, keeping only the given columns in the given order.
+ * The file is named after baseName with the format's extension.
+ */
+export function writeExportFile(
+  format: ExportFormat,
+  columns: string[],
+  rows: Record<string, unknown>[],
+  baseName: string
+): ExportFile {
+  const { extension, contentType } = FORMAT_FILES[format];
+  const fileName = `${baseName}${extension}`;
+
+  switch (format) {
+    case 'json': {
+      const records = rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])));
+      return { fileName, contentType, body: JSON.stringify(records, null, 2) };
+    }
+    case 'xlsx': {
+      const worksheet = XLSX.utils.aoa_to_sheet([
+        columns,
+        ...rows.map((row) => columns.map((column) => formatCell(row[column]))),
+      ]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Results');
+      return { fileName, contentType, body: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer };
+    }
+    case 'vcf':
+      return { fileName, contentType, body: rowsToVCards(rows, columns) };
+    default: {
+      const csv = Papa.unparse({
+        fields: columns.map(csvCell),
+        data: rows.map((row) => columns.map((column) => csvCell(row[column]))),
+      }) as string;
+      return { fileName, contentType, body: csv };
+    }
+  }
+}
+
+/**
+ * Response headers that make the browser save a file under its name.
+ * The plain filename is a fallback for clients that ignore filename*.
+ */
+export function downloadHeaders(file: { fileName: string; contentType: string }): Record<string, string> {
+  const plainName = file.fileName.replace(/["\\\r\n]/g, '_');
+  return {
+    'Content-Type': file.contentType,
+    'Content-Disposition': `attachment; filename="${plainName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Result Store
+ *
+ * Selects where search results are persisted:
+ * - RESULT_STORE_BACKEND=s3 (default) uses the bucket in S3_BUCKET_NAME
+ * - RESULT_STORE_BACKEND=local writes JSON files under RESULT_STORE_LOCAL_DIR
+ */
+
+import { LocalResultStore } from './local';
+import { S3ResultStore } from './s3';
+import { ResultStore } from './types';
+
+export type { ResultKind, ResultStore, ResultStoreBackend, StoredResultSummary } from './types';
+export { isValidResultId } from './types';
+
+const DEFAULT_LOCAL_DIR = 'data/results';
+
+/**
+ * Create the result store configured for this environment
+ */
+export function getResultStore(): ResultStore {
+  const backend = (process.env.RESULT_STORE_BACKEND || 's3').toLowerCase();
+
+  switch (backend) {
+    case 's3':
+      return new S3ResultStore();
+    case 'local':
+      return new LocalResultStore(process.env.RESULT_STORE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+    default:
+      console.error(`Unknown RESULT_STORE_BACKEND "${backend}", falling back to S3`);
+      return new S3ResultStore();
+  }
+}
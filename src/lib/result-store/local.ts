@@ -0,0 +1,83 @@
+/**
+ * Local Result Store
+ *
+ * Stores results as JSON files on local disk so search history works in
+ * local development and tests. Files are laid out like the S3 keys:
+ * <root>/user-data/<userId>/<find-email|bulk-find-email|bulk-find-email-parts|bulk-jobs|domain-search|column-mappings|export-profiles>/<id>.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { USER_DATA_FOLDERS } from '@/lib/aws-service';
+import {
+  assertValidResultId,
+  ResultKind,
+  ResultStore,
+  sortByLastModified,
+  StoredResultSummary,
+} from './types';
+
+export class LocalResultStore implements ResultStore {
+  readonly backend = 'local' as const;
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(process.cwd(), rootDir);
+  }
+
+  private directory(userId: string, kind: ResultKind): string {
+    assertValidResultId(userId);
+    return path.join(this.rootDir, 'user-data', userId, USER_DATA_FOLDERS[kind]);
+  }
+
+  private filePath(userId: string, kind: ResultKind, id: string): string {
+    assertValidResultId(id);
+    return path.join(this.directory(userId, kind), `${id}.json`);
+  }
+
+  async put(userId: string, kind: ResultKind, id: string, data: unknown): Promise<void> {
+    const filePath = this.filePath(userId, kind, id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+  }
+
+  async get<T = Record<string, unknown>>(userId: string, kind: ResultKind, id: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(userId, kind, id), 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(userId: string, kind: ResultKind): Promise<StoredResultSummary[]> {
+    const directory = this.directory(userId, kind);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const results = await Promise.all(
+      entries
+        .filter((name) => name.endsWith('.json'))
+        .map(async (name) => {
+          const filePath = path.join(directory, name);
+          const stats = await fs.stat(filePath);
+          return { id: name.replace(/\.json$/, ''), key: filePath, lastModified: stats.mtime };
+        })
+    );
+
+    return sortByLastModified(results);
+  }
+
+  async delete(userId: string, kind: ResultKind, id: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(userId, kind, id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * S3 Result Store
+ *
+ * Stores results as JSON objects under the per-user prefix derived from
+ * S3_BUCKET_NAME by parseS3BucketConfig.
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { initS3Client, parseS3BucketConfig } from '@/lib/aws-service';
+import {
+  assertValidResultId,
+  ResultKind,
+  ResultStore,
+  sortByLastModified,
+  StoredResultSummary,
+} from './types';
+
+// Helper function to convert stream to string
+async function streamToString(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+export class S3ResultStore implements ResultStore {
+  readonly backend = 's3' as const;
+
+  constructor(private readonly s3Client: S3Client = initS3Client()) {}
+
+  private location(userId: string, kind: ResultKind, id: string) {
+    assertValidResultId(id);
+    const { bucketName, prefix } = parseS3BucketConfig(userId, kind);
+    return { Bucket: bucketName, Key: `${prefix}${id}.json` };
+  }
+
+  async put(userId: string, kind: ResultKind, id: string, data: unknown): Promise<void> {
+    await this.s3Client.send(
+      new PutObjectCommand({
+        ...this.location(userId, kind, id),
+        Body: JSON.stringify(data),
+        ContentType: 'application/json',
+      })
+    );
+  }
+
+  async get<T = Record<string, unknown>>(userId: string, kind: ResultKind, id: string): Promise<T | null> {
+    try {
+      const data = await this.s3Client.send(new GetObjectCommand(this.location(userId, kind, id)));
+      if (!data.Body) return null;
+      return JSON.parse(await streamToString(data.Body as Readable)) as T;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async list(userId: string, kind: ResultKind): Promise<StoredResultSummary[]> {
+    const { bucketName, prefix } = parseS3BucketConfig(userId, kind);
+    const results: StoredResultSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const listedObjects = await this.s3Client.send(
+        new ListObjectsV2Command({ Bucket: bucketName, Prefix: prefix, ContinuationToken: continuationToken })
+      );
+
+      for (const item of listedObjects.Contents || []) {
+        const name = item.Key?.substring(prefix.length);
+        // Only direct children of the prefix are results
+        if (!item.Key || !name || !name.endsWith('.json') || name.includes('/')) continue;
+        results.push({ id: name.replace(/\.json$/, ''), key: item.Key, lastModified: item.LastModified });
+      }
+
+      continuationToken = listedObjects.IsTruncated ? listedObjects.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return sortByLastModified(results);
+  }
+
+  async delete(userId: string, kind: ResultKind, id: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand(this.location(userId, kind, id)));
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Result Store Types
+ *
+ * Shared contract for the backends that persist single, bulk and domain
+ * search results (search history), the rows of bulk results, bulk job
+ * status, saved column mappings and export profiles.
+ */
+
+// Backends a result store can be configured with
+export type ResultStoreBackend = 's3' | 'local';
+
+// Kinds of stored results; each kind lives under its own per-user prefix
+export type ResultKind = 'single' | 'bulk' | 'bulk-part' | 'job' | 'domain' | 'mapping' | 'profile';
+
+// Interface for an entry returned by ResultStore.list
+export interface StoredResultSummary {
+  id: string;
+  key: string;
+  lastModified?: Date;
+}
+
+// Interface implemented by every result store backend
+export interface ResultStore {
+  readonly backend: ResultStoreBackend;
+
+  /**
+   * Store a result as JSON, replacing any existing result with the same id
+   */
+  put(userId: string, kind: ResultKind, id: string, data: unknown): Promise<void>;
+
+  /**
+   * Read a result, or null when it does not exist
+   */
+  get<T = Record<string, unknown>>(userId: string, kind: ResultKind, id: string): Promise<T | null>;
+
+  /**
+   * List the user's stored results of a kind, newest first
+   */
+  list(userId: string, kind: ResultKind): Promise<StoredResultSummary[]>;
+
+  /**
+   * Delete a result; deleting a missing result is not an error
+   */
+  delete(userId: string, kind: ResultKind, id: string): Promise<void>;
+}
+
+/**
+ * Whether an id stays within the user's prefix or directory; routes check ids
+ * from the URL with this so a bad id is a 400 rather than a store error
+ */
+export function isValidResultId(id: string): boolean {
+  return !!id && !id.includes('/') && !id.includes('\\') && id !== '.' && id !== '..';
+}
+
+/**
+ * Reject ids that could escape the user's prefix or directory
+ */
+export function assertValidResultId(id: string): void {
+  if (!isValidResultId(id)) {
+    throw new Error(`Invalid result id: ${id}`);
+  }
+}
+
+/**
+ * Sort results newest first
+ */
+export function sortByLastModified(results: StoredResultSummary[]): StoredResultSummary[] {
+  return results.sort((a, b) => (b.lastModified?.getTime() || 0) - (a.lastModified?.getTime() || 0));
+}